@@ -4,13 +4,30 @@ import { QueryClientProvider } from "@tanstack/react-query";
 import { Toaster } from "@/components/ui/toaster";
 import { TooltipProvider } from "@/components/ui/tooltip";
 import { AuthProvider, useAuth } from "@/lib/auth";
+import { useRealtime } from "@/hooks/use-realtime";
 import Login from "@/pages/login";
 import Dashboard from "@/pages/dashboard";
 import AdminDashboard from "@/pages/admin-dashboard";
+import StudentDashboard from "@/pages/student-dashboard";
+import ParentDashboard from "@/pages/parent-dashboard";
 import NotFound from "@/pages/not-found";
 
+function homeFor(role: string) {
+  switch (role) {
+    case 'admin':
+      return AdminDashboard;
+    case 'student':
+      return StudentDashboard;
+    case 'parent':
+      return ParentDashboard;
+    default:
+      return Dashboard;
+  }
+}
+
 function AuthenticatedApp() {
   const { user, isLoading } = useAuth();
+  useRealtime(!!user);
 
   if (isLoading) {
     return (
@@ -26,8 +43,8 @@ function AuthenticatedApp() {
 
   return (
     <Switch>
-      <Route path="/" component={user.role === 'admin' ? AdminDashboard : Dashboard} />
-      <Route path="/admin" component={AdminDashboard} />
+      <Route path="/" component={homeFor(user.role)} />
+      <Route path="/admin" component={user.role === 'admin' ? AdminDashboard : NotFound} />
       <Route component={NotFound} />
     </Switch>
   );
@@ -0,0 +1,149 @@
+import { useRef, useState } from "react";
+import { Link2, Paperclip, Upload, X } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { attachmentSchema, isWebLink, type Attachment } from "@shared/schema";
+import { ApiError, apiRequest, uploadFile } from "@/lib/queryClient";
+import { useToast } from "@/hooks/use-toast";
+
+const MAX_ATTACHMENTS = 10;
+
+// Uploaded files are fetched through a short-lived signed link; plain links open as they are
+async function openAttachment(attachment: Attachment) {
+  if (attachment.url) {
+    if (!isWebLink(attachment.url)) throw new Error(`Not a web link: ${attachment.url}`);
+    window.open(attachment.url, "_blank", "noreferrer");
+    return;
+  }
+  const res = await apiRequest('GET', `/api/uploads/${attachment.uploadId}/url`);
+  const { url } = await res.json();
+  window.location.assign(url);
+}
+
+export function AttachmentList({ attachments, className }: { attachments: Attachment[]; className?: string }) {
+  const { toast } = useToast();
+
+  const open = (attachment: Attachment) => {
+    openAttachment(attachment).catch(() => {
+      toast({
+        title: "Error",
+        description: `Failed to open ${attachment.name}`,
+        variant: "destructive",
+      });
+    });
+  };
+
+  if (attachments.length === 0) return null;
+  return (
+    <div className={className}>
+      {attachments.map((attachment, index) => (
+        <button
+          key={index}
+          type="button"
+          onClick={() => open(attachment)}
+          className="flex items-center text-sm text-primary hover:underline"
+          data-testid={`link-attachment-${index}`}
+        >
+          <Paperclip className="h-3 w-3 mr-1" />
+          {attachment.name}
+        </button>
+      ))}
+    </div>
+  );
+}
+
+interface AttachmentsInputProps {
+  value: Attachment[];
+  onChange: (attachments: Attachment[]) => void;
+}
+
+// Editing a list of attachments: files are uploaded straight away, links are added by URL
+export function AttachmentsInput({ value, onChange }: AttachmentsInputProps) {
+  const fileInput = useRef<HTMLInputElement>(null);
+  const [uploading, setUploading] = useState(false);
+  const [linkName, setLinkName] = useState("");
+  const [linkUrl, setLinkUrl] = useState("");
+  const { toast } = useToast();
+  const full = value.length >= MAX_ATTACHMENTS;
+
+  const upload = async (file: File) => {
+    setUploading(true);
+    try {
+      const uploaded = await uploadFile(file);
+      onChange([...value, { name: uploaded.name, uploadId: uploaded.id }]);
+    } catch (error) {
+      toast({
+        title: "Error",
+        description: error instanceof ApiError && error.body?.message ? error.body.message : "Failed to upload file",
+        variant: "destructive",
+      });
+    } finally {
+      setUploading(false);
+      if (fileInput.current) fileInput.current.value = "";
+    }
+  };
+
+  const addLink = () => {
+    const link = attachmentSchema.safeParse({ name: linkName.trim() || linkUrl.trim(), url: linkUrl.trim() });
+    if (!link.success) {
+      toast({
+        title: "Error",
+        description: "Enter a valid link",
+        variant: "destructive",
+      });
+      return;
+    }
+    onChange([...value, link.data]);
+    setLinkName("");
+    setLinkUrl("");
+  };
+
+  return (
+    <div className="space-y-2">
+      {value.map((attachment, index) => (
+        <div key={index} className="flex items-center justify-between text-sm">
+          <span className="flex items-center text-gray-800">
+            {attachment.uploadId ? <Paperclip className="h-3 w-3 mr-1" /> : <Link2 className="h-3 w-3 mr-1" />}
+            {attachment.name}
+          </span>
+          <Button
+            type="button"
+            variant="ghost"
+            size="sm"
+            onClick={() => onChange(value.filter((_, i) => i !== index))}
+            className="text-red-600 hover:text-red-700"
+            data-testid={`button-remove-attachment-${index}`}
+          >
+            <X className="h-4 w-4" />
+          </Button>
+        </div>
+      ))}
+      <div className="flex items-center space-x-2">
+        <Input placeholder="Name" value={linkName} onChange={(e) => setLinkName(e.target.value)} className="w-32" data-testid="input-attachment-name" />
+        <Input placeholder="https://" value={linkUrl} onChange={(e) => setLinkUrl(e.target.value)} className="flex-1" data-testid="input-attachment-url" />
+        <Button type="button" variant="outline" size="sm" onClick={addLink} disabled={full || !linkUrl.trim()} data-testid="button-add-attachment-link">
+          Add Link
+        </Button>
+      </div>
+      <input
+        ref={fileInput}
+        type="file"
+        className="hidden"
+        onChange={(e) => e.target.files?.[0] && upload(e.target.files[0])}
+        data-testid="input-attachment-file"
+      />
+      <Button
+        type="button"
+        variant="ghost"
+        size="sm"
+        onClick={() => fileInput.current?.click()}
+        disabled={full || uploading}
+        className="text-primary hover:text-primary/80"
+        data-testid="button-upload-attachment"
+      >
+        <Upload className="h-4 w-4 mr-1" />
+        {uploading ? "Uploading..." : "Upload File"}
+      </Button>
+    </div>
+  );
+}
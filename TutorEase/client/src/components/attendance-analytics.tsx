@@ -0,0 +1,142 @@
+import { useQuery } from "@tanstack/react-query";
+import { Bar, BarChart, CartesianGrid, XAxis, YAxis } from "recharts";
+import { format } from "date-fns";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Badge } from "@/components/ui/badge";
+import { ChartContainer, ChartTooltip, ChartTooltipContent, type ChartConfig } from "@/components/ui/chart";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import { AlertTriangle, TrendingUp } from "lucide-react";
+import { type AttendanceAnalytics } from "@shared/schema";
+
+const chartConfig = {
+  rate: { label: "Attendance %", color: "hsl(var(--primary))" },
+} satisfies ChartConfig;
+
+const formatRate = (rate: number | null) => rate === null ? "—" : `${rate}%`;
+
+// Twelve-week attendance overview: weekly trend, per-class and per-tutor rates, and chronic absentees
+export default function AttendanceAnalyticsPanel() {
+  const { data: analytics, isLoading } = useQuery<AttendanceAnalytics>({
+    queryKey: ['/api/analytics/attendance'],
+  });
+
+  if (isLoading || !analytics) {
+    return <div className="text-center py-8">Loading attendance analytics...</div>;
+  }
+
+  const trend = analytics.weeklyTrend.map(week => ({
+    week: format(new Date(week.weekStart), 'MMM dd'),
+    rate: week.rate ?? 0,
+  }));
+
+  return (
+    <div className="grid grid-cols-1 lg:grid-cols-2 gap-6">
+      <Card>
+        <CardHeader>
+          <CardTitle className="flex items-center gap-2">
+            <TrendingUp className="h-5 w-5" />
+            Weekly Attendance
+          </CardTitle>
+        </CardHeader>
+        <CardContent>
+          <ChartContainer config={chartConfig} className="h-64 w-full" data-testid="chart-attendance-trend">
+            <BarChart data={trend}>
+              <CartesianGrid vertical={false} />
+              <XAxis dataKey="week" tickLine={false} axisLine={false} fontSize={12} />
+              <YAxis domain={[0, 100]} tickLine={false} axisLine={false} fontSize={12} width={32} />
+              <ChartTooltip content={<ChartTooltipContent />} />
+              <Bar dataKey="rate" fill="var(--color-rate)" radius={4} />
+            </BarChart>
+          </ChartContainer>
+        </CardContent>
+      </Card>
+
+      <Card>
+        <CardHeader>
+          <CardTitle className="flex items-center gap-2">
+            <AlertTriangle className="h-5 w-5" />
+            Chronically Absent (below {analytics.threshold}%)
+          </CardTitle>
+        </CardHeader>
+        <CardContent>
+          {analytics.chronicallyAbsent.length === 0 ? (
+            <div className="text-center py-8 text-gray-500">No students below the threshold</div>
+          ) : (
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead>Student</TableHead>
+                  <TableHead>Absences</TableHead>
+                  <TableHead>Rate</TableHead>
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {analytics.chronicallyAbsent.map(student => (
+                  <TableRow key={student.studentId} data-testid={`row-chronic-${student.studentId}`}>
+                    <TableCell>{student.name}</TableCell>
+                    <TableCell>{student.absent} of {student.total}</TableCell>
+                    <TableCell>
+                      <Badge variant="destructive">{formatRate(student.rate)}</Badge>
+                    </TableCell>
+                  </TableRow>
+                ))}
+              </TableBody>
+            </Table>
+          )}
+        </CardContent>
+      </Card>
+
+      <Card>
+        <CardHeader>
+          <CardTitle>By Class</CardTitle>
+        </CardHeader>
+        <CardContent>
+          <Table>
+            <TableHeader>
+              <TableRow>
+                <TableHead>Class</TableHead>
+                <TableHead>Records</TableHead>
+                <TableHead>Rate</TableHead>
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {analytics.byClass.map(cls => (
+                <TableRow key={cls.classId}>
+                  <TableCell>{cls.name}</TableCell>
+                  <TableCell>{cls.total}</TableCell>
+                  <TableCell>{formatRate(cls.rate)}</TableCell>
+                </TableRow>
+              ))}
+            </TableBody>
+          </Table>
+        </CardContent>
+      </Card>
+
+      <Card>
+        <CardHeader>
+          <CardTitle>By Tutor</CardTitle>
+        </CardHeader>
+        <CardContent>
+          <Table>
+            <TableHeader>
+              <TableRow>
+                <TableHead>Tutor</TableHead>
+                <TableHead>Records</TableHead>
+                <TableHead>Rate</TableHead>
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {analytics.byTutor.map(tutor => (
+                <TableRow key={tutor.tutorId}>
+                  <TableCell>{tutor.name}</TableCell>
+                  <TableCell>{tutor.total}</TableCell>
+                  <TableCell>{formatRate(tutor.rate)}</TableCell>
+                </TableRow>
+              ))}
+            </TableBody>
+          </Table>
+        </CardContent>
+      </Card>
+    </div>
+  );
+}
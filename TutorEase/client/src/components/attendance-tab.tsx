@@ -1,24 +1,36 @@
-import { useState } from "react";
+import { useEffect, useState } from "react";
 import { useQuery, useMutation, useQueryClient } from "@tanstack/react-query";
 import { Card, CardContent } from "@/components/ui/card";
 import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Badge } from "@/components/ui/badge";
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
 import { RadioGroup, RadioGroupItem } from "@/components/ui/radio-group";
 import { Label } from "@/components/ui/label";
-import { type Student, type Class, type InsertAttendance } from "@shared/schema";
+import { Calendar } from "@/components/ui/calendar";
+import { Popover, PopoverContent, PopoverTrigger } from "@/components/ui/popover";
+import { CalendarIcon } from "lucide-react";
+import { type Student, type Class, type Attendance, type Enrollment, type InsertAttendance } from "@shared/schema";
 import { apiRequest } from "@/lib/queryClient";
 import { useToast } from "@/hooks/use-toast";
+import { format, isToday, startOfDay } from "date-fns";
+
+type AttendanceStatus = 'present' | 'absent' | 'late';
 
 interface AttendanceRecord {
+  id?: string; // set once the record has been saved
   studentId: string;
-  status: 'present' | 'absent' | 'late';
+  status: AttendanceStatus;
+  notes: string;
 }
 
 export default function AttendanceTab() {
   const [selectedClassId, setSelectedClassId] = useState<string>("");
+  const [selectedDate, setSelectedDate] = useState<Date>(startOfDay(new Date()));
   const [attendanceRecords, setAttendanceRecords] = useState<AttendanceRecord[]>([]);
   const queryClient = useQueryClient();
   const { toast } = useToast();
+  const dateParam = selectedDate.toISOString();
 
   const { data: classes = [] } = useQuery<Class[]>({
     queryKey: ['/api/classes'],
@@ -28,20 +40,56 @@ export default function AttendanceTab() {
     queryKey: ['/api/students'],
   });
 
-  const selectedClass = classes.find(c => c.id === selectedClassId);
-  const classStudents = students.filter(student => 
-    selectedClass?.studentIds.includes(student.id)
+  // The roster as it stood on the selected day, so past registers list past members
+  const { data: roster = [] } = useQuery<Enrollment[]>({
+    queryKey: ['/api/classes', selectedClassId, 'enrollments', dateParam],
+    queryFn: async () => {
+      const response = await apiRequest('GET', `/api/classes/${selectedClassId}/enrollments?date=${encodeURIComponent(dateParam)}`);
+      return response.json();
+    },
+    enabled: !!selectedClassId,
+  });
+
+  const { data: savedAttendance, isLoading: isLoadingRegister } = useQuery<Attendance[]>({
+    queryKey: ['/api/attendance/class', selectedClassId, dateParam],
+    queryFn: async () => {
+      const response = await apiRequest('GET', `/api/attendance/class/${selectedClassId}?date=${encodeURIComponent(dateParam)}`);
+      return response.json();
+    },
+    enabled: !!selectedClassId,
+  });
+
+  useEffect(() => {
+    setAttendanceRecords((savedAttendance ?? []).map(record => ({
+      id: record.id,
+      studentId: record.studentId,
+      status: record.status as AttendanceStatus,
+      notes: record.notes ?? "",
+    })));
+  }, [savedAttendance]);
+
+  const classStudents = students.filter(student =>
+    roster.some(enrollment => enrollment.studentId === student.id) ||
+    savedAttendance?.some(record => record.studentId === student.id)
   );
+  const isSaved = (savedAttendance?.length ?? 0) > 0;
 
   const saveAttendanceMutation = useMutation({
-    mutationFn: (data: InsertAttendance[]) => apiRequest('POST', '/api/attendance/bulk', data),
+    mutationFn: async ({ created, corrected }: { created: InsertAttendance[]; corrected: AttendanceRecord[] }) => {
+      if (created.length > 0) {
+        await apiRequest('POST', '/api/attendance/bulk', created);
+      }
+      for (const record of corrected) {
+        await apiRequest('PUT', `/api/attendance/${record.id}`, { status: record.status, notes: record.notes || null });
+      }
+    },
     onSuccess: () => {
       queryClient.invalidateQueries({ queryKey: ['/api/attendance'] });
+      queryClient.invalidateQueries({ queryKey: ['/api/attendance/class'] });
       toast({
         title: "Success",
         description: "Attendance saved successfully",
       });
-      setAttendanceRecords([]);
     },
     onError: () => {
       toast({
@@ -52,19 +100,24 @@ export default function AttendanceTab() {
     },
   });
 
-  const handleAttendanceChange = (studentId: string, status: 'present' | 'absent' | 'late') => {
+  const updateRecord = (studentId: string, changes: Partial<Omit<AttendanceRecord, 'studentId'>>) => {
     setAttendanceRecords(prev => {
       const existing = prev.find(record => record.studentId === studentId);
       if (existing) {
-        return prev.map(record => 
-          record.studentId === studentId ? { ...record, status } : record
+        return prev.map(record =>
+          record.studentId === studentId ? { ...record, ...changes } : record
         );
       } else {
-        return [...prev, { studentId, status }];
+        return [...prev, { studentId, status: 'present', notes: "", ...changes }];
       }
     });
   };
 
+  const handleAttendanceChange = (studentId: string, status: AttendanceStatus) => {
+    updateRecord(studentId, { status });
+  };
+
+  // New rows go through the bulk upsert; rows already saved for this day are corrected individually
   const handleSaveAttendance = () => {
     if (!selectedClassId) {
       toast({
@@ -75,26 +128,31 @@ export default function AttendanceTab() {
       return;
     }
 
-    const attendanceData: InsertAttendance[] = classStudents.map(student => {
+    const created: InsertAttendance[] = [];
+    const corrected: AttendanceRecord[] = [];
+    for (const student of classStudents) {
       const record = attendanceRecords.find(r => r.studentId === student.id);
-      return {
-        classId: selectedClassId,
-        studentId: student.id,
-        date: new Date(),
-        status: record?.status || 'present',
-        notes: null,
-      };
-    });
+      const saved = savedAttendance?.find(r => r.studentId === student.id);
+      if (saved && record) {
+        if (saved.status !== record.status || (saved.notes ?? "") !== record.notes) {
+          corrected.push({ ...record, id: saved.id });
+        }
+      } else if (!saved) {
+        created.push({
+          classId: selectedClassId,
+          studentId: student.id,
+          date: selectedDate,
+          status: record?.status || 'present',
+          notes: record?.notes || null,
+        });
+      }
+    }
 
-    saveAttendanceMutation.mutate(attendanceData);
+    saveAttendanceMutation.mutate({ created, corrected });
   };
 
   const handleBulkMarkPresent = () => {
-    const bulkRecords = classStudents.map(student => ({
-      studentId: student.id,
-      status: 'present' as const,
-    }));
-    setAttendanceRecords(bulkRecords);
+    classStudents.forEach(student => updateRecord(student.id, { status: 'present' }));
   };
 
   const getInitials = (name: string) => {
@@ -106,10 +164,15 @@ export default function AttendanceTab() {
     return record?.status || 'present';
   };
 
-  // Calculate statistics
-  const presentCount = attendanceRecords.filter(r => r.status === 'present').length;
-  const absentCount = attendanceRecords.filter(r => r.status === 'absent').length;
-  const lateCount = attendanceRecords.filter(r => r.status === 'late').length;
+  const getAttendanceNotes = (studentId: string) => {
+    return attendanceRecords.find(r => r.studentId === studentId)?.notes ?? "";
+  };
+
+  // Calculate statistics (unmarked students count as present, matching the default selection)
+  const statuses = classStudents.map(student => getAttendanceStatus(student.id));
+  const presentCount = statuses.filter(status => status === 'present').length;
+  const absentCount = statuses.filter(status => status === 'absent').length;
+  const lateCount = statuses.filter(status => status === 'late').length;
   const totalStudents = classStudents.length;
   const attendanceRate = totalStudents > 0 ? ((presentCount + lateCount) / totalStudents * 100).toFixed(1) : '0.0';
 
@@ -120,20 +183,42 @@ export default function AttendanceTab() {
         <Card className="shadow-sm border border-gray-100">
           <div className="p-6 border-b border-gray-100">
             <div className="flex items-center justify-between">
-              <h3 className="text-lg font-semibold text-gray-900">Mark Attendance</h3>
+              <div className="flex items-center space-x-2">
+                <h3 className="text-lg font-semibold text-gray-900">Mark Attendance</h3>
+                {isSaved && (
+                  <Badge className="bg-green-100 text-green-800" data-testid="badge-register-saved">Saved</Badge>
+                )}
+              </div>
               <div className="flex items-center space-x-3">
                 <Select value={selectedClassId} onValueChange={setSelectedClassId}>
-                  <SelectTrigger className="w-64" data-testid="select-class-attendance">
+                  <SelectTrigger className="w-56" data-testid="select-class-attendance">
                     <SelectValue placeholder="Select a class" />
                   </SelectTrigger>
                   <SelectContent>
                     {classes.map((cls) => (
                       <SelectItem key={cls.id} value={cls.id}>
-                        {cls.name} - Today {new Date().toLocaleTimeString([], {hour: '2-digit', minute:'2-digit'})}
+                        {cls.name}
                       </SelectItem>
                     ))}
                   </SelectContent>
                 </Select>
+                <Popover>
+                  <PopoverTrigger asChild>
+                    <Button variant="outline" className="w-40 pl-3 text-left font-normal" data-testid="button-attendance-date">
+                      {isToday(selectedDate) ? "Today" : format(selectedDate, "MMM dd, yyyy")}
+                      <CalendarIcon className="ml-auto h-4 w-4 opacity-50" />
+                    </Button>
+                  </PopoverTrigger>
+                  <PopoverContent className="w-auto p-0" align="end">
+                    <Calendar
+                      mode="single"
+                      selected={selectedDate}
+                      onSelect={(date) => date && setSelectedDate(startOfDay(date))}
+                      disabled={(date) => date > new Date()}
+                      initialFocus
+                    />
+                  </PopoverContent>
+                </Popover>
                 <Button
                   onClick={handleSaveAttendance}
                   disabled={!selectedClassId || saveAttendanceMutation.isPending}
@@ -150,6 +235,10 @@ export default function AttendanceTab() {
               <div className="text-center py-8 text-gray-500">
                 Please select a class to mark attendance
               </div>
+            ) : isLoadingRegister ? (
+              <div className="text-center py-8 text-gray-500">
+                Loading register...
+              </div>
             ) : classStudents.length === 0 ? (
               <div className="text-center py-8 text-gray-500">
                 No students found in this class
@@ -170,9 +259,16 @@ export default function AttendanceTab() {
                         <div className="text-sm text-gray-600">Roll No: {student.rollNumber}</div>
                       </div>
                     </div>
+                    <Input
+                      placeholder="Notes"
+                      value={getAttendanceNotes(student.id)}
+                      onChange={(e) => updateRecord(student.id, { notes: e.target.value })}
+                      className="w-40 mx-4"
+                      data-testid={`input-attendance-notes-${student.id}`}
+                    />
                     <RadioGroup
                       value={getAttendanceStatus(student.id)}
-                      onValueChange={(value) => handleAttendanceChange(student.id, value as 'present' | 'absent' | 'late')}
+                      onValueChange={(value) => handleAttendanceChange(student.id, value as AttendanceStatus)}
                       className="flex items-center space-x-6"
                     >
                       <div className="flex items-center space-x-2">
@@ -212,7 +308,9 @@ export default function AttendanceTab() {
       <div className="space-y-6">
         <Card className="shadow-sm border border-gray-100">
           <CardContent className="p-6">
-            <h4 className="text-lg font-semibold text-gray-900 mb-4">Today's Summary</h4>
+            <h4 className="text-lg font-semibold text-gray-900 mb-4">
+              {isToday(selectedDate) ? "Today's Summary" : `Summary for ${format(selectedDate, "MMM dd")}`}
+            </h4>
             <div className="space-y-4">
               <div className="flex items-center justify-between">
                 <span className="text-sm text-gray-600">Total Present</span>
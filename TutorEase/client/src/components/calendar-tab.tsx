@@ -0,0 +1,308 @@
+import { useState } from "react";
+import { useQuery, useMutation, useQueryClient } from "@tanstack/react-query";
+import {
+  addDays, addMonths, eachDayOfInterval, endOfMonth, endOfWeek, format, isSameDay, isSameMonth,
+  startOfMonth, startOfWeek,
+} from "date-fns";
+import { Card, CardContent } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Calendar } from "@/components/ui/calendar";
+import { Dialog, DialogContent, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import { DropdownMenu, DropdownMenuContent, DropdownMenuItem, DropdownMenuTrigger } from "@/components/ui/dropdown-menu";
+import { ChevronLeft, ChevronRight, Clock, MapPin, MoreVertical } from "lucide-react";
+import { type ClassSession } from "@shared/schema";
+import { apiRequest } from "@/lib/queryClient";
+import { useAuth } from "@/lib/auth";
+import { useToast } from "@/hooks/use-toast";
+
+type CalendarView = "week" | "month";
+
+export default function CalendarTab() {
+  const [view, setView] = useState<CalendarView>("week");
+  const [selectedDate, setSelectedDate] = useState(new Date());
+  const [reschedulingSession, setReschedulingSession] = useState<ClassSession | null>(null);
+  const [newStart, setNewStart] = useState("");
+  const [newRoom, setNewRoom] = useState("");
+  const queryClient = useQueryClient();
+  const { user } = useAuth();
+  const { toast } = useToast();
+  const canEdit = user?.role === "admin" || user?.role === "tutor";
+
+  // Month view shows whole weeks so the grid lines up
+  const rangeStart = view === "week"
+    ? startOfWeek(selectedDate, { weekStartsOn: 1 })
+    : startOfWeek(startOfMonth(selectedDate), { weekStartsOn: 1 });
+  const rangeEnd = view === "week"
+    ? addDays(rangeStart, 7)
+    : addDays(endOfWeek(endOfMonth(selectedDate), { weekStartsOn: 1 }), 1);
+  const days = eachDayOfInterval({ start: rangeStart, end: addDays(rangeEnd, -1) });
+
+  const { data: sessions = [], isLoading } = useQuery<ClassSession[]>({
+    queryKey: ['/api/sessions', rangeStart.toISOString(), rangeEnd.toISOString()],
+    queryFn: async () => {
+      const params = new URLSearchParams({ from: rangeStart.toISOString(), to: rangeEnd.toISOString() });
+      const response = await apiRequest('GET', `/api/sessions?${params}`);
+      return response.json();
+    },
+  });
+
+  const sessionsOn = (day: Date) => sessions.filter(session => isSameDay(new Date(session.start), day));
+
+  const changeSessionMutation = useMutation({
+    mutationFn: ({ session, change }: { session: ClassSession; change: Record<string, unknown> }) =>
+      apiRequest('POST', `/api/classes/${session.classId}/session-exceptions`, {
+        sessionDate: session.scheduledStart,
+        ...change,
+      }),
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['/api/sessions'] });
+      queryClient.invalidateQueries({ queryKey: ['/api/dashboard/stats'] });
+      setReschedulingSession(null);
+      toast({
+        title: "Success",
+        description: "Session updated successfully",
+      });
+    },
+    onError: () => {
+      toast({
+        title: "Error",
+        description: "Failed to update session",
+        variant: "destructive",
+      });
+    },
+  });
+
+  const restoreSessionMutation = useMutation({
+    mutationFn: (exceptionId: string) => apiRequest('DELETE', `/api/session-exceptions/${exceptionId}`),
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['/api/sessions'] });
+      queryClient.invalidateQueries({ queryKey: ['/api/dashboard/stats'] });
+      toast({
+        title: "Success",
+        description: "Session restored to its regular time",
+      });
+    },
+    onError: () => {
+      toast({
+        title: "Error",
+        description: "Failed to restore session",
+        variant: "destructive",
+      });
+    },
+  });
+
+  const handleCancel = (session: ClassSession) => {
+    if (confirm(`Cancel ${session.className} on ${format(new Date(session.start), 'MMM dd')}?`)) {
+      changeSessionMutation.mutate({ session, change: { type: "cancelled" } });
+    }
+  };
+
+  const openRescheduleDialog = (session: ClassSession) => {
+    setReschedulingSession(session);
+    setNewStart(format(new Date(session.start), "yyyy-MM-dd'T'HH:mm"));
+    setNewRoom(session.room ?? "");
+  };
+
+  const handleReschedule = () => {
+    if (!reschedulingSession || !newStart) return;
+    changeSessionMutation.mutate({
+      session: reschedulingSession,
+      change: { type: "rescheduled", startsAt: new Date(newStart).toISOString(), room: newRoom || null },
+    });
+  };
+
+  const shiftRange = (direction: 1 | -1) => {
+    setSelectedDate(prev => view === "week" ? addDays(prev, 7 * direction) : addMonths(prev, direction));
+  };
+
+  const renderSession = (session: ClassSession, compact: boolean) => (
+    <div
+      key={session.id}
+      className={`rounded-md border p-2 text-xs ${
+        session.status === "cancelled"
+          ? "bg-gray-50 border-gray-200 text-gray-400 line-through"
+          : session.status === "rescheduled"
+            ? "bg-amber-50 border-amber-200"
+            : "bg-blue-50 border-blue-100"
+      }`}
+      data-testid={`session-${session.id}`}
+    >
+      <div className="flex items-start justify-between">
+        <div className="font-medium text-gray-900 truncate">{session.className}</div>
+        {canEdit && !compact && (
+          <DropdownMenu>
+            <DropdownMenuTrigger asChild>
+              <Button variant="ghost" size="sm" className="h-5 w-5 p-0" data-testid={`button-session-actions-${session.id}`}>
+                <MoreVertical className="h-3 w-3" />
+              </Button>
+            </DropdownMenuTrigger>
+            <DropdownMenuContent align="end">
+              {session.status !== "cancelled" && (
+                <DropdownMenuItem onClick={() => openRescheduleDialog(session)}>Reschedule</DropdownMenuItem>
+              )}
+              {session.status !== "cancelled" && (
+                <DropdownMenuItem onClick={() => handleCancel(session)} className="text-red-600">Cancel session</DropdownMenuItem>
+              )}
+              {session.exceptionId && (
+                <DropdownMenuItem onClick={() => restoreSessionMutation.mutate(session.exceptionId!)}>
+                  Restore regular time
+                </DropdownMenuItem>
+              )}
+            </DropdownMenuContent>
+          </DropdownMenu>
+        )}
+      </div>
+      <div className="flex items-center text-gray-600 mt-1">
+        <Clock className="h-3 w-3 mr-1" />
+        {format(new Date(session.start), 'h:mm a')}
+        {!compact && ` – ${format(new Date(session.end), 'h:mm a')}`}
+      </div>
+      {!compact && session.room && (
+        <div className="flex items-center text-gray-600 mt-1">
+          <MapPin className="h-3 w-3 mr-1" />
+          {session.room}
+        </div>
+      )}
+      {!compact && session.status !== "scheduled" && (
+        <Badge variant="secondary" className="mt-1 text-[10px] capitalize">{session.status}</Badge>
+      )}
+    </div>
+  );
+
+  return (
+    <div>
+      <div className="flex justify-between items-center mb-6">
+        <h2 className="text-2xl font-bold text-gray-900">Class Calendar</h2>
+        <div className="flex items-center space-x-2">
+          <Button
+            variant={view === "week" ? "default" : "outline"}
+            size="sm"
+            onClick={() => setView("week")}
+            data-testid="button-calendar-week"
+          >
+            Week
+          </Button>
+          <Button
+            variant={view === "month" ? "default" : "outline"}
+            size="sm"
+            onClick={() => setView("month")}
+            data-testid="button-calendar-month"
+          >
+            Month
+          </Button>
+        </div>
+      </div>
+
+      <div className="grid grid-cols-1 lg:grid-cols-4 gap-6">
+        <Card className="shadow-sm border border-gray-100 h-fit">
+          <CardContent className="p-2">
+            <Calendar
+              mode="single"
+              selected={selectedDate}
+              onSelect={(date) => date && setSelectedDate(date)}
+              month={selectedDate}
+              onMonthChange={setSelectedDate}
+              modifiers={{ hasSession: sessions.filter(s => s.status !== "cancelled").map(s => new Date(s.start)) }}
+              modifiersClassNames={{ hasSession: "font-bold text-primary" }}
+              data-testid="calendar-picker"
+            />
+          </CardContent>
+        </Card>
+
+        <Card className="shadow-sm border border-gray-100 lg:col-span-3">
+          <div className="p-4 border-b border-gray-100 flex items-center justify-between">
+            <Button variant="ghost" size="sm" onClick={() => shiftRange(-1)} data-testid="button-calendar-previous">
+              <ChevronLeft className="h-4 w-4" />
+            </Button>
+            <h3 className="text-lg font-semibold text-gray-900">
+              {view === "week"
+                ? `${format(rangeStart, 'MMM dd')} – ${format(addDays(rangeEnd, -1), 'MMM dd, yyyy')}`
+                : format(selectedDate, 'MMMM yyyy')}
+            </h3>
+            <Button variant="ghost" size="sm" onClick={() => shiftRange(1)} data-testid="button-calendar-next">
+              <ChevronRight className="h-4 w-4" />
+            </Button>
+          </div>
+          <CardContent className="p-4">
+            {isLoading ? (
+              <div className="animate-pulse grid grid-cols-7 gap-2">
+                {days.slice(0, 7).map(day => (
+                  <div key={day.toISOString()} className="h-32 bg-gray-100 rounded"></div>
+                ))}
+              </div>
+            ) : (
+              <div className="grid grid-cols-7 gap-2">
+                {days.slice(0, 7).map(day => (
+                  <div key={day.toISOString()} className="text-xs font-medium text-gray-500 text-center">
+                    {format(day, 'EEE')}
+                  </div>
+                ))}
+                {days.map(day => (
+                  <div
+                    key={day.toISOString()}
+                    className={`rounded-lg border p-1 space-y-1 ${view === "week" ? "min-h-48" : "min-h-24"} ${
+                      isSameDay(day, new Date()) ? "border-primary" : "border-gray-100"
+                    } ${view === "month" && !isSameMonth(day, selectedDate) ? "opacity-50" : ""}`}
+                    data-testid={`calendar-day-${format(day, 'yyyy-MM-dd')}`}
+                  >
+                    <div className="text-xs text-gray-500 text-right">{format(day, 'd')}</div>
+                    {sessionsOn(day).map(session => renderSession(session, view === "month"))}
+                  </div>
+                ))}
+              </div>
+            )}
+          </CardContent>
+        </Card>
+      </div>
+
+      {/* Reschedule Dialog */}
+      <Dialog open={reschedulingSession !== null} onOpenChange={(open) => !open && setReschedulingSession(null)}>
+        <DialogContent className="max-w-md">
+          <DialogHeader>
+            <DialogTitle>Reschedule {reschedulingSession?.className}</DialogTitle>
+          </DialogHeader>
+          <div className="space-y-4">
+            <p className="text-sm text-gray-600">
+              Originally {reschedulingSession && format(new Date(reschedulingSession.scheduledStart), "EEEE, MMM dd 'at' h:mm a")}
+            </p>
+            <div className="space-y-2">
+              <Label htmlFor="reschedule-start">New date and time</Label>
+              <Input
+                id="reschedule-start"
+                type="datetime-local"
+                value={newStart}
+                onChange={(e) => setNewStart(e.target.value)}
+                data-testid="input-reschedule-start"
+              />
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="reschedule-room">Room</Label>
+              <Input
+                id="reschedule-room"
+                placeholder="Room"
+                value={newRoom}
+                onChange={(e) => setNewRoom(e.target.value)}
+                data-testid="input-reschedule-room"
+              />
+            </div>
+          </div>
+          <div className="flex justify-end space-x-2 pt-4">
+            <Button variant="outline" onClick={() => setReschedulingSession(null)}>
+              Cancel
+            </Button>
+            <Button
+              onClick={handleReschedule}
+              disabled={changeSessionMutation.isPending || !newStart}
+              data-testid="button-save-reschedule"
+            >
+              {changeSessionMutation.isPending ? "Saving..." : "Reschedule"}
+            </Button>
+          </div>
+        </DialogContent>
+      </Dialog>
+    </div>
+  );
+}
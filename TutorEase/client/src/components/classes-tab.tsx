@@ -0,0 +1,552 @@
+import { useState } from "react";
+import { useQuery, useMutation, useQueryClient } from "@tanstack/react-query";
+import { Card, CardContent } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Badge } from "@/components/ui/badge";
+import { Checkbox } from "@/components/ui/checkbox";
+import { Switch } from "@/components/ui/switch";
+import { Dialog, DialogContent, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import { Form, FormControl, FormField, FormItem, FormLabel, FormMessage } from "@/components/ui/form";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import { Plus, Edit, Trash2, Users, X, AlertTriangle } from "lucide-react";
+import { useForm, useFieldArray } from "react-hook-form";
+import { zodResolver } from "@hookform/resolvers/zod";
+import { Alert, AlertDescription, AlertTitle } from "@/components/ui/alert";
+import { insertClassSchema, type Class, type InsertClass, type Enrollment, type ScheduleConflict, type Student } from "@shared/schema";
+import { apiRequest, ApiError } from "@/lib/queryClient";
+import { useAuth } from "@/lib/auth";
+import { useToast } from "@/hooks/use-toast";
+
+const weekDays = ["Monday", "Tuesday", "Wednesday", "Thursday", "Friday", "Saturday", "Sunday"] as const;
+
+export default function ClassesTab() {
+  const [isDialogOpen, setIsDialogOpen] = useState(false);
+  const [editingClass, setEditingClass] = useState<Class | null>(null);
+  const [rosterClass, setRosterClass] = useState<Class | null>(null);
+  const [rosterIds, setRosterIds] = useState<string[]>([]);
+  const [conflicts, setConflicts] = useState<ScheduleConflict[]>([]);
+  const queryClient = useQueryClient();
+  const { user } = useAuth();
+  const { toast } = useToast();
+
+  const { data: classes = [], isLoading } = useQuery<Class[]>({
+    queryKey: ['/api/classes'],
+  });
+
+  const { data: students = [] } = useQuery<Student[]>({
+    queryKey: ['/api/students'],
+  });
+
+  const emptyClass: InsertClass = {
+    name: "",
+    subject: "",
+    grade: "",
+    tutorId: user?.id ?? "",
+    schedule: [{ day: "Monday", time: "", duration: 60, room: "" }],
+    studentIds: [],
+    feeAmount: "",
+    absenceAlerts: true,
+  };
+
+  const form = useForm<InsertClass>({
+    resolver: zodResolver(insertClassSchema),
+    defaultValues: emptyClass,
+  });
+
+  const { fields: scheduleFields, append: addSlot, remove: removeSlot } = useFieldArray({
+    control: form.control,
+    name: "schedule",
+  });
+
+  const saveClassMutation = useMutation({
+    mutationFn: (data: InsertClass) => editingClass
+      ? apiRequest('PUT', `/api/classes/${editingClass.id}`, data)
+      : apiRequest('POST', '/api/classes', data),
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['/api/classes'] });
+      setIsDialogOpen(false);
+      toast({
+        title: "Success",
+        description: editingClass ? "Class updated successfully" : "Class created successfully",
+      });
+    },
+    onError: (error) => {
+      // Schedule clashes are shown inline against the offending slots
+      if (error instanceof ApiError && error.status === 409 && error.body?.conflicts) {
+        const found: ScheduleConflict[] = error.body.conflicts;
+        setConflicts(found);
+        found.forEach(conflict => form.setError(`schedule.${conflict.slotIndex}.time`, {
+          message: `Clashes with ${conflict.className}`,
+        }));
+        return;
+      }
+      toast({
+        title: "Error",
+        description: "Failed to save class",
+        variant: "destructive",
+      });
+    },
+  });
+
+  const deleteClassMutation = useMutation({
+    mutationFn: (id: string) => apiRequest('DELETE', `/api/classes/${id}`),
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['/api/classes'] });
+      toast({
+        title: "Success",
+        description: "Class deleted successfully",
+      });
+    },
+    onError: (error) => {
+      toast({
+        title: "Error",
+        description: error instanceof ApiError && error.body?.message ? error.body.message : "Failed to delete class",
+        variant: "destructive",
+      });
+    },
+  });
+
+  // Roster edits become enrollments and withdrawals so the class keeps its history
+  const saveRosterMutation = useMutation({
+    mutationFn: async ({ id, studentIds }: { id: string; studentIds: string[] }) => {
+      const response = await apiRequest('GET', `/api/classes/${id}/enrollments`);
+      const enrollments: Enrollment[] = await response.json();
+      // Still on the roster from today on, including students already due to leave
+      const now = new Date();
+      const current = enrollments.filter(e => e.endDate === null || new Date(e.endDate) > now);
+      for (const enrollment of current.filter(e => e.endDate === null && !studentIds.includes(e.studentId))) {
+        await apiRequest('POST', `/api/enrollments/${enrollment.id}/withdraw`, {});
+      }
+      for (const studentId of studentIds.filter(sid => !current.some(e => e.studentId === sid))) {
+        await apiRequest('POST', `/api/classes/${id}/enrollments`, { studentId });
+      }
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['/api/classes'] });
+      setRosterClass(null);
+      toast({
+        title: "Success",
+        description: "Class roster updated successfully",
+      });
+    },
+    onError: (error) => {
+      const message = error instanceof ApiError ? error.body?.message : undefined;
+      toast({
+        title: "Error",
+        description: message ?? "Failed to update class roster",
+        variant: "destructive",
+      });
+    },
+  });
+
+  const openCreateDialog = () => {
+    setEditingClass(null);
+    setConflicts([]);
+    form.reset(emptyClass);
+    setIsDialogOpen(true);
+  };
+
+  const openEditDialog = (cls: Class) => {
+    setEditingClass(cls);
+    setConflicts([]);
+    form.reset({
+      name: cls.name,
+      subject: cls.subject,
+      grade: cls.grade,
+      tutorId: cls.tutorId,
+      schedule: (cls.schedule as InsertClass["schedule"]).map(slot => ({ ...slot, duration: slot.duration ?? 60 })),
+      studentIds: cls.studentIds,
+      feeAmount: cls.feeAmount,
+      absenceAlerts: cls.absenceAlerts,
+    });
+    setIsDialogOpen(true);
+  };
+
+  const openRosterDialog = (cls: Class) => {
+    setRosterClass(cls);
+    setRosterIds(cls.studentIds);
+  };
+
+  const toggleRosterStudent = (studentId: string, checked: boolean) => {
+    setRosterIds(prev => checked ? [...prev, studentId] : prev.filter(id => id !== studentId));
+  };
+
+  const onSubmit = (data: InsertClass) => {
+    setConflicts([]);
+    saveClassMutation.mutate(data);
+  };
+
+  const handleDelete = (id: string) => {
+    if (confirm('Are you sure you want to delete this class?')) {
+      deleteClassMutation.mutate(id);
+    }
+  };
+
+  if (isLoading) {
+    return (
+      <Card>
+        <CardContent className="p-6">
+          <div className="animate-pulse space-y-4">
+            <div className="h-8 bg-gray-200 rounded w-1/4"></div>
+            <div className="space-y-3">
+              {[...Array(3)].map((_, i) => (
+                <div key={i} className="h-16 bg-gray-200 rounded"></div>
+              ))}
+            </div>
+          </div>
+        </CardContent>
+      </Card>
+    );
+  }
+
+  return (
+    <Card className="shadow-sm border border-gray-100">
+      <div className="p-6 border-b border-gray-100">
+        <div className="flex items-center justify-between">
+          <h3 className="text-lg font-semibold text-gray-900">Class Management</h3>
+          <Button onClick={openCreateDialog} className="bg-primary text-white hover:bg-primary/90" data-testid="button-add-class">
+            <Plus className="h-4 w-4 mr-2" />
+            New Class
+          </Button>
+        </div>
+      </div>
+      <CardContent className="p-6">
+        <div className="overflow-x-auto">
+          <Table>
+            <TableHeader>
+              <TableRow>
+                <TableHead>Class</TableHead>
+                <TableHead>Schedule</TableHead>
+                <TableHead>Students</TableHead>
+                <TableHead>Monthly Fee</TableHead>
+                <TableHead>Actions</TableHead>
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {classes.map((cls) => (
+                <TableRow key={cls.id} className="hover:bg-gray-50">
+                  <TableCell>
+                    <div className="text-sm font-medium text-gray-900" data-testid={`text-class-name-${cls.id}`}>
+                      {cls.name}
+                    </div>
+                    <div className="text-sm text-gray-600">{cls.subject} • {cls.grade}</div>
+                  </TableCell>
+                  <TableCell>
+                    <div className="flex flex-wrap gap-1">
+                      {cls.schedule.map((slot, index) => (
+                        <Badge key={index} variant="secondary" className="text-xs">
+                          {slot.day.slice(0, 3)} {slot.time}
+                        </Badge>
+                      ))}
+                    </div>
+                  </TableCell>
+                  <TableCell className="text-sm text-gray-900">{cls.studentIds.length}</TableCell>
+                  <TableCell className="text-sm text-gray-900">${parseFloat(cls.feeAmount).toFixed(2)}</TableCell>
+                  <TableCell>
+                    <div className="flex items-center space-x-2">
+                      <Button
+                        variant="ghost"
+                        size="sm"
+                        onClick={() => openRosterDialog(cls)}
+                        className="text-primary hover:text-primary/80"
+                        data-testid={`button-roster-class-${cls.id}`}
+                      >
+                        <Users className="h-4 w-4" />
+                      </Button>
+                      <Button
+                        variant="ghost"
+                        size="sm"
+                        onClick={() => openEditDialog(cls)}
+                        className="text-secondary hover:text-secondary/80"
+                        data-testid={`button-edit-class-${cls.id}`}
+                      >
+                        <Edit className="h-4 w-4" />
+                      </Button>
+                      <Button
+                        variant="ghost"
+                        size="sm"
+                        onClick={() => handleDelete(cls.id)}
+                        className="text-red-600 hover:text-red-700"
+                        data-testid={`button-delete-class-${cls.id}`}
+                      >
+                        <Trash2 className="h-4 w-4" />
+                      </Button>
+                    </div>
+                  </TableCell>
+                </TableRow>
+              ))}
+            </TableBody>
+          </Table>
+
+          {classes.length === 0 && (
+            <div className="text-center py-8 text-gray-500">
+              No classes created yet.
+            </div>
+          )}
+        </div>
+      </CardContent>
+
+      {/* Create / Edit Class Dialog */}
+      <Dialog open={isDialogOpen} onOpenChange={setIsDialogOpen}>
+        <DialogContent className="sm:max-w-[500px]">
+          <DialogHeader>
+            <DialogTitle>{editingClass ? "Edit Class" : "Create New Class"}</DialogTitle>
+          </DialogHeader>
+          <Form {...form}>
+            <form onSubmit={form.handleSubmit(onSubmit)} className="space-y-4">
+              <FormField
+                control={form.control}
+                name="name"
+                render={({ field }) => (
+                  <FormItem>
+                    <FormLabel>Name</FormLabel>
+                    <FormControl>
+                      <Input placeholder="e.g. Mathematics Grade 10" {...field} data-testid="input-class-name" />
+                    </FormControl>
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
+              <div className="grid grid-cols-2 gap-4">
+                <FormField
+                  control={form.control}
+                  name="subject"
+                  render={({ field }) => (
+                    <FormItem>
+                      <FormLabel>Subject</FormLabel>
+                      <FormControl>
+                        <Input placeholder="Subject" {...field} data-testid="input-class-subject" />
+                      </FormControl>
+                      <FormMessage />
+                    </FormItem>
+                  )}
+                />
+                <FormField
+                  control={form.control}
+                  name="grade"
+                  render={({ field }) => (
+                    <FormItem>
+                      <FormLabel>Grade</FormLabel>
+                      <Select onValueChange={field.onChange} value={field.value}>
+                        <FormControl>
+                          <SelectTrigger data-testid="select-class-grade">
+                            <SelectValue placeholder="Select grade" />
+                          </SelectTrigger>
+                        </FormControl>
+                        <SelectContent>
+                          <SelectItem value="Grade 8">Grade 8</SelectItem>
+                          <SelectItem value="Grade 9">Grade 9</SelectItem>
+                          <SelectItem value="Grade 10">Grade 10</SelectItem>
+                          <SelectItem value="Grade 11">Grade 11</SelectItem>
+                          <SelectItem value="Grade 12">Grade 12</SelectItem>
+                        </SelectContent>
+                      </Select>
+                      <FormMessage />
+                    </FormItem>
+                  )}
+                />
+              </div>
+              <FormField
+                control={form.control}
+                name="feeAmount"
+                render={({ field }) => (
+                  <FormItem>
+                    <FormLabel>Monthly Fee ($)</FormLabel>
+                    <FormControl>
+                      <Input type="number" min="0" step="0.01" placeholder="250.00" {...field} data-testid="input-class-fee" />
+                    </FormControl>
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
+              <FormField
+                control={form.control}
+                name="absenceAlerts"
+                render={({ field }) => (
+                  <FormItem className="flex items-center justify-between rounded-lg border p-3">
+                    <div>
+                      <FormLabel>Absence alerts</FormLabel>
+                      <p className="text-sm text-gray-600">Notify parents when a student is absent or late</p>
+                    </div>
+                    <FormControl>
+                      <Switch
+                        checked={field.value ?? true}
+                        onCheckedChange={field.onChange}
+                        data-testid="switch-class-absence-alerts"
+                      />
+                    </FormControl>
+                  </FormItem>
+                )}
+              />
+              <div className="space-y-2">
+                <div className="flex items-center justify-between">
+                  <FormLabel>Schedule</FormLabel>
+                  <Button
+                    type="button"
+                    variant="ghost"
+                    size="sm"
+                    onClick={() => addSlot({ day: "Monday", time: "", duration: 60, room: "" })}
+                    className="text-primary hover:text-primary/80"
+                    data-testid="button-add-schedule-slot"
+                  >
+                    <Plus className="h-4 w-4 mr-1" />
+                    Add Slot
+                  </Button>
+                </div>
+                {scheduleFields.map((slot, index) => (
+                  <div key={slot.id} className="flex items-start space-x-2">
+                    <FormField
+                      control={form.control}
+                      name={`schedule.${index}.day`}
+                      render={({ field }) => (
+                        <FormItem className="flex-1">
+                          <Select onValueChange={field.onChange} value={field.value}>
+                            <FormControl>
+                              <SelectTrigger data-testid={`select-schedule-day-${index}`}>
+                                <SelectValue />
+                              </SelectTrigger>
+                            </FormControl>
+                            <SelectContent>
+                              {weekDays.map(day => (
+                                <SelectItem key={day} value={day}>{day}</SelectItem>
+                              ))}
+                            </SelectContent>
+                          </Select>
+                        </FormItem>
+                      )}
+                    />
+                    <FormField
+                      control={form.control}
+                      name={`schedule.${index}.time`}
+                      render={({ field }) => (
+                        <FormItem className="flex-1">
+                          <FormControl>
+                            <Input placeholder="2:00 PM" {...field} data-testid={`input-schedule-time-${index}`} />
+                          </FormControl>
+                          <FormMessage />
+                        </FormItem>
+                      )}
+                    />
+                    <FormField
+                      control={form.control}
+                      name={`schedule.${index}.duration`}
+                      render={({ field }) => (
+                        <FormItem className="w-20">
+                          <FormControl>
+                            <Input type="number" min="15" step="15" placeholder="Mins" {...field} data-testid={`input-schedule-duration-${index}`} />
+                          </FormControl>
+                          <FormMessage />
+                        </FormItem>
+                      )}
+                    />
+                    <FormField
+                      control={form.control}
+                      name={`schedule.${index}.room`}
+                      render={({ field }) => (
+                        <FormItem className="w-24">
+                          <FormControl>
+                            <Input placeholder="Room" {...field} value={field.value ?? ""} data-testid={`input-schedule-room-${index}`} />
+                          </FormControl>
+                        </FormItem>
+                      )}
+                    />
+                    <Button
+                      type="button"
+                      variant="ghost"
+                      size="sm"
+                      onClick={() => removeSlot(index)}
+                      disabled={scheduleFields.length === 1}
+                      className="text-red-600 hover:text-red-700"
+                      data-testid={`button-remove-schedule-slot-${index}`}
+                    >
+                      <X className="h-4 w-4" />
+                    </Button>
+                  </div>
+                ))}
+              </div>
+              {conflicts.length > 0 && (
+                <Alert variant="destructive" data-testid="alert-schedule-conflicts">
+                  <AlertTriangle className="h-4 w-4" />
+                  <AlertTitle>Schedule conflicts</AlertTitle>
+                  <AlertDescription>
+                    <ul className="list-disc pl-4 space-y-1">
+                      {conflicts.map((conflict, index) => (
+                        <li key={index}>
+                          {conflict.kind === "tutor"
+                            ? `Tutor already teaches ${conflict.className}`
+                            : `${conflict.studentName ?? "A student"} is enrolled in ${conflict.className}`}
+                          {` on ${conflict.day} at ${conflict.time}`}
+                        </li>
+                      ))}
+                    </ul>
+                  </AlertDescription>
+                </Alert>
+              )}
+              <div className="flex justify-end space-x-2">
+                <Button
+                  type="button"
+                  variant="outline"
+                  onClick={() => setIsDialogOpen(false)}
+                >
+                  Cancel
+                </Button>
+                <Button
+                  type="submit"
+                  disabled={saveClassMutation.isPending}
+                  data-testid="button-save-class"
+                >
+                  {saveClassMutation.isPending ? "Saving..." : editingClass ? "Save Changes" : "Create Class"}
+                </Button>
+              </div>
+            </form>
+          </Form>
+        </DialogContent>
+      </Dialog>
+
+      {/* Roster Dialog */}
+      <Dialog open={rosterClass !== null} onOpenChange={(open) => !open && setRosterClass(null)}>
+        <DialogContent className="sm:max-w-[425px]">
+          <DialogHeader>
+            <DialogTitle>Roster: {rosterClass?.name}</DialogTitle>
+          </DialogHeader>
+          <div className="space-y-2 max-h-80 overflow-y-auto">
+            {students.length === 0 ? (
+              <div className="text-center py-4 text-gray-500">No students available.</div>
+            ) : (
+              students.map(student => (
+                <label
+                  key={student.id}
+                  className="flex items-center space-x-3 p-2 rounded-lg hover:bg-gray-50"
+                >
+                  <Checkbox
+                    checked={rosterIds.includes(student.id)}
+                    onCheckedChange={(checked) => toggleRosterStudent(student.id, checked === true)}
+                    data-testid={`checkbox-roster-student-${student.id}`}
+                  />
+                  <div>
+                    <div className="text-sm font-medium text-gray-900">{student.name}</div>
+                    <div className="text-xs text-gray-600">{student.grade} • Roll No: {student.rollNumber}</div>
+                  </div>
+                </label>
+              ))
+            )}
+          </div>
+          <div className="flex justify-end space-x-2">
+            <Button variant="outline" onClick={() => setRosterClass(null)}>
+              Cancel
+            </Button>
+            <Button
+              onClick={() => rosterClass && saveRosterMutation.mutate({ id: rosterClass.id, studentIds: rosterIds })}
+              disabled={saveRosterMutation.isPending}
+              data-testid="button-save-roster"
+            >
+              {saveRosterMutation.isPending ? "Saving..." : "Save Roster"}
+            </Button>
+          </div>
+        </DialogContent>
+      </Dialog>
+    </Card>
+  );
+}
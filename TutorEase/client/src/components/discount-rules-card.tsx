@@ -0,0 +1,346 @@
+import { useState } from "react";
+import { useQuery, useMutation, useQueryClient } from "@tanstack/react-query";
+import { Card, CardContent } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Switch } from "@/components/ui/switch";
+import { Dialog, DialogContent, DialogHeader, DialogTitle, DialogTrigger } from "@/components/ui/dialog";
+import { Form, FormControl, FormField, FormItem, FormLabel, FormMessage } from "@/components/ui/form";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Plus, Trash2 } from "lucide-react";
+import { useForm } from "react-hook-form";
+import { zodResolver } from "@hookform/resolvers/zod";
+import {
+  insertDiscountRuleSchema, type Class, type DiscountRule, type InsertDiscountRule, type Student,
+} from "@shared/schema";
+import { ApiError, apiRequest } from "@/lib/queryClient";
+import { useToast } from "@/hooks/use-toast";
+
+// Select items can't have an empty value, so "any class" is stored as null via this sentinel
+const ANY_CLASS = "any";
+
+const scopeLabels: Record<string, string> = {
+  student: "Student",
+  class: "Class",
+  sibling: "Siblings",
+};
+
+// Discount rules applied by the billing run; admins only
+export default function DiscountRulesCard() {
+  const [isDialogOpen, setIsDialogOpen] = useState(false);
+  const queryClient = useQueryClient();
+  const { toast } = useToast();
+
+  const { data: rules = [] } = useQuery<DiscountRule[]>({
+    queryKey: ['/api/admin/discount-rules'],
+  });
+
+  const { data: students = [] } = useQuery<Student[]>({
+    queryKey: ['/api/students'],
+  });
+
+  const { data: classes = [] } = useQuery<Class[]>({
+    queryKey: ['/api/classes'],
+  });
+
+  const form = useForm<InsertDiscountRule>({
+    resolver: zodResolver(insertDiscountRuleSchema),
+    defaultValues: {
+      name: "",
+      type: "percentage",
+      value: "",
+      scope: "sibling",
+      studentId: null,
+      classId: null,
+      startMonth: null,
+      endMonth: null,
+    },
+  });
+  const scope = form.watch("scope");
+
+  const showError = (error: unknown, fallback: string) => {
+    toast({
+      title: "Error",
+      description: error instanceof ApiError && error.body?.message ? error.body.message : fallback,
+      variant: "destructive",
+    });
+  };
+
+  const createRuleMutation = useMutation({
+    mutationFn: (data: InsertDiscountRule) => apiRequest('POST', '/api/admin/discount-rules', data),
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['/api/admin/discount-rules'] });
+      setIsDialogOpen(false);
+      form.reset();
+      toast({
+        title: "Success",
+        description: "Discount rule created. It applies from the next billing run.",
+      });
+    },
+    onError: (error) => showError(error, "Failed to create discount rule"),
+  });
+
+  const toggleRuleMutation = useMutation({
+    mutationFn: (rule: DiscountRule) => apiRequest('PUT', `/api/admin/discount-rules/${rule.id}`, { isActive: !rule.isActive }),
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['/api/admin/discount-rules'] });
+    },
+    onError: (error) => showError(error, "Failed to update discount rule"),
+  });
+
+  const deleteRuleMutation = useMutation({
+    mutationFn: (id: string) => apiRequest('DELETE', `/api/admin/discount-rules/${id}`),
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['/api/admin/discount-rules'] });
+      toast({
+        title: "Success",
+        description: "Discount rule deleted",
+      });
+    },
+    onError: (error) => showError(error, "Failed to delete discount rule"),
+  });
+
+  const onSubmit = (data: InsertDiscountRule) => {
+    createRuleMutation.mutate({
+      ...data,
+      studentId: data.scope === "student" ? data.studentId : null,
+    });
+  };
+
+  const describe = (rule: DiscountRule) => {
+    const amount = rule.type === "percentage" ? `${parseFloat(rule.value)}% off` : `$${rule.value} off`;
+    const target = rule.studentId
+      ? students.find(student => student.id === rule.studentId)?.name
+      : scopeLabels[rule.scope];
+    const cls = rule.classId ? classes.find(c => c.id === rule.classId)?.name : null;
+    const months = rule.startMonth || rule.endMonth
+      ? `${rule.startMonth ?? "…"} to ${rule.endMonth ?? "…"}`
+      : null;
+    return [amount, target, cls, months].filter(Boolean).join(" · ");
+  };
+
+  return (
+    <Card className="shadow-sm border border-gray-100">
+      <CardContent className="p-6">
+        <div className="flex items-center justify-between mb-4">
+          <h4 className="text-lg font-semibold text-gray-900">Discounts</h4>
+          <Dialog open={isDialogOpen} onOpenChange={setIsDialogOpen}>
+            <DialogTrigger asChild>
+              <Button variant="outline" size="sm" data-testid="button-add-discount-rule">
+                <Plus className="h-4 w-4 mr-1" />
+                Add Rule
+              </Button>
+            </DialogTrigger>
+            <DialogContent className="sm:max-w-[425px]">
+              <DialogHeader>
+                <DialogTitle>New Discount Rule</DialogTitle>
+              </DialogHeader>
+              <Form {...form}>
+                <form onSubmit={form.handleSubmit(onSubmit)} className="space-y-4">
+                  <FormField
+                    control={form.control}
+                    name="name"
+                    render={({ field }) => (
+                      <FormItem>
+                        <FormLabel>Reason</FormLabel>
+                        <FormControl>
+                          <Input placeholder="e.g. Sibling concession" {...field} data-testid="input-discount-name" />
+                        </FormControl>
+                        <FormMessage />
+                      </FormItem>
+                    )}
+                  />
+                  <div className="grid grid-cols-2 gap-4">
+                    <FormField
+                      control={form.control}
+                      name="type"
+                      render={({ field }) => (
+                        <FormItem>
+                          <FormLabel>Type</FormLabel>
+                          <Select onValueChange={field.onChange} value={field.value}>
+                            <FormControl>
+                              <SelectTrigger data-testid="select-discount-type">
+                                <SelectValue />
+                              </SelectTrigger>
+                            </FormControl>
+                            <SelectContent>
+                              <SelectItem value="percentage">Percentage</SelectItem>
+                              <SelectItem value="flat">Flat amount</SelectItem>
+                            </SelectContent>
+                          </Select>
+                          <FormMessage />
+                        </FormItem>
+                      )}
+                    />
+                    <FormField
+                      control={form.control}
+                      name="value"
+                      render={({ field }) => (
+                        <FormItem>
+                          <FormLabel>{form.watch("type") === "percentage" ? "Percent" : "Amount ($)"}</FormLabel>
+                          <FormControl>
+                            <Input type="number" min="0" step="0.01" {...field} data-testid="input-discount-value" />
+                          </FormControl>
+                          <FormMessage />
+                        </FormItem>
+                      )}
+                    />
+                  </div>
+                  <FormField
+                    control={form.control}
+                    name="scope"
+                    render={({ field }) => (
+                      <FormItem>
+                        <FormLabel>Applies to</FormLabel>
+                        <Select onValueChange={field.onChange} value={field.value}>
+                          <FormControl>
+                            <SelectTrigger data-testid="select-discount-scope">
+                              <SelectValue />
+                            </SelectTrigger>
+                          </FormControl>
+                          <SelectContent>
+                            <SelectItem value="sibling">Siblings (second child onwards)</SelectItem>
+                            <SelectItem value="student">One student</SelectItem>
+                            <SelectItem value="class">Everyone in a class</SelectItem>
+                          </SelectContent>
+                        </Select>
+                        <FormMessage />
+                      </FormItem>
+                    )}
+                  />
+                  {scope === "student" && (
+                    <FormField
+                      control={form.control}
+                      name="studentId"
+                      render={({ field }) => (
+                        <FormItem>
+                          <FormLabel>Student</FormLabel>
+                          <Select onValueChange={field.onChange} value={field.value ?? undefined}>
+                            <FormControl>
+                              <SelectTrigger data-testid="select-discount-student">
+                                <SelectValue placeholder="Select student" />
+                              </SelectTrigger>
+                            </FormControl>
+                            <SelectContent>
+                              {students.map(student => (
+                                <SelectItem key={student.id} value={student.id}>{student.name}</SelectItem>
+                              ))}
+                            </SelectContent>
+                          </Select>
+                          <FormMessage />
+                        </FormItem>
+                      )}
+                    />
+                  )}
+                  <FormField
+                    control={form.control}
+                    name="classId"
+                    render={({ field }) => (
+                      <FormItem>
+                        <FormLabel>Class</FormLabel>
+                        <Select
+                          onValueChange={(value) => field.onChange(value === ANY_CLASS ? null : value)}
+                          value={field.value ?? (scope === "class" ? undefined : ANY_CLASS)}
+                        >
+                          <FormControl>
+                            <SelectTrigger data-testid="select-discount-class">
+                              <SelectValue placeholder="Select class" />
+                            </SelectTrigger>
+                          </FormControl>
+                          <SelectContent>
+                            {scope !== "class" && <SelectItem value={ANY_CLASS}>Any class</SelectItem>}
+                            {classes.map(cls => (
+                              <SelectItem key={cls.id} value={cls.id}>{cls.name}</SelectItem>
+                            ))}
+                          </SelectContent>
+                        </Select>
+                        <FormMessage />
+                      </FormItem>
+                    )}
+                  />
+                  <div className="grid grid-cols-2 gap-4">
+                    <FormField
+                      control={form.control}
+                      name="startMonth"
+                      render={({ field }) => (
+                        <FormItem>
+                          <FormLabel>From month</FormLabel>
+                          <FormControl>
+                            <Input
+                              type="month"
+                              value={field.value ?? ""}
+                              onChange={(e) => field.onChange(e.target.value || null)}
+                              data-testid="input-discount-start-month"
+                            />
+                          </FormControl>
+                          <FormMessage />
+                        </FormItem>
+                      )}
+                    />
+                    <FormField
+                      control={form.control}
+                      name="endMonth"
+                      render={({ field }) => (
+                        <FormItem>
+                          <FormLabel>Until month</FormLabel>
+                          <FormControl>
+                            <Input
+                              type="month"
+                              value={field.value ?? ""}
+                              onChange={(e) => field.onChange(e.target.value || null)}
+                              data-testid="input-discount-end-month"
+                            />
+                          </FormControl>
+                          <FormMessage />
+                        </FormItem>
+                      )}
+                    />
+                  </div>
+                  <div className="flex justify-end space-x-2">
+                    <Button type="button" variant="outline" onClick={() => setIsDialogOpen(false)}>
+                      Cancel
+                    </Button>
+                    <Button type="submit" disabled={createRuleMutation.isPending} data-testid="button-save-discount-rule">
+                      {createRuleMutation.isPending ? "Creating..." : "Create Rule"}
+                    </Button>
+                  </div>
+                </form>
+              </Form>
+            </DialogContent>
+          </Dialog>
+        </div>
+
+        {rules.length === 0 ? (
+          <div className="text-sm text-gray-500">No discount rules yet.</div>
+        ) : (
+          <div className="space-y-3">
+            {rules.map(rule => (
+              <div key={rule.id} className="flex items-center justify-between" data-testid={`row-discount-rule-${rule.id}`}>
+                <div className={rule.isActive ? "" : "opacity-50"}>
+                  <div className="text-sm font-medium text-gray-900">{rule.name}</div>
+                  <div className="text-xs text-gray-600">{describe(rule)}</div>
+                </div>
+                <div className="flex items-center space-x-2">
+                  <Switch
+                    checked={rule.isActive}
+                    onCheckedChange={() => toggleRuleMutation.mutate(rule)}
+                    data-testid={`switch-discount-rule-${rule.id}`}
+                  />
+                  <Button
+                    variant="ghost"
+                    size="sm"
+                    className="text-red-600 hover:text-red-700"
+                    onClick={() => deleteRuleMutation.mutate(rule.id)}
+                    data-testid={`button-delete-discount-rule-${rule.id}`}
+                  >
+                    <Trash2 className="h-4 w-4" />
+                  </Button>
+                </div>
+              </div>
+            ))}
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
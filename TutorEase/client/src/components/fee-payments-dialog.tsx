@@ -0,0 +1,213 @@
+import { useEffect, useState } from "react";
+import { useMutation, useQuery, useQueryClient } from "@tanstack/react-query";
+import { format } from "date-fns";
+import { Download } from "lucide-react";
+import { Dialog, DialogContent, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import { type FeeWithBalance, type Payment, paymentMethods } from "@shared/schema";
+import { ApiError, apiRequest } from "@/lib/queryClient";
+import { useToast } from "@/hooks/use-toast";
+
+const methodLabels: Record<(typeof paymentMethods)[number], string> = {
+  cash: "Cash",
+  card: "Card",
+  bank_transfer: "Bank transfer",
+  cheque: "Cheque",
+  online: "Online",
+  other: "Other",
+};
+
+type EntryType = "payment" | "refund";
+
+interface FeePaymentsDialogProps {
+  fee: FeeWithBalance | null;
+  studentName?: string;
+  canRecordPayments: boolean;
+  onClose: () => void;
+}
+
+// Payment history for one fee; staff also get a form to record a payment or refund against it
+export default function FeePaymentsDialog({ fee, studentName, canRecordPayments, onClose }: FeePaymentsDialogProps) {
+  const queryClient = useQueryClient();
+  const { toast } = useToast();
+  const [entryType, setEntryType] = useState<EntryType>("payment");
+  const [amount, setAmount] = useState("");
+  const [method, setMethod] = useState<string>("cash");
+  const [reference, setReference] = useState("");
+
+  useEffect(() => {
+    // Default to settling the balance whenever a different fee is opened
+    setEntryType("payment");
+    setAmount(fee ? fee.balance : "");
+    setMethod("cash");
+    setReference("");
+  }, [fee?.id]);
+
+  const { data: payments = [], isLoading } = useQuery<Payment[]>({
+    queryKey: ['/api/fees', fee?.id, 'payments'],
+    enabled: !!fee,
+  });
+
+  const entryMutation = useMutation({
+    mutationFn: () => apiRequest('POST', `/api/fees/${fee!.id}/${entryType === "payment" ? "payments" : "refunds"}`, {
+      amount,
+      method,
+      reference: reference || null,
+    }),
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['/api/fees'] });
+      toast({
+        title: "Success",
+        description: entryType === "payment" ? "Payment recorded" : "Refund recorded",
+      });
+      onClose();
+    },
+    onError: (error) => {
+      toast({
+        title: "Error",
+        description: error instanceof ApiError && error.body?.message ? error.body.message : "Failed to record the entry",
+        variant: "destructive",
+      });
+    },
+  });
+
+  return (
+    <Dialog open={fee !== null} onOpenChange={(open) => !open && onClose()}>
+      <DialogContent className="max-w-2xl">
+        <DialogHeader>
+          <DialogTitle>Payment History{studentName ? ` — ${studentName}` : ""}</DialogTitle>
+        </DialogHeader>
+        {fee && (
+          <div className="space-y-6">
+            <div className="grid grid-cols-3 gap-4 text-sm">
+              <div>
+                <div className="text-gray-600">Amount due</div>
+                <div className="font-semibold text-gray-900">${fee.amountDue}</div>
+              </div>
+              <div>
+                <div className="text-gray-600">Paid</div>
+                <div className="font-semibold text-secondary">${fee.paid}</div>
+              </div>
+              <div>
+                <div className="text-gray-600">Balance</div>
+                <div className="font-semibold text-red-600" data-testid="text-fee-balance">${fee.balance}</div>
+              </div>
+            </div>
+
+            {isLoading ? (
+              <div className="text-center py-4">Loading payments...</div>
+            ) : payments.length === 0 ? (
+              <div className="text-center py-4 text-gray-500">No payments recorded yet</div>
+            ) : (
+              <Table>
+                <TableHeader>
+                  <TableRow>
+                    <TableHead>Date</TableHead>
+                    <TableHead>Amount</TableHead>
+                    <TableHead>Method</TableHead>
+                    <TableHead>Reference</TableHead>
+                    <TableHead>Receipt</TableHead>
+                  </TableRow>
+                </TableHeader>
+                <TableBody>
+                  {payments.map(payment => {
+                    const isRefund = parseFloat(payment.amount) < 0;
+                    return (
+                      <TableRow key={payment.id} data-testid={`row-payment-${payment.id}`}>
+                        <TableCell>{format(new Date(payment.paidAt), 'MMM dd, yyyy')}</TableCell>
+                        <TableCell className={isRefund ? "text-red-600" : "text-gray-900"}>
+                          {isRefund ? `−$${Math.abs(parseFloat(payment.amount)).toFixed(2)} refund` : `$${payment.amount}`}
+                        </TableCell>
+                        <TableCell>{methodLabels[payment.method as keyof typeof methodLabels] ?? payment.method}</TableCell>
+                        <TableCell className="text-gray-600">{payment.reference ?? "—"}</TableCell>
+                        <TableCell>
+                          {!isRefund && (
+                            <Button variant="ghost" size="sm" className="text-primary hover:text-primary/80" asChild>
+                              <a href={`/api/payments/${payment.id}/receipt`} download data-testid={`link-receipt-${payment.id}`}>
+                                <Download className="h-4 w-4" />
+                              </a>
+                            </Button>
+                          )}
+                        </TableCell>
+                      </TableRow>
+                    );
+                  })}
+                </TableBody>
+              </Table>
+            )}
+
+            {canRecordPayments && (
+              <div className="grid grid-cols-2 gap-4 border-t border-gray-200 pt-4">
+                <div className="space-y-2">
+                  <Label>Entry</Label>
+                  <Select value={entryType} onValueChange={(value) => setEntryType(value as EntryType)}>
+                    <SelectTrigger data-testid="select-payment-entry-type">
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      <SelectItem value="payment">Payment</SelectItem>
+                      <SelectItem value="refund" disabled={parseFloat(fee.paid) <= 0}>Refund</SelectItem>
+                    </SelectContent>
+                  </Select>
+                </div>
+                <div className="space-y-2">
+                  <Label htmlFor="payment-amount">Amount</Label>
+                  <Input
+                    id="payment-amount"
+                    type="number"
+                    min="0.01"
+                    step="0.01"
+                    value={amount}
+                    onChange={(e) => setAmount(e.target.value)}
+                    data-testid="input-payment-amount"
+                  />
+                </div>
+                <div className="space-y-2">
+                  <Label>Method</Label>
+                  <Select value={method} onValueChange={setMethod}>
+                    <SelectTrigger data-testid="select-payment-method">
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      {paymentMethods.map(value => (
+                        <SelectItem key={value} value={value}>{methodLabels[value]}</SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                </div>
+                <div className="space-y-2">
+                  <Label htmlFor="payment-reference">Reference</Label>
+                  <Input
+                    id="payment-reference"
+                    placeholder="Receipt, cheque or transaction number"
+                    value={reference}
+                    onChange={(e) => setReference(e.target.value)}
+                    data-testid="input-payment-reference"
+                  />
+                </div>
+              </div>
+            )}
+          </div>
+        )}
+        <div className="flex justify-end space-x-2 pt-4">
+          <Button variant="outline" onClick={onClose}>
+            Close
+          </Button>
+          {canRecordPayments && (
+            <Button
+              onClick={() => entryMutation.mutate()}
+              disabled={entryMutation.isPending || !(parseFloat(amount) > 0)}
+              data-testid="button-save-payment"
+            >
+              {entryMutation.isPending ? "Saving..." : entryType === "payment" ? "Record Payment" : "Record Refund"}
+            </Button>
+          )}
+        </div>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -5,17 +5,45 @@ import { Button } from "@/components/ui/button";
 import { Badge } from "@/components/ui/badge";
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
 import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
-import { Receipt, Mail, AlertTriangle } from "lucide-react";
-import { type Fee, type Student } from "@shared/schema";
+import { Receipt, Mail, AlertTriangle, History } from "lucide-react";
+import { format, subMonths } from "date-fns";
+import { type BillingRunResult, type FeeWithBalance, type Student } from "@shared/schema";
 import { apiRequest } from "@/lib/queryClient";
 import { useToast } from "@/hooks/use-toast";
+import { useAuth } from "@/lib/auth";
+import FeePaymentsDialog from "@/components/fee-payments-dialog";
+import DiscountRulesCard from "@/components/discount-rules-card";
+
+// Next month plus the last eleven, newest first
+const monthOptions = Array.from({ length: 12 }, (_, i) => subMonths(new Date(), i - 1)).map(date => ({
+  value: format(date, 'yyyy-MM'),
+  label: format(date, 'MMMM yyyy'),
+}));
+
+export function FeeStatusBadge({ status }: { status: string }) {
+  switch (status) {
+    case 'paid':
+      return <Badge className="bg-green-100 text-green-800">Paid</Badge>;
+    case 'partially_paid':
+      return <Badge className="bg-blue-100 text-blue-800">Partially Paid</Badge>;
+    case 'overdue':
+      return <Badge className="bg-red-100 text-red-800">Overdue</Badge>;
+    case 'pending':
+      return <Badge className="bg-amber-100 text-amber-800">Pending</Badge>;
+    default:
+      return <Badge variant="secondary">{status}</Badge>;
+  }
+}
 
 export default function FeesTab() {
   const [selectedMonth, setSelectedMonth] = useState(new Date().toISOString().slice(0, 7)); // Current month
   const queryClient = useQueryClient();
   const { toast } = useToast();
+  const { user } = useAuth();
+  const canRecordPayments = user?.role === 'admin' || user?.role === 'tutor';
+  const [paymentsFeeId, setPaymentsFeeId] = useState<string | null>(null);
 
-  const { data: fees = [], isLoading } = useQuery<Fee[]>({
+  const { data: fees = [], isLoading } = useQuery<FeeWithBalance[]>({
     queryKey: ['/api/fees', selectedMonth],
     queryFn: async () => {
       const response = await fetch(`/api/fees?month=${selectedMonth}`);
@@ -28,20 +56,23 @@ export default function FeesTab() {
     queryKey: ['/api/students'],
   });
 
-  const updateFeeMutation = useMutation({
-    mutationFn: ({ id, updates }: { id: string; updates: Partial<Fee> }) => 
-      apiRequest('PUT', `/api/fees/${id}`, updates),
-    onSuccess: () => {
+  const billingRunMutation = useMutation({
+    mutationFn: async (month: string): Promise<BillingRunResult> => {
+      const response = await apiRequest('POST', '/api/fees/billing-run', { month });
+      return response.json();
+    },
+    onSuccess: (result) => {
       queryClient.invalidateQueries({ queryKey: ['/api/fees'] });
+      const skipped = result.skipped.length > 0 ? ` ${result.skipped.length} already billed or without a fee were skipped.` : '';
       toast({
         title: "Success",
-        description: "Fee updated successfully",
+        description: `Created ${result.created.length} fees totalling $${result.total}.${skipped}`,
       });
     },
     onError: () => {
       toast({
         title: "Error",
-        description: "Failed to update fee",
+        description: "Failed to generate bills",
         variant: "destructive",
       });
     },
@@ -55,40 +86,19 @@ export default function FeesTab() {
     return name.split(' ').map(n => n[0]).join('').toUpperCase();
   };
 
-  const getStatusBadge = (status: string) => {
-    switch (status) {
-      case 'paid':
-        return <Badge className="bg-green-100 text-green-800">Paid</Badge>;
-      case 'overdue':
-        return <Badge className="bg-red-100 text-red-800">Overdue</Badge>;
-      case 'pending':
-        return <Badge className="bg-amber-100 text-amber-800">Pending</Badge>;
-      default:
-        return <Badge variant="secondary">{status}</Badge>;
-    }
-  };
-
-  const markAsPaid = (feeId: string) => {
-    updateFeeMutation.mutate({
-      id: feeId,
-      updates: {
-        status: 'paid',
-        paidDate: new Date(),
-      },
-    });
-  };
-
   // Calculate statistics
-  const totalExpected = fees.reduce((sum, fee) => sum + parseFloat(fee.amount), 0);
-  const collected = fees
-    .filter(fee => fee.status === 'paid')
-    .reduce((sum, fee) => sum + parseFloat(fee.amount), 0);
+  const paymentsFee = fees.find(fee => fee.id === paymentsFeeId) ?? null;
+
+  // Balances come from the payments ledger, so part-payments count towards collected
+  const totalExpected = fees.reduce((sum, fee) => sum + parseFloat(fee.amountDue), 0);
+  const collected = fees.reduce((sum, fee) => sum + parseFloat(fee.paid), 0);
   const pending = fees
-    .filter(fee => fee.status === 'pending')
-    .reduce((sum, fee) => sum + parseFloat(fee.amount), 0);
+    .filter(fee => fee.status === 'pending' || fee.status === 'partially_paid')
+    .reduce((sum, fee) => sum + parseFloat(fee.balance), 0);
   const overdue = fees
     .filter(fee => fee.status === 'overdue')
-    .reduce((sum, fee) => sum + parseFloat(fee.amount), 0);
+    .reduce((sum, fee) => sum + parseFloat(fee.balance), 0);
+  const discounts = fees.reduce((sum, fee) => sum + parseFloat(fee.discount ?? "0"), 0);
   const collectionRate = totalExpected > 0 ? (collected / totalExpected * 100).toFixed(1) : '0.0';
 
   if (isLoading) {
@@ -140,13 +150,17 @@ export default function FeesTab() {
                     <SelectValue />
                   </SelectTrigger>
                   <SelectContent>
-                    <SelectItem value="2024-11">November 2024</SelectItem>
-                    <SelectItem value="2024-10">October 2024</SelectItem>
-                    <SelectItem value="2024-09">September 2024</SelectItem>
-                    <SelectItem value="2024-08">August 2024</SelectItem>
+                    {monthOptions.map(option => (
+                      <SelectItem key={option.value} value={option.value}>{option.label}</SelectItem>
+                    ))}
                   </SelectContent>
                 </Select>
-                <Button className="bg-secondary text-white hover:bg-secondary/90" data-testid="button-generate-bill">
+                <Button
+                  className="bg-secondary text-white hover:bg-secondary/90"
+                  onClick={() => billingRunMutation.mutate(selectedMonth)}
+                  disabled={billingRunMutation.isPending}
+                  data-testid="button-generate-bill"
+                >
                   Generate Bill
                 </Button>
               </div>
@@ -185,13 +199,28 @@ export default function FeesTab() {
                           </div>
                         </TableCell>
                         <TableCell className="text-sm font-medium text-gray-900">
-                          ${parseFloat(fee.amount).toFixed(2)}
+                          ${fee.amountDue}
+                          {fee.status === 'partially_paid' && (
+                            <div className="text-xs font-normal text-gray-600" data-testid={`text-fee-balance-${fee.id}`}>
+                              ${fee.balance} outstanding
+                            </div>
+                          )}
+                          {fee.discount && (
+                            <div className="text-xs font-normal text-secondary" data-testid={`text-discount-${fee.id}`}>
+                              after ${parseFloat(fee.discount).toFixed(2)} off ({fee.discountReason})
+                            </div>
+                          )}
+                          {fee.lateFee && (
+                            <div className="text-xs font-normal text-red-600" data-testid={`text-late-fee-${fee.id}`}>
+                              incl. ${parseFloat(fee.lateFee).toFixed(2)} late fee
+                            </div>
+                          )}
                         </TableCell>
                         <TableCell className="text-sm text-gray-600">
                           {new Date(fee.dueDate).toLocaleDateString()}
                         </TableCell>
                         <TableCell>
-                          {getStatusBadge(fee.status)}
+                          <FeeStatusBadge status={fee.status} />
                         </TableCell>
                         <TableCell>
                           <div className="flex items-center space-x-2">
@@ -199,19 +228,31 @@ export default function FeesTab() {
                               variant="ghost"
                               size="sm"
                               className="text-primary hover:text-primary/80"
-                              data-testid={`button-view-receipt-${fee.id}`}
+                              asChild
+                              data-testid={`button-download-invoice-${fee.id}`}
                             >
-                              <Receipt className="h-4 w-4" />
+                              <a href={`/api/fees/${fee.id}/invoice`} download title="Download invoice">
+                                <Receipt className="h-4 w-4" />
+                              </a>
                             </Button>
-                            {fee.status === 'pending' && (
+                            <Button
+                              variant="ghost"
+                              size="sm"
+                              onClick={() => setPaymentsFeeId(fee.id)}
+                              className="text-gray-600 hover:text-gray-900"
+                              data-testid={`button-payment-history-${fee.id}`}
+                            >
+                              <History className="h-4 w-4" />
+                            </Button>
+                            {canRecordPayments && fee.status !== 'paid' && (
                               <Button
                                 variant="ghost"
                                 size="sm"
-                                onClick={() => markAsPaid(fee.id)}
+                                onClick={() => setPaymentsFeeId(fee.id)}
                                 className="text-secondary hover:text-secondary/80"
                                 data-testid={`button-mark-paid-${fee.id}`}
                               >
-                                Mark Paid
+                                Record Payment
                               </Button>
                             )}
                             {fee.status === 'overdue' ? (
@@ -281,6 +322,14 @@ export default function FeesTab() {
                   ${overdue.toFixed(2)}
                 </span>
               </div>
+              {discounts > 0 && (
+                <div className="flex items-center justify-between">
+                  <span className="text-sm text-gray-600">Discounts Given</span>
+                  <span className="text-lg font-semibold text-gray-900" data-testid="stat-discounts">
+                    ${discounts.toFixed(2)}
+                  </span>
+                </div>
+              )}
               <div className="border-t border-gray-200 pt-4">
                 <div className="flex items-center justify-between">
                   <span className="text-sm font-medium text-gray-900">Collection Rate</span>
@@ -303,13 +352,30 @@ export default function FeesTab() {
               <Button variant="outline" className="w-full" data-testid="button-export-fee-report">
                 Export Fee Report
               </Button>
-              <Button variant="outline" className="w-full" data-testid="button-generate-invoices">
-                Generate Invoices
-              </Button>
+              {fees.length > 0 ? (
+                <Button variant="outline" className="w-full" asChild data-testid="button-generate-invoices">
+                  <a href={`/api/fees/invoices?month=${selectedMonth}`} download>
+                    Generate Invoices
+                  </a>
+                </Button>
+              ) : (
+                <Button variant="outline" className="w-full" disabled data-testid="button-generate-invoices">
+                  Generate Invoices
+                </Button>
+              )}
             </div>
           </CardContent>
         </Card>
+
+        {user?.role === 'admin' && <DiscountRulesCard />}
       </div>
+
+      <FeePaymentsDialog
+        fee={paymentsFee}
+        studentName={paymentsFee ? getStudent(paymentsFee.studentId)?.name : undefined}
+        canRecordPayments={canRecordPayments}
+        onClose={() => setPaymentsFeeId(null)}
+      />
     </div>
   );
 }
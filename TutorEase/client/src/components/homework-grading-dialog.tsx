@@ -0,0 +1,227 @@
+import { useEffect, useState } from "react";
+import { useMutation, useQuery, useQueryClient } from "@tanstack/react-query";
+import { format } from "date-fns";
+import { Dialog, DialogContent, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Textarea } from "@/components/ui/textarea";
+import {
+  type GradeSubmission, type Homework, type HomeworkBreakdown, type HomeworkSubmission, type Student,
+} from "@shared/schema";
+import { AttachmentList } from "@/components/attachments";
+import { ApiError, apiRequest } from "@/lib/queryClient";
+import { useToast } from "@/hooks/use-toast";
+
+interface HomeworkGradingDialogProps {
+  homework: Homework | null;
+  onClose: () => void;
+}
+
+// Every submission for one homework, each with its own grading form
+export default function HomeworkGradingDialog({ homework, onClose }: HomeworkGradingDialogProps) {
+  const { data: submissions = [], isLoading } = useQuery<HomeworkSubmission[]>({
+    queryKey: ['/api/homework', homework?.id, 'submissions'],
+    enabled: !!homework,
+  });
+
+  const { data: students = [] } = useQuery<Student[]>({
+    queryKey: ['/api/students'],
+  });
+
+  const { data: breakdown } = useQuery<HomeworkBreakdown>({
+    queryKey: ['/api/homework', homework?.id, 'breakdown'],
+    enabled: !!homework,
+  });
+  const missing = breakdown?.students.filter(student => student.status === "not_submitted") ?? [];
+
+  const graded = submissions.filter(submission => submission.status === "graded" && submission.grade !== null);
+  const average = graded.length > 0
+    ? Math.round(graded.reduce((sum, submission) => sum + submission.grade!, 0) / graded.length)
+    : null;
+
+  return (
+    <Dialog open={homework !== null} onOpenChange={(open) => !open && onClose()}>
+      <DialogContent className="max-w-3xl max-h-[85vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle>Submissions{homework ? ` — ${homework.title}` : ""}</DialogTitle>
+        </DialogHeader>
+        {homework && (
+          <div className="space-y-6">
+            <div className="grid grid-cols-4 gap-4 text-sm">
+              <div>
+                <div className="text-gray-600">Submitted</div>
+                <div className="font-semibold text-gray-900">
+                  {submissions.length}{breakdown ? ` of ${breakdown.totalStudents}` : ""}
+                </div>
+              </div>
+              <div>
+                <div className="text-gray-600">Late</div>
+                <div className="font-semibold text-orange-600">{breakdown?.lateCount ?? 0}</div>
+              </div>
+              <div>
+                <div className="text-gray-600">Graded</div>
+                <div className="font-semibold text-secondary">{graded.length}</div>
+              </div>
+              <div>
+                <div className="text-gray-600">Average</div>
+                <div className="font-semibold text-gray-900" data-testid="text-homework-average">
+                  {average === null ? "—" : `${average}%`}
+                </div>
+              </div>
+            </div>
+
+            {missing.length > 0 && (
+              <div className="text-sm" data-testid="text-homework-not-submitted">
+                <span className="text-gray-600">Not submitted: </span>
+                <span className="text-gray-900">{missing.map(student => student.name).join(", ")}</span>
+              </div>
+            )}
+
+            {isLoading ? (
+              <div className="text-center py-4">Loading submissions...</div>
+            ) : submissions.length === 0 ? (
+              <div className="text-center py-4 text-gray-500">No submissions yet</div>
+            ) : (
+              submissions.map(submission => (
+                <SubmissionGrader
+                  key={submission.id}
+                  homework={homework}
+                  submission={submission}
+                  studentName={students.find(student => student.id === submission.studentId)?.name ?? "Unknown student"}
+                />
+              ))
+            )}
+          </div>
+        )}
+        <div className="flex justify-end pt-4">
+          <Button variant="outline" onClick={onClose}>
+            Close
+          </Button>
+        </div>
+      </DialogContent>
+    </Dialog>
+  );
+}
+
+interface SubmissionGraderProps {
+  homework: Homework;
+  submission: HomeworkSubmission;
+  studentName: string;
+}
+
+function SubmissionGrader({ homework, submission, studentName }: SubmissionGraderProps) {
+  const queryClient = useQueryClient();
+  const { toast } = useToast();
+  const [grade, setGrade] = useState("");
+  const [scores, setScores] = useState<Record<string, string>>({});
+  const [feedback, setFeedback] = useState("");
+  const hasRubric = homework.rubric.length > 0;
+
+  useEffect(() => {
+    // Start from the saved grade so a regrade only needs the changes
+    setGrade(submission.grade?.toString() ?? "");
+    setScores(Object.fromEntries(submission.rubricScores.map(score => [score.criterion, score.score.toString()])));
+    setFeedback(submission.feedback ?? "");
+  }, [submission.id, submission.gradedAt]);
+
+  const gradeMutation = useMutation({
+    mutationFn: (data: GradeSubmission) => apiRequest('PUT', `/api/submissions/${submission.id}/grade`, data),
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['/api/homework'] });
+      toast({
+        title: "Success",
+        description: `Grade saved for ${studentName}`,
+      });
+    },
+    onError: (error) => {
+      toast({
+        title: "Error",
+        description: error instanceof ApiError && error.body?.message ? error.body.message : "Failed to save grade",
+        variant: "destructive",
+      });
+    },
+  });
+
+  const save = () => {
+    gradeMutation.mutate(hasRubric
+      ? {
+        rubricScores: homework.rubric
+          .filter(criterion => scores[criterion.name])
+          .map(criterion => ({ criterion: criterion.name, score: Number(scores[criterion.name]) })),
+        feedback,
+      }
+      : { grade: grade === "" ? null : Number(grade), rubricScores: [], feedback });
+  };
+
+  return (
+    <div className="border border-gray-200 rounded-lg p-4 space-y-3" data-testid={`card-submission-${submission.id}`}>
+      <div className="flex items-center justify-between">
+        <div>
+          <div className="font-medium text-gray-900">{studentName}</div>
+          <div className="text-xs text-gray-600">
+            Submitted {submission.submittedAt && format(new Date(submission.submittedAt), 'MMM dd, yyyy h:mm a')}
+          </div>
+        </div>
+        <div className="flex items-center space-x-2">
+          {submission.isLate && <Badge className="bg-orange-100 text-orange-800">Late</Badge>}
+          {submission.status === "graded"
+            ? <Badge className="bg-green-100 text-green-800">Graded {submission.grade}%</Badge>
+            : <Badge className="bg-amber-100 text-amber-800">Needs grading</Badge>}
+        </div>
+      </div>
+
+      {submission.submissionText && (
+        <p className="text-sm text-gray-800 whitespace-pre-wrap bg-gray-50 rounded-lg p-3">{submission.submissionText}</p>
+      )}
+      <AttachmentList attachments={submission.attachments} />
+
+      {hasRubric ? (
+        <div className="grid grid-cols-2 gap-3">
+          {homework.rubric.map(criterion => (
+            <div key={criterion.name} className="space-y-1">
+              <Label className="text-xs">{criterion.name} (weight {criterion.weight})</Label>
+              <Input
+                type="number"
+                min="0"
+                max="100"
+                placeholder="%"
+                value={scores[criterion.name] ?? ""}
+                onChange={(e) => setScores(prev => ({ ...prev, [criterion.name]: e.target.value }))}
+                data-testid={`input-rubric-score-${submission.id}-${criterion.name}`}
+              />
+            </div>
+          ))}
+        </div>
+      ) : (
+        <div className="space-y-1 w-32">
+          <Label className="text-xs">Grade (%)</Label>
+          <Input
+            type="number"
+            min="0"
+            max="100"
+            value={grade}
+            onChange={(e) => setGrade(e.target.value)}
+            data-testid={`input-grade-${submission.id}`}
+          />
+        </div>
+      )}
+      <div className="space-y-1">
+        <Label className="text-xs">Feedback</Label>
+        <Textarea
+          rows={2}
+          className="resize-none"
+          value={feedback}
+          onChange={(e) => setFeedback(e.target.value)}
+          data-testid={`input-feedback-${submission.id}`}
+        />
+      </div>
+      <div className="flex justify-end">
+        <Button size="sm" onClick={save} disabled={gradeMutation.isPending} data-testid={`button-save-grade-${submission.id}`}>
+          {gradeMutation.isPending ? "Saving..." : submission.status === "graded" ? "Update Grade" : "Save Grade"}
+        </Button>
+      </div>
+    </div>
+  );
+}
@@ -5,26 +5,70 @@ import { Button } from "@/components/ui/button";
 import { Input } from "@/components/ui/input";
 import { Textarea } from "@/components/ui/textarea";
 import { Badge } from "@/components/ui/badge";
-import { Dialog, DialogContent, DialogHeader, DialogTitle, DialogTrigger } from "@/components/ui/dialog";
+import { Switch } from "@/components/ui/switch";
+import { Dialog, DialogContent, DialogHeader, DialogTitle } from "@/components/ui/dialog";
 import { Form, FormControl, FormField, FormItem, FormLabel, FormMessage } from "@/components/ui/form";
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
 import { Calendar } from "@/components/ui/calendar";
 import { Popover, PopoverContent, PopoverTrigger } from "@/components/ui/popover";
-import { Plus, Edit, Trash2, Users, CheckCircle, Clock, Star, CalendarIcon, Eye, Download, Send } from "lucide-react";
-import { useForm } from "react-hook-form";
+import {
+  Plus, Edit, Trash2, Users, CheckCircle, Clock, Star, CalendarIcon, Eye, Download, Send, X, Archive, ArchiveRestore, Lock,
+  Unlock,
+} from "lucide-react";
+import { useForm, useFieldArray } from "react-hook-form";
 import { zodResolver } from "@hookform/resolvers/zod";
-import { insertHomeworkSchema, type Homework, type InsertHomework, type Class, type HomeworkSubmission } from "@shared/schema";
-import { apiRequest } from "@/lib/queryClient";
+import {
+  insertHomeworkSchema, type Homework, type HomeworkWithCounts, type InsertHomework, type Class, type HomeworkGradeStats,
+  type HomeworkStatus,
+} from "@shared/schema";
+import { AttachmentList, AttachmentsInput } from "@/components/attachments";
+import HomeworkGradingDialog from "@/components/homework-grading-dialog";
+import { ApiError, apiRequest } from "@/lib/queryClient";
 import { useToast } from "@/hooks/use-toast";
 import { format } from "date-fns";
 import { cn } from "@/lib/utils";
 
+const emptyHomework: InsertHomework = {
+  title: "",
+  description: "",
+  classId: "",
+  tutorId: "",
+  dueDate: new Date(),
+  status: "active",
+  allowLateSubmissions: false,
+  rubric: [],
+  attachments: [],
+};
+
+// "current" is everything that isn't archived
+type HomeworkFilter = "current" | HomeworkStatus;
+
+const filterOptions: { value: HomeworkFilter; label: string }[] = [
+  { value: "current", label: "Current" },
+  { value: "active", label: "Active" },
+  { value: "completed", label: "Completed" },
+  { value: "archived", label: "Archived" },
+];
+
+// The status changes offered on each homework, matching what the server allows
+const statusActions: Record<HomeworkStatus, { status: HomeworkStatus; label: string; icon: typeof Lock }[]> = {
+  active: [{ status: "completed", label: "Close", icon: Lock }],
+  completed: [
+    { status: "active", label: "Reopen", icon: Unlock },
+    { status: "archived", label: "Archive", icon: Archive },
+  ],
+  archived: [{ status: "completed", label: "Restore", icon: ArchiveRestore }],
+};
+
 export default function HomeworkTab() {
   const [isDialogOpen, setIsDialogOpen] = useState(false);
+  const [editingHomework, setEditingHomework] = useState<Homework | null>(null);
+  const [filter, setFilter] = useState<HomeworkFilter>("current");
+  const [gradingHomework, setGradingHomework] = useState<Homework | null>(null);
   const queryClient = useQueryClient();
   const { toast } = useToast();
 
-  const { data: homework = [], isLoading } = useQuery<Homework[]>({
+  const { data: homework = [], isLoading } = useQuery<HomeworkWithCounts[]>({
     queryKey: ['/api/homework'],
   });
 
@@ -32,35 +76,55 @@ export default function HomeworkTab() {
     queryKey: ['/api/classes'],
   });
 
+  const { data: gradeStats } = useQuery<HomeworkGradeStats>({
+    queryKey: ['/api/homework/stats'],
+  });
+
   const form = useForm<InsertHomework>({
     resolver: zodResolver(insertHomeworkSchema),
-    defaultValues: {
-      title: "",
-      description: "",
-      classId: "",
-      tutorId: "",
-      dueDate: new Date(),
-      status: "active",
-      totalStudents: 0,
-      submittedCount: 0,
-    },
+    defaultValues: emptyHomework,
   });
 
-  const createHomeworkMutation = useMutation({
-    mutationFn: (data: InsertHomework) => apiRequest('POST', '/api/homework', data),
+  const { fields: rubricFields, append: addCriterion, remove: removeCriterion } = useFieldArray({
+    control: form.control,
+    name: "rubric",
+  });
+
+  const saveHomeworkMutation = useMutation({
+    mutationFn: (data: InsertHomework) => editingHomework
+      ? apiRequest('PUT', `/api/homework/${editingHomework.id}`, data)
+      : apiRequest('POST', '/api/homework', data),
     onSuccess: () => {
       queryClient.invalidateQueries({ queryKey: ['/api/homework'] });
       setIsDialogOpen(false);
-      form.reset();
       toast({
         title: "Success",
-        description: "Homework assignment created successfully",
+        description: editingHomework ? "Homework assignment updated successfully" : "Homework assignment created successfully",
       });
     },
-    onError: () => {
+    onError: (error) => {
+      toast({
+        title: "Error",
+        description: error instanceof ApiError && error.body?.message ? error.body.message : "Failed to save homework assignment",
+        variant: "destructive",
+      });
+    },
+  });
+
+  const statusMutation = useMutation({
+    mutationFn: ({ id, status }: { id: string; status: HomeworkStatus }) =>
+      apiRequest('PUT', `/api/homework/${id}/status`, { status }),
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['/api/homework'] });
+      toast({
+        title: "Success",
+        description: "Homework status updated",
+      });
+    },
+    onError: (error) => {
       toast({
         title: "Error",
-        description: "Failed to create homework assignment",
+        description: error instanceof ApiError && error.body?.message ? error.body.message : "Failed to update homework status",
         variant: "destructive",
       });
     },
@@ -85,13 +149,29 @@ export default function HomeworkTab() {
   });
 
   const onSubmit = (data: InsertHomework) => {
-    const selectedClass = classes.find(c => c.id === data.classId);
-    const homeworkData = {
-      ...data,
-      totalStudents: selectedClass?.studentIds.length || 0,
-      submittedCount: 0,
-    };
-    createHomeworkMutation.mutate(homeworkData);
+    saveHomeworkMutation.mutate(data);
+  };
+
+  const openCreateDialog = () => {
+    setEditingHomework(null);
+    form.reset(emptyHomework);
+    setIsDialogOpen(true);
+  };
+
+  const openEditDialog = (assignment: Homework) => {
+    setEditingHomework(assignment);
+    form.reset({
+      title: assignment.title,
+      description: assignment.description,
+      classId: assignment.classId,
+      tutorId: assignment.tutorId,
+      dueDate: new Date(assignment.dueDate),
+      status: assignment.status as HomeworkStatus,
+      allowLateSubmissions: assignment.allowLateSubmissions,
+      rubric: assignment.rubric,
+      attachments: assignment.attachments,
+    });
+    setIsDialogOpen(true);
   };
 
   const handleDelete = (id: string) => {
@@ -108,7 +188,9 @@ export default function HomeworkTab() {
     const now = new Date();
     const dueDate = new Date(homework.dueDate);
     
-    if (homework.status === 'completed') {
+    if (homework.status === 'archived') {
+      return <Badge className="bg-gray-100 text-gray-800">Archived</Badge>;
+    } else if (homework.status === 'completed') {
       return <Badge className="bg-green-100 text-green-800">Completed</Badge>;
     } else if (dueDate < now) {
       return <Badge className="bg-red-100 text-red-800">Overdue</Badge>;
@@ -117,11 +199,13 @@ export default function HomeworkTab() {
     }
   };
 
+  const visibleHomework = homework.filter(hw => filter === "current" ? hw.status !== "archived" : hw.status === filter);
+
   // Calculate statistics
   const activeAssignments = homework.filter(hw => hw.status === 'active').length;
   const totalSubmissions = homework.reduce((sum, hw) => sum + hw.submittedCount, 0);
-  const pendingReview = homework.reduce((sum, hw) => sum + (hw.totalStudents - hw.submittedCount), 0);
-  const avgScore = 87; // This would come from actual submission data
+  const pendingReview = homework.reduce((sum, hw) => sum + (hw.submittedCount - hw.gradedCount), 0);
+  const avgScore = gradeStats?.averageGrade ?? null;
 
   if (isLoading) {
     return (
@@ -166,16 +250,26 @@ export default function HomeworkTab() {
           <div className="p-6 border-b border-gray-100">
             <div className="flex items-center justify-between">
               <h3 className="text-lg font-semibold text-gray-900">Homework Assignments</h3>
+              <div className="flex items-center space-x-3">
+                <Select value={filter} onValueChange={(value) => setFilter(value as HomeworkFilter)}>
+                  <SelectTrigger className="w-36" data-testid="select-homework-filter">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {filterOptions.map(option => (
+                      <SelectItem key={option.value} value={option.value}>{option.label}</SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+                <Button className="bg-primary text-white hover:bg-primary/90" onClick={openCreateDialog} data-testid="button-create-homework">
+                  <Plus className="h-4 w-4 mr-2" />
+                  New Assignment
+                </Button>
+              </div>
               <Dialog open={isDialogOpen} onOpenChange={setIsDialogOpen}>
-                <DialogTrigger asChild>
-                  <Button className="bg-primary text-white hover:bg-primary/90" data-testid="button-create-homework">
-                    <Plus className="h-4 w-4 mr-2" />
-                    New Assignment
-                  </Button>
-                </DialogTrigger>
-                <DialogContent className="sm:max-w-[500px]">
+                <DialogContent className="sm:max-w-[500px] max-h-[85vh] overflow-y-auto">
                   <DialogHeader>
-                    <DialogTitle>Create New Assignment</DialogTitle>
+                    <DialogTitle>{editingHomework ? "Edit Assignment" : "Create New Assignment"}</DialogTitle>
                   </DialogHeader>
                   <Form {...form}>
                     <form onSubmit={form.handleSubmit(onSubmit)} className="space-y-4">
@@ -217,7 +311,7 @@ export default function HomeworkTab() {
                         render={({ field }) => (
                           <FormItem>
                             <FormLabel>Class</FormLabel>
-                            <Select onValueChange={field.onChange} defaultValue={field.value}>
+                            <Select onValueChange={field.onChange} value={field.value} disabled={!!editingHomework}>
                               <FormControl>
                                 <SelectTrigger data-testid="select-homework-class">
                                   <SelectValue placeholder="Select a class" />
@@ -277,6 +371,97 @@ export default function HomeworkTab() {
                           </FormItem>
                         )}
                       />
+                      <FormField
+                        control={form.control}
+                        name="allowLateSubmissions"
+                        render={({ field }) => (
+                          <FormItem className="flex items-center justify-between rounded-lg border p-3">
+                            <div>
+                              <FormLabel>Accept late submissions</FormLabel>
+                              <p className="text-sm text-gray-600">Students can still submit after the due date</p>
+                            </div>
+                            <FormControl>
+                              <Switch
+                                checked={field.value ?? false}
+                                onCheckedChange={field.onChange}
+                                data-testid="switch-homework-allow-late"
+                              />
+                            </FormControl>
+                          </FormItem>
+                        )}
+                      />
+                      <FormField
+                        control={form.control}
+                        name="attachments"
+                        render={({ field }) => (
+                          <FormItem>
+                            <FormLabel>Handouts</FormLabel>
+                            <AttachmentsInput value={field.value ?? []} onChange={field.onChange} />
+                            <FormMessage />
+                          </FormItem>
+                        )}
+                      />
+                      <div className="space-y-2">
+                        <div className="flex items-center justify-between">
+                          <FormLabel>Rubric</FormLabel>
+                          <Button
+                            type="button"
+                            variant="ghost"
+                            size="sm"
+                            onClick={() => addCriterion({ name: "", weight: 1 })}
+                            disabled={rubricFields.length >= 10}
+                            className="text-primary hover:text-primary/80"
+                            data-testid="button-add-rubric-criterion"
+                          >
+                            <Plus className="h-4 w-4 mr-1" />
+                            Add Criterion
+                          </Button>
+                        </div>
+                        {rubricFields.length === 0 && (
+                          <p className="text-sm text-gray-600">No rubric; submissions get a single grade.</p>
+                        )}
+                        {rubricFields.map((criterion, index) => (
+                          <div key={criterion.id} className="flex items-start space-x-2">
+                            <FormField
+                              control={form.control}
+                              name={`rubric.${index}.name`}
+                              render={({ field }) => (
+                                <FormItem className="flex-1">
+                                  <FormControl>
+                                    <Input placeholder="Criterion" {...field} data-testid={`input-rubric-name-${index}`} />
+                                  </FormControl>
+                                  <FormMessage />
+                                </FormItem>
+                              )}
+                            />
+                            <FormField
+                              control={form.control}
+                              name={`rubric.${index}.weight`}
+                              render={({ field }) => (
+                                <FormItem className="w-24">
+                                  <FormControl>
+                                    <Input type="number" min="1" max="100" placeholder="Weight" {...field} data-testid={`input-rubric-weight-${index}`} />
+                                  </FormControl>
+                                  <FormMessage />
+                                </FormItem>
+                              )}
+                            />
+                            <Button
+                              type="button"
+                              variant="ghost"
+                              size="sm"
+                              onClick={() => removeCriterion(index)}
+                              className="text-red-600 hover:text-red-700"
+                              data-testid={`button-remove-rubric-criterion-${index}`}
+                            >
+                              <X className="h-4 w-4" />
+                            </Button>
+                          </div>
+                        ))}
+                        {form.formState.errors.rubric?.root && (
+                          <p className="text-sm font-medium text-destructive">{form.formState.errors.rubric.root.message}</p>
+                        )}
+                      </div>
                       <div className="flex justify-end space-x-2">
                         <Button
                           type="button"
@@ -287,10 +472,10 @@ export default function HomeworkTab() {
                         </Button>
                         <Button
                           type="submit"
-                          disabled={createHomeworkMutation.isPending}
+                          disabled={saveHomeworkMutation.isPending}
                           data-testid="button-save-homework"
                         >
-                          {createHomeworkMutation.isPending ? "Creating..." : "Create Assignment"}
+                          {saveHomeworkMutation.isPending ? "Saving..." : editingHomework ? "Save Changes" : "Create Assignment"}
                         </Button>
                       </div>
                     </form>
@@ -300,13 +485,13 @@ export default function HomeworkTab() {
             </div>
           </div>
           <CardContent className="p-6">
-            {homework.length === 0 ? (
+            {visibleHomework.length === 0 ? (
               <div className="text-center py-8 text-gray-500">
-                No homework assignments created yet.
+                {homework.length === 0 ? "No homework assignments created yet." : "No homework assignments match this filter."}
               </div>
             ) : (
               <div className="space-y-4">
-                {homework.map((assignment) => {
+                {visibleHomework.map((assignment) => {
                   const classInfo = getClassInfo(assignment.classId);
                   return (
                     <div
@@ -325,9 +510,24 @@ export default function HomeworkTab() {
                         <div className="flex items-center space-x-2">
                           {getStatusBadge(assignment)}
                           <div className="flex items-center space-x-1">
+                            {statusActions[assignment.status as HomeworkStatus]?.map(action => (
+                              <Button
+                                key={action.status}
+                                variant="ghost"
+                                size="sm"
+                                title={action.label}
+                                onClick={() => statusMutation.mutate({ id: assignment.id, status: action.status })}
+                                disabled={statusMutation.isPending}
+                                className="text-gray-600 hover:text-gray-900"
+                                data-testid={`button-homework-${action.status}-${assignment.id}`}
+                              >
+                                <action.icon className="h-4 w-4" />
+                              </Button>
+                            ))}
                             <Button
                               variant="ghost"
                               size="sm"
+                              onClick={() => openEditDialog(assignment)}
                               className="text-primary hover:text-primary/80"
                               data-testid={`button-edit-homework-${assignment.id}`}
                             >
@@ -347,6 +547,7 @@ export default function HomeworkTab() {
                       </div>
                       
                       <p className="text-sm text-gray-700 mb-4">{assignment.description}</p>
+                      <AttachmentList attachments={assignment.attachments} className="mb-4" />
                       
                       <div className="flex items-center justify-between">
                         <div className="flex items-center space-x-4">
@@ -356,7 +557,10 @@ export default function HomeworkTab() {
                           </div>
                           <div className="flex items-center text-sm text-secondary">
                             <CheckCircle className="mr-1 h-4 w-4" />
-                            <span>{assignment.submittedCount} submitted</span>
+                            <span>
+                              {assignment.submittedCount} submitted
+                              {assignment.lateCount > 0 && ` (${assignment.lateCount} late)`}
+                            </span>
                           </div>
                           <div className="flex items-center text-sm text-gray-600">
                             <Clock className="mr-1 h-4 w-4" />
@@ -367,6 +571,7 @@ export default function HomeworkTab() {
                           variant="ghost"
                           size="sm"
                           className="text-primary hover:text-primary/80 text-sm font-medium"
+                          onClick={() => setGradingHomework(assignment)}
                           data-testid={`button-view-submissions-${assignment.id}`}
                         >
                           View Submissions →
@@ -408,7 +613,7 @@ export default function HomeworkTab() {
               <div className="flex items-center justify-between">
                 <span className="text-sm text-gray-600">Average Score</span>
                 <span className="text-lg font-semibold text-secondary" data-testid="stat-average-score">
-                  {avgScore}%
+                  {avgScore === null ? "—" : `${avgScore}%`}
                 </span>
               </div>
             </div>
@@ -473,6 +678,8 @@ export default function HomeworkTab() {
           </CardContent>
         </Card>
       </div>
+
+      <HomeworkGradingDialog homework={gradingHomework} onClose={() => setGradingHomework(null)} />
     </div>
   );
 }
@@ -1,27 +1,58 @@
 import { useState } from "react";
+import { useMutation, useQuery } from "@tanstack/react-query";
+import { formatDistanceToNow } from "date-fns";
 import { Button } from "@/components/ui/button";
 import { Badge } from "@/components/ui/badge";
 import { GraduationCap, Bell } from "lucide-react";
 import { useAuth } from "@/lib/auth";
+import { apiRequest, queryClient } from "@/lib/queryClient";
+import { type Notification } from "@shared/schema";
+
+export interface NavigationTab {
+  id: string;
+  label: string;
+}
 
 interface NavigationProps {
   activeTab: string;
   onTabChange: (tab: string) => void;
+  tabs?: NavigationTab[];
 }
 
-const tabs = [
+const defaultTabs: NavigationTab[] = [
   { id: "overview", label: "Overview" },
   { id: "students", label: "Students" },
   { id: "classes", label: "Classes" },
+  { id: "calendar", label: "Calendar" },
   { id: "attendance", label: "Attendance" },
   { id: "fees", label: "Fees" },
   { id: "homework", label: "Homework" },
 ];
 
-export default function Navigation({ activeTab, onTabChange }: NavigationProps) {
+export default function Navigation({ activeTab, onTabChange, tabs = defaultTabs }: NavigationProps) {
   const { user, logout } = useAuth();
   const [showNotifications, setShowNotifications] = useState(false);
 
+  const { data: notifications = [] } = useQuery<Notification[]>({
+    queryKey: ['/api/notifications'],
+    enabled: !!user,
+  });
+  const unreadCount = notifications.filter(n => !n.readAt).length;
+
+  const markReadMutation = useMutation({
+    mutationFn: (id: string) => apiRequest("POST", `/api/notifications/${id}/read`),
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['/api/notifications'] });
+    },
+  });
+
+  const markAllReadMutation = useMutation({
+    mutationFn: () => apiRequest("POST", "/api/notifications/read-all"),
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['/api/notifications'] });
+    },
+  });
+
   const getInitials = (name: string) => {
     return name.split(' ').map(n => n[0]).join('').toUpperCase();
   };
@@ -65,9 +96,14 @@ export default function Navigation({ activeTab, onTabChange }: NavigationProps)
                 data-testid="button-notifications"
               >
                 <Bell className="h-5 w-5" />
-                <Badge className="absolute -top-1 -right-1 bg-red-500 text-white text-xs rounded-full w-5 h-5 flex items-center justify-center p-0">
-                  3
-                </Badge>
+                {unreadCount > 0 && (
+                  <Badge
+                    className="absolute -top-1 -right-1 bg-red-500 text-white text-xs rounded-full w-5 h-5 flex items-center justify-center p-0"
+                    data-testid="badge-unread-notifications"
+                  >
+                    {unreadCount > 9 ? "9+" : unreadCount}
+                  </Badge>
+                )}
               </Button>
               
               {showNotifications && (
@@ -76,21 +112,26 @@ export default function Navigation({ activeTab, onTabChange }: NavigationProps)
                     <h3 className="text-lg font-semibold text-gray-900">Notifications</h3>
                   </div>
                   <div className="p-4 space-y-3 max-h-96 overflow-y-auto">
-                    <div className="p-3 bg-gray-50 rounded-lg">
-                      <div className="text-sm font-medium text-gray-900">New student enrollment</div>
-                      <div className="text-xs text-gray-600 mt-1">Alex Chen joined Mathematics Grade 10</div>
-                      <div className="text-xs text-gray-500 mt-1">2 minutes ago</div>
-                    </div>
-                    <div className="p-3 bg-gray-50 rounded-lg">
-                      <div className="text-sm font-medium text-gray-900">Fee payment received</div>
-                      <div className="text-xs text-gray-600 mt-1">Emma Wilson paid $250 for November</div>
-                      <div className="text-xs text-gray-500 mt-1">1 hour ago</div>
-                    </div>
-                    <div className="p-3 bg-gray-50 rounded-lg">
-                      <div className="text-sm font-medium text-gray-900">Homework submitted</div>
-                      <div className="text-xs text-gray-600 mt-1">5 students submitted Physics assignments</div>
-                      <div className="text-xs text-gray-500 mt-1">3 hours ago</div>
-                    </div>
+                    {notifications.length === 0 ? (
+                      <div className="text-sm text-gray-500 text-center py-4">No notifications yet</div>
+                    ) : (
+                      notifications.map((notification) => (
+                        <div
+                          key={notification.id}
+                          className={`p-3 rounded-lg cursor-pointer ${notification.readAt ? "bg-white" : "bg-blue-50"}`}
+                          onClick={() => !notification.readAt && markReadMutation.mutate(notification.id)}
+                          data-testid={`notification-${notification.id}`}
+                        >
+                          <div className="text-sm font-medium text-gray-900">{notification.title}</div>
+                          <div className="text-xs text-gray-600 mt-1">{notification.message}</div>
+                          {notification.createdAt && (
+                            <div className="text-xs text-gray-500 mt-1">
+                              {formatDistanceToNow(new Date(notification.createdAt), { addSuffix: true })}
+                            </div>
+                          )}
+                        </div>
+                      ))
+                    )}
                   </div>
                   <div className="p-4 border-t border-gray-200 flex space-x-3">
                     <Button
@@ -101,7 +142,13 @@ export default function Navigation({ activeTab, onTabChange }: NavigationProps)
                     >
                       Close
                     </Button>
-                    <Button size="sm" className="flex-1">
+                    <Button
+                      size="sm"
+                      className="flex-1"
+                      onClick={() => markAllReadMutation.mutate()}
+                      disabled={unreadCount === 0 || markAllReadMutation.isPending}
+                      data-testid="button-mark-all-read"
+                    >
                       Mark All Read
                     </Button>
                   </div>
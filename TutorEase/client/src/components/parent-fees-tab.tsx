@@ -0,0 +1,243 @@
+import { useEffect, useState } from "react";
+import { useQuery, useMutation, useQueryClient } from "@tanstack/react-query";
+import { Card, CardContent } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import { Receipt, History, CreditCard } from "lucide-react";
+import { format } from "date-fns";
+import { type Checkout, type Class, type FeeWithBalance, type Student } from "@shared/schema";
+import { ApiError, apiRequest } from "@/lib/queryClient";
+import { useToast } from "@/hooks/use-toast";
+import FeePaymentsDialog from "@/components/fee-payments-dialog";
+import { FeeStatusBadge } from "@/components/fees-tab";
+
+const hasBalance = (fee: FeeWithBalance) => parseFloat(fee.balance) > 0;
+
+// A parent's view of their children's fees: what is still owed, and paying it online
+export default function ParentFeesTab() {
+  const queryClient = useQueryClient();
+  const { toast } = useToast();
+  const [paymentsFeeId, setPaymentsFeeId] = useState<string | null>(null);
+
+  // A parent's scope covers their own children and their classes
+  const { data: fees = [], isLoading } = useQuery<FeeWithBalance[]>({
+    queryKey: ['/api/fees'],
+  });
+  const { data: students = [] } = useQuery<Student[]>({
+    queryKey: ['/api/students'],
+  });
+  const { data: classes = [] } = useQuery<Class[]>({
+    queryKey: ['/api/classes'],
+  });
+
+  // The payment provider sends parents back with ?checkout=<id>; report how it went
+  useEffect(() => {
+    const params = new URLSearchParams(window.location.search);
+    const checkoutId = params.get("checkout");
+    if (!checkoutId) return;
+    window.history.replaceState(null, "", window.location.pathname);
+    if (params.get("status") === "cancelled") {
+      toast({ title: "Payment cancelled", description: "No payment was taken." });
+      return;
+    }
+    apiRequest('GET', `/api/checkouts/${checkoutId}`)
+      .then(response => response.json() as Promise<Checkout>)
+      .then(checkout => {
+        queryClient.invalidateQueries({ queryKey: ['/api/fees'] });
+        if (checkout.status === "succeeded") {
+          toast({ title: "Success", description: `Payment of $${checkout.amount} received. Thank you!` });
+        } else if (checkout.status === "failed") {
+          toast({ title: "Error", description: checkout.failureReason ?? "The payment did not go through", variant: "destructive" });
+        } else {
+          toast({ title: "Payment processing", description: "We'll update the fee once the payment is confirmed." });
+        }
+      })
+      .catch(() => {
+        toast({ title: "Error", description: "Could not check the payment status", variant: "destructive" });
+      });
+  }, []);
+
+  const checkoutMutation = useMutation({
+    mutationFn: async (feeId: string): Promise<{ checkoutId: string; url: string }> => {
+      const response = await apiRequest('POST', `/api/fees/${feeId}/checkout`);
+      return response.json();
+    },
+    onSuccess: ({ url }) => {
+      window.location.assign(url);
+    },
+    onError: (error) => {
+      toast({
+        title: "Error",
+        description: error instanceof ApiError && error.body?.message ? error.body.message : "Failed to start the payment",
+        variant: "destructive",
+      });
+    },
+  });
+
+  const studentName = (studentId: string) => students.find(student => student.id === studentId)?.name ?? "Unknown student";
+  const className = (classId: string) => classes.find(cls => cls.id === classId)?.name ?? "Former class";
+
+  // Fees still owed come first, oldest first, then everything settled, newest first
+  const owing = fees.filter(hasBalance).sort((a, b) => a.month.localeCompare(b.month));
+  const settled = fees.filter(fee => !hasBalance(fee)).sort((a, b) => b.month.localeCompare(a.month));
+  const outstanding = owing.reduce((sum, fee) => sum + parseFloat(fee.balance), 0);
+  const overdue = owing
+    .filter(fee => fee.status === 'overdue')
+    .reduce((sum, fee) => sum + parseFloat(fee.balance), 0);
+  const paymentsFee = fees.find(fee => fee.id === paymentsFeeId) ?? null;
+
+  if (isLoading) {
+    return (
+      <Card>
+        <CardContent className="p-6">
+          <div className="animate-pulse space-y-4">
+            <div className="h-8 bg-gray-200 rounded w-1/4"></div>
+            <div className="space-y-3">
+              {[...Array(3)].map((_, i) => (
+                <div key={i} className="h-16 bg-gray-200 rounded"></div>
+              ))}
+            </div>
+          </div>
+        </CardContent>
+      </Card>
+    );
+  }
+
+  return (
+    <div className="space-y-6">
+      <div className="grid grid-cols-1 md:grid-cols-3 gap-6">
+        <Card className="shadow-sm border border-gray-100">
+          <CardContent className="p-6">
+            <p className="text-sm text-gray-600">Outstanding</p>
+            <p className="text-2xl font-bold text-gray-900" data-testid="stat-parent-outstanding">
+              ${outstanding.toFixed(2)}
+            </p>
+          </CardContent>
+        </Card>
+        <Card className="shadow-sm border border-gray-100">
+          <CardContent className="p-6">
+            <p className="text-sm text-gray-600">Overdue</p>
+            <p className="text-2xl font-bold text-red-600" data-testid="stat-parent-overdue">
+              ${overdue.toFixed(2)}
+            </p>
+          </CardContent>
+        </Card>
+        <Card className="shadow-sm border border-gray-100">
+          <CardContent className="p-6">
+            <p className="text-sm text-gray-600">Fees to pay</p>
+            <p className="text-2xl font-bold text-gray-900" data-testid="stat-parent-fees-owing">
+              {owing.length}
+            </p>
+          </CardContent>
+        </Card>
+      </div>
+
+      <Card className="shadow-sm border border-gray-100">
+        <div className="p-6 border-b border-gray-100">
+          <h3 className="text-lg font-semibold text-gray-900">Fees</h3>
+        </div>
+        <CardContent className="p-6">
+          <div className="overflow-x-auto">
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead>Child</TableHead>
+                  <TableHead>Class</TableHead>
+                  <TableHead>Month</TableHead>
+                  <TableHead>Amount Due</TableHead>
+                  <TableHead>Due Date</TableHead>
+                  <TableHead>Status</TableHead>
+                  <TableHead>Actions</TableHead>
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {[...owing, ...settled].map((fee) => (
+                  <TableRow key={fee.id} className="hover:bg-gray-50">
+                    <TableCell className="text-sm font-medium text-gray-900" data-testid={`text-fee-student-${fee.id}`}>
+                      {studentName(fee.studentId)}
+                    </TableCell>
+                    <TableCell className="text-sm text-gray-600">{className(fee.classId)}</TableCell>
+                    <TableCell className="text-sm text-gray-600">{format(new Date(`${fee.month}-01T00:00:00`), 'MMMM yyyy')}</TableCell>
+                    <TableCell className="text-sm font-medium text-gray-900">
+                      ${fee.amountDue}
+                      {fee.status === 'partially_paid' && (
+                        <div className="text-xs font-normal text-gray-600" data-testid={`text-fee-balance-${fee.id}`}>
+                          ${fee.balance} outstanding
+                        </div>
+                      )}
+                      {fee.discount && (
+                        <div className="text-xs font-normal text-secondary" data-testid={`text-discount-${fee.id}`}>
+                          after ${parseFloat(fee.discount).toFixed(2)} off ({fee.discountReason})
+                        </div>
+                      )}
+                      {fee.lateFee && (
+                        <div className="text-xs font-normal text-red-600" data-testid={`text-late-fee-${fee.id}`}>
+                          incl. ${parseFloat(fee.lateFee).toFixed(2)} late fee
+                        </div>
+                      )}
+                    </TableCell>
+                    <TableCell className="text-sm text-gray-600">
+                      {new Date(fee.dueDate).toLocaleDateString()}
+                    </TableCell>
+                    <TableCell>
+                      <FeeStatusBadge status={fee.status} />
+                    </TableCell>
+                    <TableCell>
+                      <div className="flex items-center space-x-2">
+                        <Button
+                          variant="ghost"
+                          size="sm"
+                          className="text-primary hover:text-primary/80"
+                          asChild
+                          data-testid={`button-download-invoice-${fee.id}`}
+                        >
+                          <a href={`/api/fees/${fee.id}/invoice`} download title="Download invoice">
+                            <Receipt className="h-4 w-4" />
+                          </a>
+                        </Button>
+                        <Button
+                          variant="ghost"
+                          size="sm"
+                          onClick={() => setPaymentsFeeId(fee.id)}
+                          className="text-gray-600 hover:text-gray-900"
+                          data-testid={`button-payment-history-${fee.id}`}
+                        >
+                          <History className="h-4 w-4" />
+                        </Button>
+                        {hasBalance(fee) && (
+                          <Button
+                            size="sm"
+                            className="bg-secondary text-white hover:bg-secondary/90"
+                            onClick={() => checkoutMutation.mutate(fee.id)}
+                            disabled={checkoutMutation.isPending}
+                            data-testid={`button-pay-now-${fee.id}`}
+                          >
+                            <CreditCard className="h-4 w-4 mr-1" />
+                            Pay now
+                          </Button>
+                        )}
+                      </div>
+                    </TableCell>
+                  </TableRow>
+                ))}
+              </TableBody>
+            </Table>
+
+            {fees.length === 0 && (
+              <div className="text-center py-8 text-gray-500">
+                No fees yet.
+              </div>
+            )}
+          </div>
+        </CardContent>
+      </Card>
+
+      <FeePaymentsDialog
+        fee={paymentsFee}
+        studentName={paymentsFee ? studentName(paymentsFee.studentId) : undefined}
+        canRecordPayments={false}
+        onClose={() => setPaymentsFeeId(null)}
+      />
+    </div>
+  );
+}
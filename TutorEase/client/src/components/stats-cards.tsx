@@ -1,6 +1,7 @@
 import { useQuery } from "@tanstack/react-query";
 import { Card, CardContent } from "@/components/ui/card";
 import { Users, Calendar, DollarSign, TrendingUp } from "lucide-react";
+import { type AttendanceAnalytics } from "@shared/schema";
 
 interface StatsData {
   totalStudents: number;
@@ -14,6 +15,11 @@ export default function StatsCards() {
     queryKey: ['/api/dashboard/stats'],
   });
 
+  const { data: attendance } = useQuery<AttendanceAnalytics>({
+    queryKey: ['/api/analytics/attendance'],
+  });
+  const chronicCount = attendance?.chronicallyAbsent.length ?? 0;
+
   const statsConfig = [
     {
       title: "Total Students",
@@ -38,7 +44,8 @@ export default function StatsCards() {
     },
     {
       title: "Avg Attendance",
-      value: `${stats?.avgAttendance ?? 0}%`,
+      value: attendance?.overall.rate != null ? `${attendance.overall.rate}%` : "—",
+      subtitle: chronicCount > 0 ? `${chronicCount} below ${attendance!.threshold}%` : undefined,
       icon: TrendingUp,
       bgColor: "bg-purple-100",
       iconColor: "text-purple-600",
@@ -81,6 +88,9 @@ export default function StatsCards() {
                   <p className="text-2xl font-bold text-gray-900" data-testid={`stat-${stat.title.toLowerCase().replace(' ', '-')}`}>
                     {stat.value}
                   </p>
+                  {"subtitle" in stat && stat.subtitle && (
+                    <p className="text-xs text-red-600" data-testid="stat-chronic-absence">{stat.subtitle}</p>
+                  )}
                 </div>
               </div>
             </CardContent>
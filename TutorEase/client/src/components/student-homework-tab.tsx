@@ -0,0 +1,274 @@
+import { useState } from "react";
+import { useQuery, useMutation, useQueryClient } from "@tanstack/react-query";
+import { Card, CardContent } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Textarea } from "@/components/ui/textarea";
+import { Badge } from "@/components/ui/badge";
+import { Dialog, DialogContent, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import { Form, FormControl, FormField, FormItem, FormLabel, FormMessage } from "@/components/ui/form";
+import { Send } from "lucide-react";
+import { useForm } from "react-hook-form";
+import { zodResolver } from "@hookform/resolvers/zod";
+import {
+  homeworkSubmissionInputSchema, type HomeworkSubmissionInput, type Student, type StudentHomework,
+  type StudentHomeworkState,
+} from "@shared/schema";
+import { AttachmentList, AttachmentsInput } from "@/components/attachments";
+import { ApiError, apiRequest } from "@/lib/queryClient";
+import { useToast } from "@/hooks/use-toast";
+import { format } from "date-fns";
+
+const stateBadges: Record<StudentHomeworkState, { label: string; className: string }> = {
+  due: { label: "Due", className: "bg-amber-100 text-amber-800" },
+  overdue: { label: "Overdue", className: "bg-red-100 text-red-800" },
+  submitted: { label: "Submitted", className: "bg-blue-100 text-blue-800" },
+  graded: { label: "Graded", className: "bg-green-100 text-green-800" },
+};
+
+const canSubmit = (homework: StudentHomework) =>
+  homework.status === "active"
+  && (homework.state === "due" || (homework.state === "overdue" && homework.allowLateSubmissions));
+
+// The signed-in student's homework across their classes, and handing it in
+export default function StudentHomeworkTab() {
+  const [submitting, setSubmitting] = useState<StudentHomework | null>(null);
+  const queryClient = useQueryClient();
+  const { toast } = useToast();
+
+  // A student's scope only covers themselves
+  const { data: students = [] } = useQuery<Student[]>({
+    queryKey: ['/api/students'],
+  });
+  const student = students[0];
+
+  const { data: homework = [], isLoading } = useQuery<StudentHomework[]>({
+    queryKey: ['/api/students', student?.id, 'homework'],
+    enabled: !!student,
+  });
+
+  const form = useForm<HomeworkSubmissionInput>({
+    resolver: zodResolver(homeworkSubmissionInputSchema),
+    defaultValues: { submissionText: "", attachments: [] },
+  });
+
+  const submitMutation = useMutation({
+    mutationFn: (data: HomeworkSubmissionInput) => apiRequest('POST', `/api/homework/${submitting!.id}/submissions`, data),
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['/api/students', student?.id, 'homework'] });
+      setSubmitting(null);
+      toast({
+        title: "Success",
+        description: "Homework submitted",
+      });
+    },
+    onError: (error) => {
+      toast({
+        title: "Error",
+        description: error instanceof ApiError && error.body?.message ? error.body.message : "Failed to submit homework",
+        variant: "destructive",
+      });
+    },
+  });
+
+  const openSubmit = (assignment: StudentHomework) => {
+    form.reset({ submissionText: "", attachments: [] });
+    setSubmitting(assignment);
+  };
+
+  const counts = homework.reduce(
+    (totals, hw) => ({ ...totals, [hw.state]: totals[hw.state] + 1 }),
+    { due: 0, overdue: 0, submitted: 0, graded: 0 } as Record<StudentHomeworkState, number>,
+  );
+  const graded = homework.filter(hw => hw.submission?.grade != null);
+  const avgGrade = graded.length > 0
+    ? Math.round(graded.reduce((sum, hw) => sum + hw.submission!.grade!, 0) / graded.length)
+    : null;
+
+  if (isLoading) {
+    return (
+      <Card>
+        <CardContent className="p-6">
+          <div className="animate-pulse space-y-4">
+            <div className="h-8 bg-gray-200 rounded w-1/4"></div>
+            {[...Array(3)].map((_, i) => (
+              <div key={i} className="h-32 bg-gray-200 rounded"></div>
+            ))}
+          </div>
+        </CardContent>
+      </Card>
+    );
+  }
+
+  return (
+    <div className="grid grid-cols-1 lg:grid-cols-3 gap-8">
+      <div className="lg:col-span-2">
+        <Card className="shadow-sm border border-gray-100">
+          <div className="p-6 border-b border-gray-100">
+            <h3 className="text-lg font-semibold text-gray-900">My Homework</h3>
+          </div>
+          <CardContent className="p-6">
+            {homework.length === 0 ? (
+              <div className="text-center py-8 text-gray-500">
+                No homework has been set for your classes yet.
+              </div>
+            ) : (
+              <div className="space-y-4">
+                {homework.map((assignment) => {
+                  const badge = stateBadges[assignment.state];
+                  const submission = assignment.submission;
+                  return (
+                    <div
+                      key={assignment.id}
+                      className="border border-gray-200 rounded-lg p-4"
+                      data-testid={`card-student-homework-${assignment.id}`}
+                    >
+                      <div className="flex items-center justify-between mb-3">
+                        <div>
+                          <h4 className="text-lg font-medium text-gray-900">{assignment.title}</h4>
+                          <p className="text-sm text-gray-600">
+                            {assignment.className} • Due {format(new Date(assignment.dueDate), 'MMM dd, yyyy')}
+                          </p>
+                        </div>
+                        <div className="flex items-center space-x-2">
+                          {submission?.isLate && <Badge className="bg-orange-100 text-orange-800">Late</Badge>}
+                          <Badge className={badge.className} data-testid={`badge-homework-state-${assignment.id}`}>
+                            {badge.label}
+                          </Badge>
+                        </div>
+                      </div>
+
+                      <p className="text-sm text-gray-700 mb-4">{assignment.description}</p>
+                      <AttachmentList attachments={assignment.attachments} className="mb-4" />
+
+                      {submission ? (
+                        <div className="bg-gray-50 rounded-lg p-3 space-y-2 text-sm">
+                          <div className="text-gray-600">
+                            Submitted {submission.submittedAt && format(new Date(submission.submittedAt), 'MMM dd, yyyy h:mm a')}
+                          </div>
+                          {submission.submissionText && (
+                            <p className="text-gray-800 whitespace-pre-wrap">{submission.submissionText}</p>
+                          )}
+                          <AttachmentList attachments={submission.attachments} />
+                          {assignment.state === "graded" && (
+                            <div className="pt-2 border-t border-gray-200">
+                              <div className="font-medium text-gray-900" data-testid={`text-homework-grade-${assignment.id}`}>
+                                Grade: {submission.grade ?? "—"}%
+                              </div>
+                              {submission.rubricScores.map(score => (
+                                <div key={score.criterion} className="flex justify-between text-gray-600">
+                                  <span>{score.criterion}</span>
+                                  <span>{score.score}%</span>
+                                </div>
+                              ))}
+                              {submission.feedback && <p className="text-gray-700">{submission.feedback}</p>}
+                            </div>
+                          )}
+                        </div>
+                      ) : canSubmit(assignment) ? (
+                        <div className="flex items-center justify-between">
+                          <span className="text-sm text-gray-600">
+                            {assignment.state === "overdue" && "Late submissions are accepted"}
+                          </span>
+                          <Button
+                            size="sm"
+                            onClick={() => openSubmit(assignment)}
+                            data-testid={`button-submit-homework-${assignment.id}`}
+                          >
+                            <Send className="h-4 w-4 mr-2" />
+                            Submit
+                          </Button>
+                        </div>
+                      ) : (
+                        <div className="text-sm text-gray-500">
+                          {assignment.status === "active" ? "The deadline has passed" : "This homework is closed"}
+                        </div>
+                      )}
+                    </div>
+                  );
+                })}
+              </div>
+            )}
+          </CardContent>
+        </Card>
+      </div>
+
+      <div className="space-y-6">
+        <Card className="shadow-sm border border-gray-100">
+          <CardContent className="p-6">
+            <h4 className="text-lg font-semibold text-gray-900 mb-4">Summary</h4>
+            <div className="space-y-4">
+              <div className="flex items-center justify-between">
+                <span className="text-sm text-gray-600">To Do</span>
+                <span className="text-lg font-semibold text-primary" data-testid="stat-homework-due">{counts.due}</span>
+              </div>
+              <div className="flex items-center justify-between">
+                <span className="text-sm text-gray-600">Overdue</span>
+                <span className="text-lg font-semibold text-red-600" data-testid="stat-homework-overdue">{counts.overdue}</span>
+              </div>
+              <div className="flex items-center justify-between">
+                <span className="text-sm text-gray-600">Awaiting Grade</span>
+                <span className="text-lg font-semibold text-accent" data-testid="stat-homework-submitted">{counts.submitted}</span>
+              </div>
+              <div className="flex items-center justify-between">
+                <span className="text-sm text-gray-600">Average Grade</span>
+                <span className="text-lg font-semibold text-secondary" data-testid="stat-homework-average">
+                  {avgGrade === null ? "—" : `${avgGrade}%`}
+                </span>
+              </div>
+            </div>
+          </CardContent>
+        </Card>
+      </div>
+
+      <Dialog open={!!submitting} onOpenChange={(open) => !open && setSubmitting(null)}>
+        <DialogContent className="sm:max-w-[500px]">
+          <DialogHeader>
+            <DialogTitle>Submit: {submitting?.title}</DialogTitle>
+          </DialogHeader>
+          <Form {...form}>
+            <form onSubmit={form.handleSubmit(data => submitMutation.mutate(data))} className="space-y-4">
+              <FormField
+                control={form.control}
+                name="submissionText"
+                render={({ field }) => (
+                  <FormItem>
+                    <FormLabel>Your answer</FormLabel>
+                    <FormControl>
+                      <Textarea
+                        rows={6}
+                        className="resize-none"
+                        {...field}
+                        value={field.value ?? ""}
+                        data-testid="input-submission-text"
+                      />
+                    </FormControl>
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
+              <FormField
+                control={form.control}
+                name="attachments"
+                render={({ field }) => (
+                  <FormItem>
+                    <FormLabel>Attachments</FormLabel>
+                    <AttachmentsInput value={field.value ?? []} onChange={field.onChange} />
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
+              <div className="flex justify-end space-x-2">
+                <Button type="button" variant="outline" onClick={() => setSubmitting(null)}>
+                  Cancel
+                </Button>
+                <Button type="submit" disabled={submitMutation.isPending} data-testid="button-confirm-submit-homework">
+                  {submitMutation.isPending ? "Submitting..." : "Submit Homework"}
+                </Button>
+              </div>
+            </form>
+          </Form>
+        </DialogContent>
+      </Dialog>
+    </div>
+  );
+}
@@ -12,7 +12,7 @@ import { Search, Plus, Eye, Edit, Trash2 } from "lucide-react";
 import { useForm } from "react-hook-form";
 import { zodResolver } from "@hookform/resolvers/zod";
 import { insertStudentSchema, type Student, type InsertStudent } from "@shared/schema";
-import { apiRequest } from "@/lib/queryClient";
+import { apiRequest, ApiError } from "@/lib/queryClient";
 import { useToast } from "@/hooks/use-toast";
 
 export default function StudentsTab() {
@@ -34,7 +34,8 @@ export default function StudentsTab() {
       grade: "",
       subjects: [],
       parentId: null,
-      tutorId: "",
+      tutorId: null,
+      userId: null,
       avatar: null,
     },
   });
@@ -68,10 +69,10 @@ export default function StudentsTab() {
         description: "Student deleted successfully",
       });
     },
-    onError: () => {
+    onError: (error) => {
       toast({
         title: "Error",
-        description: "Failed to delete student",
+        description: error instanceof ApiError && error.body?.message ? error.body.message : "Failed to delete student",
         variant: "destructive",
       });
     },
@@ -0,0 +1,81 @@
+import { useEffect } from "react";
+import { queryClient } from "@/lib/queryClient";
+import { type ChangeEvent, type RealtimeEntity } from "@shared/schema";
+
+const RECONNECT_DELAY_MS = 1000;
+const MAX_RECONNECT_DELAY_MS = 30000;
+
+const dashboardStats = [['/api/dashboard/stats'], ['/api/admin/dashboard/stats']];
+
+// Query key prefixes to refetch when an entity changes. Prefixes match longer keys,
+// so ['/api/fees'] also refreshes ['/api/fees', month].
+const affectedQueries: Record<RealtimeEntity, string[][]> = {
+  students: [['/api/students'], ...dashboardStats],
+  classes: [['/api/classes'], ['/api/sessions'], ...dashboardStats],
+  enrollments: [['/api/classes'], ['/api/students'], ['/api/homework']],
+  sessions: [['/api/sessions'], ...dashboardStats],
+  attendance: [['/api/attendance/class'], ['/api/analytics/attendance'], ...dashboardStats],
+  fees: [['/api/fees'], ['/api/admin/reports/financial'], ...dashboardStats],
+  homework: [['/api/homework'], ['/api/students'], ...dashboardStats],
+  submissions: [['/api/homework'], ['/api/students']],
+  announcements: [['/api/announcements']],
+  notifications: [['/api/notifications']],
+  users: [['/api/admin/users'], ['/api/admin/reports/users'], ...dashboardStats],
+  systemLogs: [['/api/admin/system-logs']],
+  settings: [['/api/admin/settings']],
+  discountRules: [['/api/admin/discount-rules']],
+};
+
+// Keeps React Query in step with changes made by other users while signed in.
+// Reconnects with backoff and refetches everything after a gap, since events
+// sent while disconnected are lost.
+export function useRealtime(enabled: boolean) {
+  useEffect(() => {
+    if (!enabled) return;
+
+    let socket: WebSocket | undefined;
+    let retryTimer: ReturnType<typeof setTimeout> | undefined;
+    let delay = RECONNECT_DELAY_MS;
+    let reconnecting = false;
+    let closed = false;
+
+    const connect = () => {
+      const protocol = window.location.protocol === "https:" ? "wss:" : "ws:";
+      socket = new WebSocket(`${protocol}//${window.location.host}/ws`);
+
+      socket.onopen = () => {
+        delay = RECONNECT_DELAY_MS;
+        if (reconnecting) {
+          queryClient.invalidateQueries();
+        }
+      };
+
+      socket.onmessage = (message) => {
+        try {
+          const event = JSON.parse(message.data) as ChangeEvent;
+          if (event.type !== "change") return;
+          for (const queryKey of affectedQueries[event.entity] ?? []) {
+            queryClient.invalidateQueries({ queryKey });
+          }
+        } catch (error) {
+          console.error('Invalid realtime message:', error);
+        }
+      };
+
+      socket.onclose = () => {
+        if (closed) return;
+        reconnecting = true;
+        retryTimer = setTimeout(connect, delay);
+        delay = Math.min(delay * 2, MAX_RECONNECT_DELAY_MS);
+      };
+    };
+
+    connect();
+
+    return () => {
+      closed = true;
+      clearTimeout(retryTimer);
+      socket?.close();
+    };
+  }, [enabled]);
+}
@@ -1,9 +1,23 @@
 import { QueryClient, QueryFunction } from "@tanstack/react-query";
 
+// Keeps the parsed JSON body so callers can read structured errors (e.g. 409 conflicts)
+export class ApiError extends Error {
+  constructor(public status: number, text: string, public body: any) {
+    super(`${status}: ${text}`);
+    this.name = "ApiError";
+  }
+}
+
 async function throwIfResNotOk(res: Response) {
   if (!res.ok) {
     const text = (await res.text()) || res.statusText;
-    throw new Error(`${res.status}: ${text}`);
+    let body: any = null;
+    try {
+      body = JSON.parse(text);
+    } catch {
+      // non-JSON error responses keep body null
+    }
+    throw new ApiError(res.status, text, body);
   }
 }
 
@@ -23,6 +37,27 @@ export async function apiRequest(
   return res;
 }
 
+// Sends a file as multipart/form-data; the browser sets the boundary header itself
+export async function uploadFile(file: File): Promise<UploadedFile> {
+  const body = new FormData();
+  body.append("file", file);
+  const res = await fetch("/api/uploads", {
+    method: "POST",
+    body,
+    credentials: "include",
+  });
+
+  await throwIfResNotOk(res);
+  return await res.json();
+}
+
+export interface UploadedFile {
+  id: string;
+  name: string;
+  contentType: string;
+  size: number;
+}
+
 type UnauthorizedBehavior = "returnNull" | "throw";
 export const getQueryFn: <T>(options: {
   on401: UnauthorizedBehavior;
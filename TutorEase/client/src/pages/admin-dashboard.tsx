@@ -31,12 +31,14 @@ import { zodResolver } from "@hookform/resolvers/zod";
 import { z } from "zod";
 import { useToast } from "@/hooks/use-toast";
 import { format } from "date-fns";
+import { userRoles, type AttendanceAnalytics, type FinancialReport } from "@shared/schema";
+import AttendanceAnalyticsPanel from "@/components/attendance-analytics";
 
 const userFormSchema = z.object({
   name: z.string().min(1, "Name is required"),
   email: z.string().email("Invalid email address"),
   password: z.string().min(6, "Password must be at least 6 characters"),
-  role: z.enum(["admin", "tutor", "student", "parent"])
+  role: z.enum(userRoles)
 });
 
 type UserFormData = z.infer<typeof userFormSchema>;
@@ -54,6 +56,11 @@ const AdminDashboard = () => {
     enabled: true
   });
 
+  // Attendance analytics (shared with the overview panel below)
+  const { data: attendanceAnalytics } = useQuery<AttendanceAnalytics>({
+    queryKey: ["/api/analytics/attendance"],
+  });
+
   // Users query
   const { data: users = [], isLoading: usersLoading } = useQuery({
     queryKey: ["/api/admin/users", userRole],
@@ -78,7 +85,7 @@ const AdminDashboard = () => {
   });
 
   // Financial reports query
-  const { data: financialReport, isLoading: financialReportLoading } = useQuery({
+  const { data: financialReport, isLoading: financialReportLoading } = useQuery<FinancialReport>({
     queryKey: ["/api/admin/reports/financial"],
     enabled: selectedTab === "reports"
   });
@@ -248,14 +255,18 @@ const AdminDashboard = () => {
                   <TrendingUp className="h-4 w-4 text-muted-foreground" />
                 </CardHeader>
                 <CardContent>
-                  <div className="text-2xl font-bold">{(dashboardStats as any)?.avgAttendance || 0}%</div>
+                  <div className="text-2xl font-bold">
+                    {attendanceAnalytics?.overall.rate != null ? `${attendanceAnalytics.overall.rate}%` : "—"}
+                  </div>
                   <p className="text-xs text-muted-foreground">
-                    Across all classes
+                    Last 12 weeks, {attendanceAnalytics?.chronicallyAbsent.length ?? 0} chronically absent
                   </p>
                 </CardContent>
               </Card>
             </div>
 
+            <AttendanceAnalyticsPanel />
+
             {/* Quick Actions */}
             <Card>
               <CardHeader>
@@ -422,7 +433,7 @@ const AdminDashboard = () => {
                           <TableCell>
                             <Badge variant="outline">{log.action}</Badge>
                           </TableCell>
-                          <TableCell>{log.adminId}</TableCell>
+                          <TableCell>{log.adminId ?? "System"}</TableCell>
                           <TableCell>
                             {log.targetType}: {log.targetId}
                           </TableCell>
@@ -498,13 +509,13 @@ const AdminDashboard = () => {
                       <div className="grid grid-cols-1 gap-4">
                         <div className="text-center p-4 bg-green-50 rounded-lg">
                           <div className="text-2xl font-bold text-green-600">
-                            ${(financialReport as any)?.totalRevenue?.toFixed(2) || "0.00"}
+                            ${financialReport?.totalRevenue.toFixed(2) ?? "0.00"}
                           </div>
                           <div className="text-sm text-green-600">Total Revenue</div>
                         </div>
                         <div className="text-center p-4 bg-blue-50 rounded-lg">
                           <div className="text-2xl font-bold text-blue-600">
-                            ${(financialReport as any)?.monthlyRevenue?.toFixed(2) || "0.00"}
+                            ${financialReport?.monthlyRevenue.toFixed(2) ?? "0.00"}
                           </div>
                           <div className="text-sm text-blue-600">This Month</div>
                         </div>
@@ -513,15 +524,21 @@ const AdminDashboard = () => {
                         <h4 className="font-medium">Fee Status:</h4>
                         <div className="flex justify-between items-center py-2 border-b">
                           <span>Paid Fees</span>
-                          <Badge variant="default">{(financialReport as any)?.paidFees || 0}</Badge>
+                          <Badge variant="default">{financialReport?.paidFees || 0}</Badge>
                         </div>
                         <div className="flex justify-between items-center py-2 border-b">
                           <span>Pending Fees</span>
-                          <Badge variant="secondary">{(financialReport as any)?.pendingFees || 0}</Badge>
+                          <Badge variant="secondary">{financialReport?.pendingFees || 0}</Badge>
                         </div>
                         <div className="flex justify-between items-center py-2 border-b">
                           <span>Overdue Fees</span>
-                          <Badge variant="destructive">{(financialReport as any)?.overdueFees || 0}</Badge>
+                          <Badge variant="destructive">{financialReport?.overdueFees || 0}</Badge>
+                        </div>
+                        <div className="flex justify-between items-center py-2 border-b">
+                          <span>Discounted Fees</span>
+                          <span className="text-sm text-gray-600" data-testid="text-discount-amount">
+                            {financialReport?.discountedFees || 0} · ${financialReport?.discountAmount.toFixed(2) ?? "0.00"} off
+                          </span>
                         </div>
                       </div>
                     </div>
@@ -2,6 +2,8 @@ import { useState } from "react";
 import Navigation from "@/components/navigation";
 import StatsCards from "@/components/stats-cards";
 import StudentsTab from "@/components/students-tab";
+import ClassesTab from "@/components/classes-tab";
+import CalendarTab from "@/components/calendar-tab";
 import AttendanceTab from "@/components/attendance-tab";
 import FeesTab from "@/components/fees-tab";
 import HomeworkTab from "@/components/homework-tab";
@@ -20,6 +22,8 @@ export default function Dashboard() {
         return <StudentsTab />;
       case "classes":
         return <ClassesTab />;
+      case "calendar":
+        return <CalendarTab />;
       case "attendance":
         return <AttendanceTab />;
       case "fees":
@@ -146,18 +150,3 @@ function OverviewTab() {
     </div>
   );
 }
-
-function ClassesTab() {
-  return (
-    <Card className="shadow-sm border border-gray-100">
-      <div className="p-6 border-b border-gray-100">
-        <h3 className="text-lg font-semibold text-gray-900">Class Management</h3>
-      </div>
-      <CardContent className="p-6">
-        <div className="text-center py-8 text-gray-500">
-          Class management functionality coming soon...
-        </div>
-      </CardContent>
-    </Card>
-  );
-}
@@ -0,0 +1,28 @@
+import { useState } from "react";
+import Navigation, { type NavigationTab } from "@/components/navigation";
+import ParentFeesTab from "@/components/parent-fees-tab";
+
+const tabs: NavigationTab[] = [
+  { id: "fees", label: "Fees" },
+];
+
+export default function ParentDashboard() {
+  const [activeTab, setActiveTab] = useState("fees");
+
+  const renderTabContent = () => {
+    switch (activeTab) {
+      case "fees":
+      default:
+        return <ParentFeesTab />;
+    }
+  };
+
+  return (
+    <div className="min-h-screen bg-gray-50">
+      <Navigation activeTab={activeTab} onTabChange={setActiveTab} tabs={tabs} />
+      <main className="max-w-7xl mx-auto px-4 sm:px-6 lg:px-8 py-8">
+        {renderTabContent()}
+      </main>
+    </div>
+  );
+}
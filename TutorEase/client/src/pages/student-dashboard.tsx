@@ -0,0 +1,28 @@
+import { useState } from "react";
+import Navigation, { type NavigationTab } from "@/components/navigation";
+import StudentHomeworkTab from "@/components/student-homework-tab";
+
+const tabs: NavigationTab[] = [
+  { id: "homework", label: "Homework" },
+];
+
+export default function StudentDashboard() {
+  const [activeTab, setActiveTab] = useState("homework");
+
+  const renderTabContent = () => {
+    switch (activeTab) {
+      case "homework":
+      default:
+        return <StudentHomeworkTab />;
+    }
+  };
+
+  return (
+    <div className="min-h-screen bg-gray-50">
+      <Navigation activeTab={activeTab} onTabChange={setActiveTab} tabs={tabs} />
+      <main className="max-w-7xl mx-auto px-4 sm:px-6 lg:px-8 py-8">
+        {renderTabContent()}
+      </main>
+    </div>
+  );
+}
@@ -0,0 +1,17 @@
+CREATE TABLE "enrollments" (
+	"id" varchar PRIMARY KEY DEFAULT gen_random_uuid() NOT NULL,
+	"class_id" varchar NOT NULL,
+	"student_id" varchar NOT NULL,
+	"start_date" timestamp DEFAULT now() NOT NULL,
+	"end_date" timestamp,
+	"status" text DEFAULT 'active' NOT NULL,
+	"created_at" timestamp DEFAULT now()
+);
+--> statement-breakpoint
+ALTER TABLE "enrollments" ADD CONSTRAINT "enrollments_class_id_classes_id_fk" FOREIGN KEY ("class_id") REFERENCES "public"."classes"("id") ON DELETE cascade ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE "enrollments" ADD CONSTRAINT "enrollments_student_id_students_id_fk" FOREIGN KEY ("student_id") REFERENCES "public"."students"("id") ON DELETE cascade ON UPDATE no action;--> statement-breakpoint
+-- Backfill: every student currently listed on a class becomes an open enrollment
+INSERT INTO "enrollments" ("class_id", "student_id", "start_date", "status")
+SELECT c."id", s.value, coalesce(c."created_at", now()), 'active'
+FROM "classes" c, json_array_elements_text(c."student_ids") AS s(value)
+WHERE EXISTS (SELECT 1 FROM "students" st WHERE st."id" = s.value);
@@ -0,0 +1,15 @@
+CREATE TABLE "session_exceptions" (
+	"id" varchar PRIMARY KEY DEFAULT gen_random_uuid() NOT NULL,
+	"class_id" varchar NOT NULL,
+	"session_date" timestamp NOT NULL,
+	"type" text NOT NULL,
+	"starts_at" timestamp,
+	"duration" integer,
+	"room" text,
+	"reason" text,
+	"created_by" varchar,
+	"created_at" timestamp DEFAULT now()
+);
+--> statement-breakpoint
+ALTER TABLE "session_exceptions" ADD CONSTRAINT "session_exceptions_class_id_classes_id_fk" FOREIGN KEY ("class_id") REFERENCES "public"."classes"("id") ON DELETE cascade ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE "session_exceptions" ADD CONSTRAINT "session_exceptions_created_by_users_id_fk" FOREIGN KEY ("created_by") REFERENCES "public"."users"("id") ON DELETE no action ON UPDATE no action;
\ No newline at end of file
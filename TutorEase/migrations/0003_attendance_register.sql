@@ -0,0 +1,9 @@
+-- Registers are per day: truncate existing timestamps and keep the latest row per student and day
+UPDATE "attendance" SET "date" = date_trunc('day', "date");--> statement-breakpoint
+DELETE FROM "attendance" a
+USING "attendance" b
+WHERE a."class_id" = b."class_id"
+  AND a."student_id" = b."student_id"
+  AND a."date" = b."date"
+  AND (a."created_at", a."id") < (b."created_at", b."id");--> statement-breakpoint
+CREATE UNIQUE INDEX "attendance_class_student_date_idx" ON "attendance" USING btree ("class_id","student_id","date");
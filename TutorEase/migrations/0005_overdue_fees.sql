@@ -0,0 +1,2 @@
+ALTER TABLE "system_logs" ALTER COLUMN "admin_id" DROP NOT NULL;--> statement-breakpoint
+ALTER TABLE "fees" ADD COLUMN "late_fee" numeric(10, 2);
\ No newline at end of file
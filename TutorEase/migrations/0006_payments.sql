@@ -0,0 +1,19 @@
+CREATE TABLE "payments" (
+	"id" varchar PRIMARY KEY DEFAULT gen_random_uuid() NOT NULL,
+	"fee_id" varchar NOT NULL,
+	"amount" numeric(10, 2) NOT NULL,
+	"method" text NOT NULL,
+	"reference" text,
+	"notes" text,
+	"received_by" varchar,
+	"paid_at" timestamp DEFAULT now() NOT NULL,
+	"created_at" timestamp DEFAULT now()
+);
+--> statement-breakpoint
+ALTER TABLE "payments" ADD CONSTRAINT "payments_fee_id_fees_id_fk" FOREIGN KEY ("fee_id") REFERENCES "public"."fees"("id") ON DELETE cascade ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE "payments" ADD CONSTRAINT "payments_received_by_users_id_fk" FOREIGN KEY ("received_by") REFERENCES "public"."users"("id") ON DELETE no action ON UPDATE no action;--> statement-breakpoint
+-- Fees already marked paid get one ledger entry for the full amount so their balance stays at zero
+INSERT INTO "payments" ("fee_id", "amount", "method", "paid_at")
+SELECT "id", "amount" + coalesce("late_fee", 0), 'other', coalesce("paid_date", "created_at", now())
+FROM "fees"
+WHERE "status" = 'paid';
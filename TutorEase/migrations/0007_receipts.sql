@@ -0,0 +1,11 @@
+CREATE TABLE "receipts" (
+	"id" varchar PRIMARY KEY DEFAULT gen_random_uuid() NOT NULL,
+	"number" serial NOT NULL,
+	"payment_id" varchar NOT NULL,
+	"snapshot" json NOT NULL,
+	"issued_at" timestamp DEFAULT now() NOT NULL,
+	CONSTRAINT "receipts_number_unique" UNIQUE("number"),
+	CONSTRAINT "receipts_payment_id_unique" UNIQUE("payment_id")
+);
+--> statement-breakpoint
+ALTER TABLE "receipts" ADD CONSTRAINT "receipts_payment_id_payments_id_fk" FOREIGN KEY ("payment_id") REFERENCES "public"."payments"("id") ON DELETE cascade ON UPDATE no action;
\ No newline at end of file
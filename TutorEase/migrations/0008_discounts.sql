@@ -0,0 +1,20 @@
+CREATE TABLE "discount_rules" (
+	"id" varchar PRIMARY KEY DEFAULT gen_random_uuid() NOT NULL,
+	"name" text NOT NULL,
+	"type" text NOT NULL,
+	"value" numeric(10, 2) NOT NULL,
+	"scope" text NOT NULL,
+	"student_id" varchar,
+	"class_id" varchar,
+	"start_month" text,
+	"end_month" text,
+	"is_active" boolean DEFAULT true NOT NULL,
+	"created_by" varchar,
+	"created_at" timestamp DEFAULT now()
+);
+--> statement-breakpoint
+ALTER TABLE "fees" ADD COLUMN "discount" numeric(10, 2);--> statement-breakpoint
+ALTER TABLE "fees" ADD COLUMN "discount_reason" text;--> statement-breakpoint
+ALTER TABLE "discount_rules" ADD CONSTRAINT "discount_rules_student_id_students_id_fk" FOREIGN KEY ("student_id") REFERENCES "public"."students"("id") ON DELETE cascade ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE "discount_rules" ADD CONSTRAINT "discount_rules_class_id_classes_id_fk" FOREIGN KEY ("class_id") REFERENCES "public"."classes"("id") ON DELETE cascade ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE "discount_rules" ADD CONSTRAINT "discount_rules_created_by_users_id_fk" FOREIGN KEY ("created_by") REFERENCES "public"."users"("id") ON DELETE no action ON UPDATE no action;
\ No newline at end of file
@@ -0,0 +1,18 @@
+CREATE TABLE "checkouts" (
+	"id" varchar PRIMARY KEY DEFAULT gen_random_uuid() NOT NULL,
+	"fee_id" varchar NOT NULL,
+	"amount" numeric(10, 2) NOT NULL,
+	"provider" text NOT NULL,
+	"provider_ref" text,
+	"status" text DEFAULT 'pending' NOT NULL,
+	"failure_reason" text,
+	"payment_id" varchar,
+	"created_by" varchar NOT NULL,
+	"created_at" timestamp DEFAULT now(),
+	"completed_at" timestamp,
+	CONSTRAINT "checkouts_provider_ref_unique" UNIQUE("provider_ref")
+);
+--> statement-breakpoint
+ALTER TABLE "checkouts" ADD CONSTRAINT "checkouts_fee_id_fees_id_fk" FOREIGN KEY ("fee_id") REFERENCES "public"."fees"("id") ON DELETE cascade ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE "checkouts" ADD CONSTRAINT "checkouts_payment_id_payments_id_fk" FOREIGN KEY ("payment_id") REFERENCES "public"."payments"("id") ON DELETE set null ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE "checkouts" ADD CONSTRAINT "checkouts_created_by_users_id_fk" FOREIGN KEY ("created_by") REFERENCES "public"."users"("id") ON DELETE no action ON UPDATE no action;
\ No newline at end of file
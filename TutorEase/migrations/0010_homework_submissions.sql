@@ -0,0 +1,4 @@
+ALTER TABLE "homework" ADD COLUMN "allow_late_submissions" boolean DEFAULT false NOT NULL;--> statement-breakpoint
+ALTER TABLE "homework_submissions" ADD COLUMN "attachments" json DEFAULT '[]'::json NOT NULL;--> statement-breakpoint
+ALTER TABLE "homework_submissions" ADD COLUMN "is_late" boolean DEFAULT false NOT NULL;--> statement-breakpoint
+CREATE UNIQUE INDEX "homework_submissions_homework_student_idx" ON "homework_submissions" USING btree ("homework_id","student_id");
\ No newline at end of file
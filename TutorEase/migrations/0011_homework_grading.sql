@@ -0,0 +1,5 @@
+ALTER TABLE "homework" ADD COLUMN "rubric" json DEFAULT '[]'::json NOT NULL;--> statement-breakpoint
+ALTER TABLE "homework_submissions" ADD COLUMN "rubric_scores" json DEFAULT '[]'::json NOT NULL;--> statement-breakpoint
+ALTER TABLE "homework_submissions" ADD COLUMN "graded_by" varchar;--> statement-breakpoint
+ALTER TABLE "homework_submissions" ADD COLUMN "graded_at" timestamp;--> statement-breakpoint
+ALTER TABLE "homework_submissions" ADD CONSTRAINT "homework_submissions_graded_by_users_id_fk" FOREIGN KEY ("graded_by") REFERENCES "public"."users"("id") ON DELETE no action ON UPDATE no action;
\ No newline at end of file
@@ -0,0 +1,2 @@
+ALTER TABLE "homework" DROP COLUMN "total_students";--> statement-breakpoint
+ALTER TABLE "homework" DROP COLUMN "submitted_count";
\ No newline at end of file
@@ -0,0 +1,3 @@
+ALTER TABLE "homework_submissions" DROP CONSTRAINT "homework_submissions_homework_id_homework_id_fk";
+--> statement-breakpoint
+ALTER TABLE "homework_submissions" ADD CONSTRAINT "homework_submissions_homework_id_homework_id_fk" FOREIGN KEY ("homework_id") REFERENCES "public"."homework"("id") ON DELETE cascade ON UPDATE no action;
\ No newline at end of file
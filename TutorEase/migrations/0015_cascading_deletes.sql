@@ -0,0 +1,52 @@
+ALTER TABLE "attendance" DROP CONSTRAINT "attendance_class_id_classes_id_fk";
+--> statement-breakpoint
+ALTER TABLE "attendance" DROP CONSTRAINT "attendance_student_id_students_id_fk";
+--> statement-breakpoint
+ALTER TABLE "checkouts" DROP CONSTRAINT "checkouts_created_by_users_id_fk";
+--> statement-breakpoint
+ALTER TABLE "discount_rules" DROP CONSTRAINT "discount_rules_created_by_users_id_fk";
+--> statement-breakpoint
+ALTER TABLE "fees" DROP CONSTRAINT "fees_student_id_students_id_fk";
+--> statement-breakpoint
+ALTER TABLE "fees" DROP CONSTRAINT "fees_class_id_classes_id_fk";
+--> statement-breakpoint
+ALTER TABLE "homework" DROP CONSTRAINT "homework_class_id_classes_id_fk";
+--> statement-breakpoint
+ALTER TABLE "homework_submissions" DROP CONSTRAINT "homework_submissions_student_id_students_id_fk";
+--> statement-breakpoint
+ALTER TABLE "homework_submissions" DROP CONSTRAINT "homework_submissions_graded_by_users_id_fk";
+--> statement-breakpoint
+ALTER TABLE "payments" DROP CONSTRAINT "payments_received_by_users_id_fk";
+--> statement-breakpoint
+ALTER TABLE "session_exceptions" DROP CONSTRAINT "session_exceptions_created_by_users_id_fk";
+--> statement-breakpoint
+ALTER TABLE "students" DROP CONSTRAINT "students_parent_id_users_id_fk";
+--> statement-breakpoint
+ALTER TABLE "students" DROP CONSTRAINT "students_tutor_id_users_id_fk";
+--> statement-breakpoint
+ALTER TABLE "students" DROP CONSTRAINT "students_user_id_users_id_fk";
+--> statement-breakpoint
+ALTER TABLE "system_logs" DROP CONSTRAINT "system_logs_admin_id_users_id_fk";
+--> statement-breakpoint
+ALTER TABLE "system_settings" DROP CONSTRAINT "system_settings_updated_by_users_id_fk";
+--> statement-breakpoint
+ALTER TABLE "uploads" DROP CONSTRAINT "uploads_uploaded_by_users_id_fk";
+--> statement-breakpoint
+ALTER TABLE "uploads" ALTER COLUMN "uploaded_by" DROP NOT NULL;--> statement-breakpoint
+ALTER TABLE "attendance" ADD CONSTRAINT "attendance_class_id_classes_id_fk" FOREIGN KEY ("class_id") REFERENCES "public"."classes"("id") ON DELETE cascade ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE "attendance" ADD CONSTRAINT "attendance_student_id_students_id_fk" FOREIGN KEY ("student_id") REFERENCES "public"."students"("id") ON DELETE cascade ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE "checkouts" ADD CONSTRAINT "checkouts_created_by_users_id_fk" FOREIGN KEY ("created_by") REFERENCES "public"."users"("id") ON DELETE cascade ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE "discount_rules" ADD CONSTRAINT "discount_rules_created_by_users_id_fk" FOREIGN KEY ("created_by") REFERENCES "public"."users"("id") ON DELETE set null ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE "fees" ADD CONSTRAINT "fees_student_id_students_id_fk" FOREIGN KEY ("student_id") REFERENCES "public"."students"("id") ON DELETE cascade ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE "fees" ADD CONSTRAINT "fees_class_id_classes_id_fk" FOREIGN KEY ("class_id") REFERENCES "public"."classes"("id") ON DELETE cascade ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE "homework" ADD CONSTRAINT "homework_class_id_classes_id_fk" FOREIGN KEY ("class_id") REFERENCES "public"."classes"("id") ON DELETE cascade ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE "homework_submissions" ADD CONSTRAINT "homework_submissions_student_id_students_id_fk" FOREIGN KEY ("student_id") REFERENCES "public"."students"("id") ON DELETE cascade ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE "homework_submissions" ADD CONSTRAINT "homework_submissions_graded_by_users_id_fk" FOREIGN KEY ("graded_by") REFERENCES "public"."users"("id") ON DELETE set null ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE "payments" ADD CONSTRAINT "payments_received_by_users_id_fk" FOREIGN KEY ("received_by") REFERENCES "public"."users"("id") ON DELETE set null ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE "session_exceptions" ADD CONSTRAINT "session_exceptions_created_by_users_id_fk" FOREIGN KEY ("created_by") REFERENCES "public"."users"("id") ON DELETE set null ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE "students" ADD CONSTRAINT "students_parent_id_users_id_fk" FOREIGN KEY ("parent_id") REFERENCES "public"."users"("id") ON DELETE set null ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE "students" ADD CONSTRAINT "students_tutor_id_users_id_fk" FOREIGN KEY ("tutor_id") REFERENCES "public"."users"("id") ON DELETE set null ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE "students" ADD CONSTRAINT "students_user_id_users_id_fk" FOREIGN KEY ("user_id") REFERENCES "public"."users"("id") ON DELETE set null ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE "system_logs" ADD CONSTRAINT "system_logs_admin_id_users_id_fk" FOREIGN KEY ("admin_id") REFERENCES "public"."users"("id") ON DELETE set null ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE "system_settings" ADD CONSTRAINT "system_settings_updated_by_users_id_fk" FOREIGN KEY ("updated_by") REFERENCES "public"."users"("id") ON DELETE set null ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE "uploads" ADD CONSTRAINT "uploads_uploaded_by_users_id_fk" FOREIGN KEY ("uploaded_by") REFERENCES "public"."users"("id") ON DELETE set null ON UPDATE no action;
\ No newline at end of file
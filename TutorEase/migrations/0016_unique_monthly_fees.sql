@@ -0,0 +1,29 @@
+-- Overlapping billing runs could bill a student twice for a class and month. The earliest
+-- fee of each such set is kept and takes over the others' payments and checkouts.
+CREATE TEMP TABLE "duplicate_fees" AS
+SELECT "id", "keep_id" FROM (
+  SELECT "id", first_value("id") OVER (PARTITION BY "class_id", "student_id", "month" ORDER BY "created_at", "id") AS "keep_id"
+  FROM "fees"
+) f
+WHERE "id" <> "keep_id";
+--> statement-breakpoint
+UPDATE "payments" SET "fee_id" = d."keep_id" FROM "duplicate_fees" d WHERE "payments"."fee_id" = d."id";
+--> statement-breakpoint
+UPDATE "checkouts" SET "fee_id" = d."keep_id" FROM "duplicate_fees" d WHERE "checkouts"."fee_id" = d."id";
+--> statement-breakpoint
+DELETE FROM "fees" WHERE "id" IN (SELECT "id" FROM "duplicate_fees");
+--> statement-breakpoint
+-- The kept fees' status follows their combined ledger, as server/payments.ts would set it
+UPDATE "fees" SET
+  "status" = CASE WHEN l."paid" >= "fees"."amount" + coalesce("fees"."late_fee", 0) THEN 'paid' ELSE 'partially_paid' END,
+  "paid_date" = CASE WHEN l."paid" >= "fees"."amount" + coalesce("fees"."late_fee", 0) THEN l."last_paid_at" END
+FROM (
+  SELECT "fee_id", sum("amount") AS "paid", max("paid_at") FILTER (WHERE "amount" > 0) AS "last_paid_at"
+  FROM "payments"
+  GROUP BY "fee_id"
+) l
+WHERE "fees"."id" = l."fee_id" AND l."paid" > 0 AND "fees"."id" IN (SELECT "keep_id" FROM "duplicate_fees");
+--> statement-breakpoint
+DROP TABLE "duplicate_fees";
+--> statement-breakpoint
+CREATE UNIQUE INDEX "fees_class_student_month_idx" ON "fees" USING btree ("class_id","student_id","month");
@@ -0,0 +1,6 @@
+ALTER TABLE "fees" DROP CONSTRAINT "fees_student_id_students_id_fk";
+--> statement-breakpoint
+ALTER TABLE "fees" DROP CONSTRAINT "fees_class_id_classes_id_fk";
+--> statement-breakpoint
+ALTER TABLE "fees" ADD CONSTRAINT "fees_student_id_students_id_fk" FOREIGN KEY ("student_id") REFERENCES "public"."students"("id") ON DELETE no action ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE "fees" ADD CONSTRAINT "fees_class_id_classes_id_fk" FOREIGN KEY ("class_id") REFERENCES "public"."classes"("id") ON DELETE no action ON UPDATE no action;
\ No newline at end of file
@@ -0,0 +1,80 @@
+import { format } from "date-fns";
+import { type Attendance, type Class, type Student } from "@shared/schema";
+import { storage } from "./storage";
+import { queueMail } from "./mail";
+import { sendNotification } from "./notifications";
+
+// After this many absences in a row for the same class the tutor is told as well
+export const ESCALATION_SETTING = "attendance.escalation_consecutive_absences";
+const DEFAULT_ESCALATION_THRESHOLD = 3;
+
+async function getEscalationThreshold(): Promise<number> {
+  const setting = await storage.getSystemSettingByKey(ESCALATION_SETTING);
+  const value = setting ? Number(setting.value) : NaN;
+  return Number.isInteger(value) && value > 0 ? value : DEFAULT_ESCALATION_THRESHOLD;
+}
+
+const registerKey = (record: Pick<Attendance, "classId" | "studentId" | "date">) =>
+  `${record.classId}:${record.studentId}:${record.date.getTime()}`;
+
+// Absences at the end of the student's register for this class, most recent first
+async function consecutiveAbsences(classId: string, studentId: string): Promise<number> {
+  const history = (await storage.getAttendanceByStudent(studentId))
+    .filter(record => record.classId === classId)
+    .sort((a, b) => b.date.getTime() - a.date.getTime());
+  const streak = history.findIndex(record => record.status !== "absent");
+  return streak === -1 ? history.length : streak;
+}
+
+async function notifyParent(student: Student, cls: Class, record: Attendance) {
+  if (!student.parentId) return;
+  const parent = await storage.getUser(student.parentId);
+  if (!parent || !parent.isActive) return;
+
+  const status = record.status === "late" ? "late" : "absent";
+  const title = `${student.name} was marked ${status}`;
+  const message = `${student.name} was marked ${status} for ${cls.name} on ${format(record.date, "EEEE, MMM d")}.`;
+  await sendNotification({ userId: parent.id, type: "absence", title, message });
+  queueMail({ to: parent.email, subject: title, text: message });
+}
+
+async function escalateToTutor(student: Student, cls: Class, absences: number) {
+  const tutor = await storage.getUser(cls.tutorId);
+  if (!tutor || !tutor.isActive) return;
+
+  const title = `${student.name} has missed ${absences} classes in a row`;
+  const message = `${student.name} has been absent from the last ${absences} sessions of ${cls.name}.`;
+  await sendNotification({ userId: tutor.id, type: "absence_escalation", title, message });
+  queueMail({ to: tutor.email, subject: title, text: message });
+}
+
+// Runs after a register is saved. Only records whose status changed to absent or late
+// alert the parent, so saving the same register twice doesn't notify twice; the tutor
+// is alerted once, when a run of absences reaches the escalation threshold.
+export async function sendAbsenceAlerts(saved: Attendance[], previous: Attendance[]): Promise<void> {
+  const previousStatus = new Map(previous.map(record => [registerKey(record), record.status]));
+  const changed = saved.filter(record =>
+    (record.status === "absent" || record.status === "late") &&
+    previousStatus.get(registerKey(record)) !== record.status
+  );
+  if (changed.length === 0) return;
+
+  const threshold = await getEscalationThreshold();
+  for (const record of changed) {
+    try {
+      const [cls, student] = await Promise.all([
+        storage.getClass(record.classId),
+        storage.getStudent(record.studentId),
+      ]);
+      if (!cls || !student || !cls.absenceAlerts) continue;
+
+      await notifyParent(student, cls, record);
+      if (record.status === "absent" && (await consecutiveAbsences(cls.id, student.id)) === threshold) {
+        await escalateToTutor(student, cls, threshold);
+      }
+    } catch (error) {
+      // An alert failing must not undo or fail the attendance save
+      console.error("Failed to send absence alert:", error);
+    }
+  }
+}
@@ -0,0 +1,114 @@
+import { addDays, startOfDay, startOfWeek } from "date-fns";
+import { type Attendance, type AttendanceAnalytics, type AttendanceTally } from "@shared/schema";
+import { storage } from "./storage";
+import { type DataScope, canAccessClass, canAccessStudent } from "./scope";
+
+// Students whose attendance rate falls below this percentage are listed as chronically absent.
+// Admins can override it with the system setting of the same key.
+export const CHRONIC_ABSENCE_SETTING = "attendance.chronic_absence_threshold";
+const DEFAULT_CHRONIC_ABSENCE_THRESHOLD = 80;
+
+export async function getChronicAbsenceThreshold(): Promise<number> {
+  const setting = await storage.getSystemSettingByKey(CHRONIC_ABSENCE_SETTING);
+  const value = setting ? Number(setting.value) : NaN;
+  return Number.isFinite(value) ? value : DEFAULT_CHRONIC_ABSENCE_THRESHOLD;
+}
+
+// The last twelve weeks, including today
+export function defaultAnalyticsRange(): { from: Date; to: Date } {
+  const to = addDays(startOfDay(new Date()), 1);
+  return { from: addDays(to, -84), to };
+}
+
+function tally(records: Attendance[]): AttendanceTally {
+  const present = records.filter(r => r.status === "present").length;
+  const late = records.filter(r => r.status === "late").length;
+  const absent = records.filter(r => r.status === "absent").length;
+  const total = records.length;
+  return {
+    present,
+    late,
+    absent,
+    total,
+    rate: total > 0 ? Math.round(((present + late) / total) * 1000) / 10 : null,
+  };
+}
+
+function groupBy<K>(records: Attendance[], key: (record: Attendance) => K): Map<K, Attendance[]> {
+  const groups = new Map<K, Attendance[]>();
+  for (const record of records) {
+    const k = key(record);
+    groups.set(k, [...(groups.get(k) ?? []), record]);
+  }
+  return groups;
+}
+
+export interface AttendanceAnalyticsOptions {
+  from: Date;
+  to: Date;
+  classId?: string;
+  threshold?: number;
+}
+
+// Attendance rates over [from, to) for everything the scope can see
+export async function getAttendanceAnalytics(
+  scope: DataScope,
+  options: AttendanceAnalyticsOptions,
+): Promise<AttendanceAnalytics> {
+  const { from, to } = options;
+  const threshold = options.threshold ?? await getChronicAbsenceThreshold();
+
+  const records = (await storage.getAttendanceInRange(from, to)).filter(record =>
+    canAccessClass(scope, record.classId) &&
+    canAccessStudent(scope, record.studentId) &&
+    (!options.classId || record.classId === options.classId)
+  );
+
+  const classes = new Map((await storage.getAllClasses()).map(cls => [cls.id, cls]));
+  const students = new Map((await storage.getAllStudents()).map(student => [student.id, student]));
+
+  const byStudent = Array.from(groupBy(records, r => r.studentId), ([studentId, rows]) => ({
+    studentId,
+    name: students.get(studentId)?.name ?? "Unknown student",
+    ...tally(rows),
+  }));
+
+  const byClass = Array.from(groupBy(records, r => r.classId), ([classId, rows]) => ({
+    classId,
+    name: classes.get(classId)?.name ?? "Unknown class",
+    ...tally(rows),
+  }));
+
+  const byTutor = await Promise.all(
+    Array.from(groupBy(records, r => classes.get(r.classId)?.tutorId ?? ""), async ([tutorId, rows]) => ({
+      tutorId,
+      name: (tutorId && (await storage.getUser(tutorId))?.name) || "Unassigned",
+      ...tally(rows),
+    }))
+  );
+
+  const weeklyTrend: AttendanceAnalytics["weeklyTrend"] = [];
+  for (let weekStart = startOfWeek(from, { weekStartsOn: 1 }); weekStart < to; weekStart = addDays(weekStart, 7)) {
+    const weekEnd = addDays(weekStart, 7);
+    weeklyTrend.push({
+      weekStart,
+      ...tally(records.filter(r => r.date >= weekStart && r.date < weekEnd)),
+    });
+  }
+
+  const chronicallyAbsent = byStudent
+    .filter(student => student.rate !== null && student.rate < threshold)
+    .sort((a, b) => a.rate! - b.rate!);
+
+  return {
+    from,
+    to,
+    threshold,
+    overall: tally(records),
+    byStudent: byStudent.sort((a, b) => a.name.localeCompare(b.name)),
+    byClass: byClass.sort((a, b) => a.name.localeCompare(b.name)),
+    byTutor: byTutor.sort((a, b) => a.name.localeCompare(b.name)),
+    weeklyTrend,
+    chronicallyAbsent,
+  };
+}
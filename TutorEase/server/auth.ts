@@ -0,0 +1,144 @@
+import type { Express, RequestHandler } from "express";
+import session from "express-session";
+import createMemoryStore from "memorystore";
+import connectPg from "connect-pg-simple";
+import passport from "passport";
+import { Strategy as LocalStrategy } from "passport-local";
+import { storage } from "./storage";
+import { pool } from "./db";
+import { verifyPassword } from "./password";
+import { type User as SelectUser, type UserRole } from "@shared/schema";
+
+declare global {
+  namespace Express {
+    interface User extends SelectUser {}
+  }
+}
+
+const MemoryStore = createMemoryStore(session);
+const PostgresSessionStore = connectPg(session);
+const SESSION_MAX_AGE = 7 * 24 * 60 * 60 * 1000; // 7 days
+
+// Returns the session middleware so non-Express upgrades (the realtime socket) can reuse it
+export function setupAuth(app: Express): RequestHandler {
+  const secret = process.env.SESSION_SECRET;
+  if (!secret && app.get("env") === "production") {
+    throw new Error("SESSION_SECRET must be set in production");
+  }
+
+  app.set("trust proxy", 1);
+  const sessionMiddleware = session({
+    secret: secret || "edumanage-dev-secret",
+    resave: false,
+    saveUninitialized: false,
+    store: pool
+      ? new PostgresSessionStore({ pool, createTableIfMissing: true })
+      : new MemoryStore({ checkPeriod: 24 * 60 * 60 * 1000 }),
+    cookie: {
+      httpOnly: true,
+      sameSite: "lax",
+      secure: app.get("env") === "production",
+      maxAge: SESSION_MAX_AGE,
+    },
+  });
+  app.use(sessionMiddleware);
+  app.use(passport.initialize());
+  app.use(passport.session());
+
+  passport.use(
+    new LocalStrategy(
+      { usernameField: "email", passReqToCallback: true },
+      async (req, email, password, done) => {
+        try {
+          const user = await storage.getUserByEmail(email);
+          if (
+            !user ||
+            !user.isActive ||
+            user.role !== req.body.role ||
+            !(await verifyPassword(password, user.password))
+          ) {
+            return done(null, false);
+          }
+          return done(null, user);
+        } catch (error) {
+          return done(error);
+        }
+      },
+    ),
+  );
+
+  passport.serializeUser((user, done) => done(null, user.id));
+  passport.deserializeUser(async (id: string, done) => {
+    try {
+      const user = await storage.getUser(id);
+      // Deactivated or deleted users lose their session on the next request
+      done(null, user && user.isActive ? user : false);
+    } catch (error) {
+      done(error);
+    }
+  });
+
+  app.post("/api/auth/login", (req, res, next) => {
+    passport.authenticate("local", (err: unknown, user: SelectUser | false) => {
+      if (err) {
+        return res.status(500).json({ message: "Login failed" });
+      }
+      if (!user) {
+        return res.status(401).json({ message: "Invalid credentials" });
+      }
+
+      req.login(user, async (loginErr) => {
+        if (loginErr) {
+          return res.status(500).json({ message: "Login failed" });
+        }
+        try {
+          const updated = await storage.updateUser(user.id, { lastLogin: new Date() });
+          res.json({ user: { ...(updated ?? user), password: undefined } });
+        } catch (error) {
+          res.status(500).json({ message: "Login failed" });
+        }
+      });
+    })(req, res, next);
+  });
+
+  app.post("/api/auth/logout", (req, res) => {
+    req.logout((logoutErr) => {
+      if (logoutErr) {
+        return res.status(500).json({ message: "Logout failed" });
+      }
+      req.session.destroy(() => {
+        res.clearCookie("connect.sid");
+        res.status(204).send();
+      });
+    });
+  });
+
+  app.get("/api/auth/me", (req, res) => {
+    if (!req.isAuthenticated()) {
+      return res.status(401).json({ message: "Not authenticated" });
+    }
+    res.json({ user: { ...req.user, password: undefined } });
+  });
+
+  return sessionMiddleware;
+}
+
+export const requireAuth: RequestHandler = (req, res, next) => {
+  if (!req.isAuthenticated()) {
+    return res.status(401).json({ message: "Not authenticated" });
+  }
+  next();
+};
+
+// Responds 401 when there is no session and 403 when the user's role is not listed
+export function requireRole(...roles: UserRole[]): RequestHandler {
+  return (req, res, next) => {
+    if (!req.isAuthenticated()) {
+      return res.status(401).json({ message: "Not authenticated" });
+    }
+    if (!roles.includes(req.user.role as UserRole)) {
+      return res.status(403).json({ message: "Forbidden" });
+    }
+    next();
+  };
+}
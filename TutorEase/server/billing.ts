@@ -0,0 +1,149 @@
+import { addDays, differenceInCalendarDays, getDaysInMonth, max, min, startOfDay } from "date-fns";
+import { type BillingLine, type BillingRunResult, type Class, type Enrollment } from "@shared/schema";
+import { storage } from "./storage";
+import { HttpError } from "./errors";
+import { broadcast } from "./realtime";
+import { createDiscountCalculator } from "./discounts";
+
+// Day of the month fees fall due; clamped to the last day in short months
+export const BILLING_DUE_DAY_SETTING = "billing.due_day";
+const DEFAULT_DUE_DAY = 10;
+// When "false", students enrolled for part of the month pay the full fee
+export const BILLING_PRORATE_SETTING = "billing.prorate";
+// Days to pay a fee for a student who joined, or was billed, after the due day;
+// counted from whichever of the two is later
+export const BILLING_GRACE_DAYS_SETTING = "billing.grace_days";
+const DEFAULT_GRACE_DAYS = 7;
+
+export const MONTH_PATTERN = /^\d{4}-(0[1-9]|1[0-2])$/;
+
+async function getDueDay(): Promise<number> {
+  const setting = await storage.getSystemSettingByKey(BILLING_DUE_DAY_SETTING);
+  const value = setting ? Number(setting.value) : NaN;
+  return Number.isInteger(value) && value >= 1 && value <= 31 ? value : DEFAULT_DUE_DAY;
+}
+
+async function getGraceDays(): Promise<number> {
+  const setting = await storage.getSystemSettingByKey(BILLING_GRACE_DAYS_SETTING);
+  const value = setting ? Number(setting.value) : NaN;
+  return Number.isInteger(value) && value >= 0 ? value : DEFAULT_GRACE_DAYS;
+}
+
+async function isProrationEnabled(): Promise<boolean> {
+  const setting = await storage.getSystemSettingByKey(BILLING_PRORATE_SETTING);
+  return setting?.value !== "false";
+}
+
+// "2024-11" → [Nov 1, Dec 1)
+export function monthRange(month: string): { start: Date; end: Date } {
+  if (!MONTH_PATTERN.test(month)) {
+    throw new HttpError(400, "Month must look like YYYY-MM");
+  }
+  const [year, monthIndex] = month.split("-").map(Number);
+  return { start: new Date(year, monthIndex - 1, 1), end: new Date(year, monthIndex, 1) };
+}
+
+// Whole days a student was on the class roster within [start, end), across all of
+// their enrollments in it (a withdrawal and re-enrollment in one month still makes one fee)
+function enrolledDays(enrollments: Enrollment[], start: Date, end: Date): number {
+  return enrollments.reduce((days, enrollment) => {
+    const from = max([enrollment.startDate, start]);
+    const to = min([enrollment.endDate ?? end, end]);
+    return days + Math.max(0, differenceInCalendarDays(to, from));
+  }, 0);
+}
+
+// The student's first day on the roster within [start, end)
+function firstEnrolledDay(enrollments: Enrollment[], start: Date, end: Date): Date {
+  return min(enrollments
+    .filter(enrollment => enrollment.startDate < end && (enrollment.endDate === null || enrollment.endDate > start))
+    .map(enrollment => max([enrollment.startDate, start])));
+}
+
+export interface BillingRunOptions {
+  classIds?: string[]; // limits the run, e.g. to a tutor's classes
+  dryRun?: boolean;
+}
+
+// Creates one fee per student per class for everyone enrolled at any point in the
+// month. Students already billed for a class and month are skipped, so re-running
+// only fills gaps such as students who enrolled since the last run. The unique fee
+// index settles runs that overlap: whichever inserts second skips the student.
+export async function runBilling(month: string, options: BillingRunOptions = {}): Promise<BillingRunResult> {
+  const { start, end } = monthRange(month);
+  const daysInMonth = getDaysInMonth(start);
+  const dueDate = addDays(start, Math.min(await getDueDay(), daysInMonth) - 1);
+  const graceDays = await getGraceDays();
+  const today = startOfDay(new Date());
+  const prorate = await isProrationEnabled();
+  const discountFor = await createDiscountCalculator(month);
+  const dryRun = options.dryRun ?? false;
+
+  const billed = new Set(
+    (await storage.getFeesByMonth(month)).map(fee => `${fee.classId}:${fee.studentId}`)
+  );
+  let classes: Class[] = await storage.getAllClasses();
+  if (options.classIds) {
+    classes = classes.filter(cls => options.classIds!.includes(cls.id));
+  }
+
+  const result: BillingRunResult = { month, dueDate, dryRun, created: [], skipped: [], total: "0.00" };
+  let total = 0;
+
+  for (const cls of classes) {
+    const byStudent = new Map<string, Enrollment[]>();
+    for (const enrollment of await storage.getEnrollmentsByClass(cls.id)) {
+      byStudent.set(enrollment.studentId, [...(byStudent.get(enrollment.studentId) ?? []), enrollment]);
+    }
+
+    for (const [studentId, enrollments] of Array.from(byStudent)) {
+      const days = enrolledDays(enrollments, start, end);
+      if (days === 0) continue;
+      if (billed.has(`${cls.id}:${studentId}`)) {
+        result.skipped.push({ studentId, classId: cls.id, reason: "already_billed" });
+        continue;
+      }
+      const feeAmount = parseFloat(cls.feeAmount);
+      if (!(feeAmount > 0)) {
+        result.skipped.push({ studentId, classId: cls.id, reason: "no_fee_amount" });
+        continue;
+      }
+
+      const prorated = prorate && days < daysInMonth;
+      const gross = (prorated ? Math.round((feeAmount * days / daysInMonth) * 100) / 100 : feeAmount).toFixed(2);
+      // The fee is charged net of discounts, keeping the discount and its reason alongside
+      const applied = discountFor(studentId, cls.id, gross);
+      const amount = applied ? (parseFloat(gross) - parseFloat(applied.discount)).toFixed(2) : gross;
+      // Nobody is due to pay before they've had the grace period to do so
+      const studentDueDate = max([dueDate, addDays(max([firstEnrolledDay(enrollments, start, end), today]), graceDays)]);
+      const line: BillingLine = {
+        studentId, classId: cls.id, amount, dueDate: studentDueDate, enrolledDays: days, daysInMonth, prorated,
+        discount: applied?.discount ?? null, discountReason: applied?.reason ?? null, feeId: null,
+      };
+      if (!dryRun) {
+        // A fully discounted fee has nothing to pay, so it is settled from the start
+        const settled = parseFloat(amount) <= 0;
+        const fee = await storage.createFeeIfAbsent({
+          studentId, classId: cls.id, amount, dueDate: studentDueDate, month,
+          status: settled ? "paid" : "pending", paidDate: settled ? new Date() : null,
+          discount: line.discount, discountReason: line.discountReason,
+        });
+        if (!fee) {
+          result.skipped.push({ studentId, classId: cls.id, reason: "already_billed" });
+          continue;
+        }
+        line.feeId = fee.id;
+      }
+      result.created.push(line);
+      total += parseFloat(amount);
+    }
+  }
+
+  result.total = total.toFixed(2);
+  if (!dryRun && result.created.length > 0) {
+    broadcast({ entity: "fees", action: "created" }, {
+      studentIds: Array.from(new Set(result.created.map(line => line.studentId))),
+    });
+  }
+  return result;
+}
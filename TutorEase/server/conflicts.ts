@@ -0,0 +1,73 @@
+import { type Class, type ScheduleConflict, type ScheduleSlot } from "@shared/schema";
+import { storage } from "./storage";
+import { DEFAULT_DURATION, parseSlotTime } from "./sessions";
+import { HttpError } from "./errors";
+
+export interface ScheduleCandidate {
+  excludeClassIds?: string[]; // e.g. the class being edited, or the one a student is leaving
+  schedule: ScheduleSlot[];
+  tutorId?: string; // omit to skip the tutor's timetable
+  studentIds?: string[];
+}
+
+function overlaps(a: ScheduleSlot, b: ScheduleSlot): boolean {
+  if (a.day !== b.day) return false;
+  const aStart = parseSlotTime(a.time);
+  const bStart = parseSlotTime(b.time);
+  if (aStart === null || bStart === null) return false;
+  const aEnd = aStart + (a.duration ?? DEFAULT_DURATION);
+  const bEnd = bStart + (b.duration ?? DEFAULT_DURATION);
+  return aStart < bEnd && bStart < aEnd;
+}
+
+function clashes(candidate: ScheduleCandidate, other: Class): { slotIndex: number; slot: ScheduleSlot }[] {
+  if (candidate.excludeClassIds?.includes(other.id)) return [];
+  const found: { slotIndex: number; slot: ScheduleSlot }[] = [];
+  candidate.schedule.forEach((proposed, slotIndex) => {
+    for (const slot of other.schedule as ScheduleSlot[]) {
+      if (overlaps(proposed, slot)) found.push({ slotIndex, slot });
+    }
+  });
+  return found;
+}
+
+// Compares a proposed weekly schedule with the tutor's other classes and with the
+// classes each student is currently enrolled in.
+export async function findScheduleConflicts(candidate: ScheduleCandidate): Promise<ScheduleConflict[]> {
+  const conflicts: ScheduleConflict[] = [];
+
+  if (candidate.tutorId) {
+    for (const other of await storage.getClassesByTutor(candidate.tutorId)) {
+      for (const { slotIndex, slot } of clashes(candidate, other)) {
+        conflicts.push({ kind: "tutor", slotIndex, classId: other.id, className: other.name, day: slot.day, time: slot.time });
+      }
+    }
+  }
+
+  for (const studentId of candidate.studentIds ?? []) {
+    const student = await storage.getStudent(studentId);
+    for (const other of await storage.getClassesByStudent(studentId)) {
+      for (const { slotIndex, slot } of clashes(candidate, other)) {
+        conflicts.push({
+          kind: "student",
+          slotIndex,
+          classId: other.id,
+          className: other.name,
+          day: slot.day,
+          time: slot.time,
+          studentId,
+          studentName: student?.name,
+        });
+      }
+    }
+  }
+
+  return conflicts;
+}
+
+export async function assertNoScheduleConflicts(candidate: ScheduleCandidate): Promise<void> {
+  const conflicts = await findScheduleConflicts(candidate);
+  if (conflicts.length > 0) {
+    throw new HttpError(409, "Schedule conflicts with existing classes", { conflicts });
+  }
+}
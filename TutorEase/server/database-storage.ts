@@ -0,0 +1,660 @@
+import { and, count, desc, eq, gt, gte, inArray, isNull, lt, lte, or, sql } from "drizzle-orm";
+import { startOfDay, startOfMonth, addDays } from "date-fns";
+import {
+  users, students, classes, enrollments, sessionExceptions, attendance, fees, payments, receipts, checkouts,
+  discountRules, homework, homeworkSubmissions, uploads, announcements, systemLogs, notifications,
+  systemSettings,
+  type User, type InsertUser, type Student, type InsertStudent,
+  type Class, type InsertClass, type Enrollment, type InsertEnrollment,
+  type SessionException, type InsertSessionException, type Attendance, type InsertAttendance,
+  type Fee, type InsertFee, type Payment, type InsertPayment, type Receipt, type InsertReceipt,
+  type Checkout, type InsertCheckout, type DiscountRule, type InsertDiscountRule,
+  type Homework, type InsertHomework,
+  type HomeworkSubmission, type InsertHomeworkSubmission, type Upload, type InsertUpload,
+  type Announcement, type InsertAnnouncement, type SystemLog,
+  type InsertSystemLog, type Notification, type InsertNotification,
+  type SystemSetting, type InsertSystemSetting
+} from "@shared/schema";
+import type { Database } from "./db";
+import type { IStorage } from "./storage";
+import { hashPassword } from "./password";
+
+export class DatabaseStorage implements IStorage {
+  constructor(private db: Database) {}
+
+  // Users
+  async getUser(id: string): Promise<User | undefined> {
+    const [user] = await this.db.select().from(users).where(eq(users.id, id));
+    return user;
+  }
+
+  async getUserByEmail(email: string): Promise<User | undefined> {
+    const [user] = await this.db.select().from(users).where(eq(users.email, email));
+    return user;
+  }
+
+  async createUser(user: InsertUser): Promise<User> {
+    const [newUser] = await this.db
+      .insert(users)
+      .values({ ...user, password: await hashPassword(user.password) })
+      .returning();
+    return newUser;
+  }
+
+  async updateUser(id: string, user: Partial<InsertUser>): Promise<User | undefined> {
+    const updates = user.password
+      ? { ...user, password: await hashPassword(user.password) }
+      : user;
+    const [updated] = await this.db.update(users).set(updates).where(eq(users.id, id)).returning();
+    return updated;
+  }
+
+  // Students
+  async getStudent(id: string): Promise<Student | undefined> {
+    const [student] = await this.db.select().from(students).where(eq(students.id, id));
+    return student;
+  }
+
+  async getStudentsByTutor(tutorId: string): Promise<Student[]> {
+    return this.db.select().from(students).where(eq(students.tutorId, tutorId));
+  }
+
+  async getStudentsByParent(parentId: string): Promise<Student[]> {
+    return this.db.select().from(students).where(eq(students.parentId, parentId));
+  }
+
+  async getStudentByUser(userId: string): Promise<Student | undefined> {
+    const [student] = await this.db.select().from(students).where(eq(students.userId, userId));
+    return student;
+  }
+
+  async getAllStudents(): Promise<Student[]> {
+    return this.db.select().from(students);
+  }
+
+  async createStudent(student: InsertStudent): Promise<Student> {
+    const [newStudent] = await this.db.insert(students).values(student as typeof students.$inferInsert).returning();
+    return newStudent;
+  }
+
+  async updateStudent(id: string, student: Partial<InsertStudent>): Promise<Student | undefined> {
+    const [updated] = await this.db
+      .update(students)
+      .set(student as Partial<typeof students.$inferInsert>)
+      .where(eq(students.id, id))
+      .returning();
+    return updated;
+  }
+
+  async deleteStudent(id: string): Promise<boolean> {
+    const deleted = await this.db.delete(students).where(eq(students.id, id)).returning({ id: students.id });
+    return deleted.length > 0;
+  }
+
+  // Classes
+  async getClass(id: string): Promise<Class | undefined> {
+    const [cls] = await this.db.select().from(classes).where(eq(classes.id, id));
+    return cls;
+  }
+
+  async getClassesByTutor(tutorId: string): Promise<Class[]> {
+    return this.db.select().from(classes).where(eq(classes.tutorId, tutorId));
+  }
+
+  async getClassesByStudent(studentId: string, date: Date = new Date()): Promise<Class[]> {
+    const currentEnrollments = this.db
+      .select({ classId: enrollments.classId })
+      .from(enrollments)
+      .where(and(
+        eq(enrollments.studentId, studentId),
+        lte(enrollments.startDate, date),
+        or(isNull(enrollments.endDate), gt(enrollments.endDate, date)),
+      ));
+    return this.db.select().from(classes).where(inArray(classes.id, currentEnrollments));
+  }
+
+  async getAllClasses(): Promise<Class[]> {
+    return this.db.select().from(classes);
+  }
+
+  async createClass(classData: InsertClass): Promise<Class> {
+    const [newClass] = await this.db.insert(classes).values(classData as typeof classes.$inferInsert).returning();
+    return newClass;
+  }
+
+  async updateClass(id: string, classData: Partial<InsertClass>): Promise<Class | undefined> {
+    const [updated] = await this.db
+      .update(classes)
+      .set(classData as Partial<typeof classes.$inferInsert>)
+      .where(eq(classes.id, id))
+      .returning();
+    return updated;
+  }
+
+  async deleteClass(id: string): Promise<boolean> {
+    const deleted = await this.db.delete(classes).where(eq(classes.id, id)).returning({ id: classes.id });
+    return deleted.length > 0;
+  }
+
+  // Enrollments
+  async getEnrollment(id: string): Promise<Enrollment | undefined> {
+    const [enrollment] = await this.db.select().from(enrollments).where(eq(enrollments.id, id));
+    return enrollment;
+  }
+
+  async getEnrollmentsByClass(classId: string): Promise<Enrollment[]> {
+    return this.db.select().from(enrollments).where(eq(enrollments.classId, classId));
+  }
+
+  async getEnrollmentsByStudent(studentId: string): Promise<Enrollment[]> {
+    return this.db.select().from(enrollments).where(eq(enrollments.studentId, studentId));
+  }
+
+  async getClassRoster(classId: string, date: Date = new Date()): Promise<Enrollment[]> {
+    return this.db.select().from(enrollments).where(and(
+      eq(enrollments.classId, classId),
+      lte(enrollments.startDate, date),
+      or(isNull(enrollments.endDate), gt(enrollments.endDate, date)),
+    ));
+  }
+
+  async createEnrollment(enrollment: InsertEnrollment): Promise<Enrollment> {
+    const [newEnrollment] = await this.db.insert(enrollments).values(enrollment).returning();
+    return newEnrollment;
+  }
+
+  async updateEnrollment(id: string, enrollment: Partial<InsertEnrollment>): Promise<Enrollment | undefined> {
+    const [updated] = await this.db.update(enrollments).set(enrollment).where(eq(enrollments.id, id)).returning();
+    return updated;
+  }
+
+  // Session exceptions
+  async getSessionException(id: string): Promise<SessionException | undefined> {
+    const [exception] = await this.db.select().from(sessionExceptions).where(eq(sessionExceptions.id, id));
+    return exception;
+  }
+
+  async getSessionExceptionsByClass(classId: string): Promise<SessionException[]> {
+    return this.db.select().from(sessionExceptions).where(eq(sessionExceptions.classId, classId));
+  }
+
+  async createSessionException(exception: InsertSessionException): Promise<SessionException> {
+    const [newException] = await this.db.insert(sessionExceptions).values(exception).returning();
+    return newException;
+  }
+
+  async deleteSessionException(id: string): Promise<boolean> {
+    const deleted = await this.db
+      .delete(sessionExceptions)
+      .where(eq(sessionExceptions.id, id))
+      .returning({ id: sessionExceptions.id });
+    return deleted.length > 0;
+  }
+
+  // Attendance
+  async getAttendance(id: string): Promise<Attendance | undefined> {
+    const [record] = await this.db.select().from(attendance).where(eq(attendance.id, id));
+    return record;
+  }
+
+  async getAttendanceByClass(classId: string, date?: Date): Promise<Attendance[]> {
+    if (!date) {
+      return this.db.select().from(attendance).where(eq(attendance.classId, classId));
+    }
+    const dayStart = startOfDay(date);
+    return this.db.select().from(attendance).where(and(
+      eq(attendance.classId, classId),
+      gte(attendance.date, dayStart),
+      lt(attendance.date, addDays(dayStart, 1)),
+    ));
+  }
+
+  async getAttendanceByStudent(studentId: string): Promise<Attendance[]> {
+    return this.db.select().from(attendance).where(eq(attendance.studentId, studentId));
+  }
+
+  async getAttendanceInRange(from: Date, to: Date): Promise<Attendance[]> {
+    return this.db.select().from(attendance).where(and(gte(attendance.date, from), lt(attendance.date, to)));
+  }
+
+  async createAttendance(record: InsertAttendance): Promise<Attendance> {
+    const [newRecord] = await this.db.insert(attendance).values(record).returning();
+    return newRecord;
+  }
+
+  async updateAttendance(id: string, record: Partial<InsertAttendance>): Promise<Attendance | undefined> {
+    const [updated] = await this.db.update(attendance).set(record).where(eq(attendance.id, id)).returning();
+    return updated;
+  }
+
+  async bulkUpsertAttendance(attendanceList: InsertAttendance[]): Promise<Attendance[]> {
+    if (attendanceList.length === 0) return [];
+    return this.db
+      .insert(attendance)
+      .values(attendanceList.map(att => ({ ...att, date: startOfDay(att.date) })))
+      .onConflictDoUpdate({
+        target: [attendance.classId, attendance.studentId, attendance.date],
+        set: { status: sql`excluded.status`, notes: sql`excluded.notes` },
+      })
+      .returning();
+  }
+
+  // Fees
+  async getFee(id: string): Promise<Fee | undefined> {
+    const [fee] = await this.db.select().from(fees).where(eq(fees.id, id));
+    return fee;
+  }
+
+  async getFeesByStudent(studentId: string): Promise<Fee[]> {
+    return this.db.select().from(fees).where(eq(fees.studentId, studentId));
+  }
+
+  async getFeesByClass(classId: string): Promise<Fee[]> {
+    return this.db.select().from(fees).where(eq(fees.classId, classId));
+  }
+
+  async getFeesByMonth(month: string): Promise<Fee[]> {
+    return this.db.select().from(fees).where(eq(fees.month, month));
+  }
+
+  async getAllFees(): Promise<Fee[]> {
+    return this.db.select().from(fees);
+  }
+
+  async createFee(fee: InsertFee): Promise<Fee> {
+    const [newFee] = await this.db.insert(fees).values(fee).returning();
+    return newFee;
+  }
+
+  async createFeeIfAbsent(fee: InsertFee): Promise<Fee | undefined> {
+    const [newFee] = await this.db
+      .insert(fees)
+      .values(fee)
+      .onConflictDoNothing({ target: [fees.classId, fees.studentId, fees.month] })
+      .returning();
+    return newFee;
+  }
+
+  async updateFee(id: string, fee: Partial<InsertFee>): Promise<Fee | undefined> {
+    const [updated] = await this.db.update(fees).set(fee).where(eq(fees.id, id)).returning();
+    return updated;
+  }
+
+  // A transaction holding the fee's row lock, with a storage bound to it
+  async withFeeLock<T>(feeId: string, fn: (storage: IStorage) => Promise<T>): Promise<T> {
+    return this.db.transaction(async tx => {
+      await tx.select({ id: fees.id }).from(fees).where(eq(fees.id, feeId)).for("update");
+      return fn(new DatabaseStorage(tx));
+    });
+  }
+
+  async deleteFee(id: string): Promise<boolean> {
+    const deleted = await this.db.delete(fees).where(eq(fees.id, id)).returning({ id: fees.id });
+    return deleted.length > 0;
+  }
+
+  // Payments
+  async getPayment(id: string): Promise<Payment | undefined> {
+    const [payment] = await this.db.select().from(payments).where(eq(payments.id, id));
+    return payment || undefined;
+  }
+
+  async getPaymentsByFee(feeId: string): Promise<Payment[]> {
+    return this.db.select().from(payments).where(eq(payments.feeId, feeId)).orderBy(payments.paidAt);
+  }
+
+  async getAllPayments(): Promise<Payment[]> {
+    return this.db.select().from(payments);
+  }
+
+  async createPayment(payment: InsertPayment): Promise<Payment> {
+    const [newPayment] = await this.db.insert(payments).values(payment).returning();
+    return newPayment;
+  }
+
+  // Checkouts
+  async getCheckout(id: string): Promise<Checkout | undefined> {
+    const [checkout] = await this.db.select().from(checkouts).where(eq(checkouts.id, id));
+    return checkout || undefined;
+  }
+
+  async getCheckoutByProviderRef(providerRef: string): Promise<Checkout | undefined> {
+    const [checkout] = await this.db.select().from(checkouts).where(eq(checkouts.providerRef, providerRef));
+    return checkout || undefined;
+  }
+
+  async createCheckout(checkout: InsertCheckout): Promise<Checkout> {
+    const [newCheckout] = await this.db.insert(checkouts).values(checkout).returning();
+    return newCheckout;
+  }
+
+  async updateCheckout(id: string, checkout: Partial<InsertCheckout>): Promise<Checkout | undefined> {
+    const [updated] = await this.db.update(checkouts).set(checkout).where(eq(checkouts.id, id)).returning();
+    return updated || undefined;
+  }
+
+  // Discount Rules
+  async getDiscountRule(id: string): Promise<DiscountRule | undefined> {
+    const [rule] = await this.db.select().from(discountRules).where(eq(discountRules.id, id));
+    return rule || undefined;
+  }
+
+  async getAllDiscountRules(): Promise<DiscountRule[]> {
+    return this.db.select().from(discountRules).orderBy(discountRules.createdAt);
+  }
+
+  async createDiscountRule(rule: InsertDiscountRule): Promise<DiscountRule> {
+    const [newRule] = await this.db.insert(discountRules).values(rule).returning();
+    return newRule;
+  }
+
+  async updateDiscountRule(id: string, rule: Partial<InsertDiscountRule>): Promise<DiscountRule | undefined> {
+    const [updated] = await this.db.update(discountRules).set(rule).where(eq(discountRules.id, id)).returning();
+    return updated || undefined;
+  }
+
+  async deleteDiscountRule(id: string): Promise<boolean> {
+    const deleted = await this.db
+      .delete(discountRules)
+      .where(eq(discountRules.id, id))
+      .returning({ id: discountRules.id });
+    return deleted.length > 0;
+  }
+
+  // Receipts
+  async getReceiptByPayment(paymentId: string): Promise<Receipt | undefined> {
+    const [receipt] = await this.db.select().from(receipts).where(eq(receipts.paymentId, paymentId));
+    return receipt || undefined;
+  }
+
+  async createReceipt(receipt: InsertReceipt): Promise<Receipt> {
+    const [newReceipt] = await this.db.insert(receipts).values(receipt).returning();
+    return newReceipt;
+  }
+
+  // Homework
+  async getHomework(id: string): Promise<Homework | undefined> {
+    const [hw] = await this.db.select().from(homework).where(eq(homework.id, id));
+    return hw;
+  }
+
+  async getHomeworkByClass(classId: string): Promise<Homework[]> {
+    return this.db.select().from(homework).where(eq(homework.classId, classId));
+  }
+
+  async getHomeworkByTutor(tutorId: string): Promise<Homework[]> {
+    return this.db.select().from(homework).where(eq(homework.tutorId, tutorId));
+  }
+
+  async getAllHomework(): Promise<Homework[]> {
+    return this.db.select().from(homework);
+  }
+
+  async createHomework(hw: InsertHomework): Promise<Homework> {
+    const [newHomework] = await this.db.insert(homework).values(hw).returning();
+    return newHomework;
+  }
+
+  async updateHomework(id: string, hw: Partial<InsertHomework>): Promise<Homework | undefined> {
+    const [updated] = await this.db.update(homework).set(hw).where(eq(homework.id, id)).returning();
+    return updated;
+  }
+
+  async deleteHomework(id: string): Promise<boolean> {
+    const deleted = await this.db.delete(homework).where(eq(homework.id, id)).returning({ id: homework.id });
+    return deleted.length > 0;
+  }
+
+  // Homework Submissions
+  async getHomeworkSubmission(id: string): Promise<HomeworkSubmission | undefined> {
+    const [submission] = await this.db.select().from(homeworkSubmissions).where(eq(homeworkSubmissions.id, id));
+    return submission;
+  }
+
+  async getSubmissionsByHomework(homeworkId: string): Promise<HomeworkSubmission[]> {
+    return this.db.select().from(homeworkSubmissions).where(eq(homeworkSubmissions.homeworkId, homeworkId));
+  }
+
+  async getSubmissionsByStudent(studentId: string): Promise<HomeworkSubmission[]> {
+    return this.db.select().from(homeworkSubmissions).where(eq(homeworkSubmissions.studentId, studentId));
+  }
+
+  async createHomeworkSubmission(submission: InsertHomeworkSubmission): Promise<HomeworkSubmission> {
+    const [newSubmission] = await this.db.insert(homeworkSubmissions).values(submission).returning();
+    return newSubmission;
+  }
+
+  async updateHomeworkSubmission(id: string, submission: Partial<InsertHomeworkSubmission>): Promise<HomeworkSubmission | undefined> {
+    const [updated] = await this.db
+      .update(homeworkSubmissions)
+      .set(submission)
+      .where(eq(homeworkSubmissions.id, id))
+      .returning();
+    return updated;
+  }
+
+  // Uploads
+  async getUpload(id: string): Promise<Upload | undefined> {
+    const [upload] = await this.db.select().from(uploads).where(eq(uploads.id, id));
+    return upload;
+  }
+
+  async createUpload(upload: InsertUpload): Promise<Upload> {
+    const [newUpload] = await this.db.insert(uploads).values(upload).returning();
+    return newUpload;
+  }
+
+  async updateUpload(id: string, upload: Partial<InsertUpload>): Promise<Upload | undefined> {
+    const [updated] = await this.db.update(uploads).set(upload).where(eq(uploads.id, id)).returning();
+    return updated;
+  }
+
+  async deleteUpload(id: string): Promise<boolean> {
+    const deleted = await this.db.delete(uploads).where(eq(uploads.id, id)).returning({ id: uploads.id });
+    return deleted.length > 0;
+  }
+
+  // Announcements
+  async getAnnouncement(id: string): Promise<Announcement | undefined> {
+    const [announcement] = await this.db.select().from(announcements).where(eq(announcements.id, id));
+    return announcement;
+  }
+
+  async getAnnouncementsByTutor(tutorId: string): Promise<Announcement[]> {
+    return this.db.select().from(announcements).where(eq(announcements.tutorId, tutorId));
+  }
+
+  async getAnnouncementsForClasses(classIds: string[]): Promise<Announcement[]> {
+    if (classIds.length === 0) return [];
+    return this.db.select().from(announcements).where(
+      sql`${announcements.classIds}::jsonb ?| array[${sql.join(classIds.map(id => sql`${id}`), sql`, `)}]::text[]`,
+    );
+  }
+
+  async getAllAnnouncements(): Promise<Announcement[]> {
+    return this.db.select().from(announcements);
+  }
+
+  async createAnnouncement(announcement: InsertAnnouncement): Promise<Announcement> {
+    const [newAnnouncement] = await this.db
+      .insert(announcements)
+      .values(announcement as typeof announcements.$inferInsert)
+      .returning();
+    return newAnnouncement;
+  }
+
+  async updateAnnouncement(id: string, announcement: Partial<InsertAnnouncement>): Promise<Announcement | undefined> {
+    const [updated] = await this.db
+      .update(announcements)
+      .set(announcement as Partial<typeof announcements.$inferInsert>)
+      .where(eq(announcements.id, id))
+      .returning();
+    return updated;
+  }
+
+  async deleteAnnouncement(id: string): Promise<boolean> {
+    const deleted = await this.db
+      .delete(announcements)
+      .where(eq(announcements.id, id))
+      .returning({ id: announcements.id });
+    return deleted.length > 0;
+  }
+
+  // Admin-specific methods
+  async getAllUsers(): Promise<User[]> {
+    return this.db.select().from(users);
+  }
+
+  async getUsersByRole(role: string): Promise<User[]> {
+    return this.db.select().from(users).where(eq(users.role, role));
+  }
+
+  async updateUserStatus(id: string, isActive: boolean): Promise<User | undefined> {
+    const [updated] = await this.db.update(users).set({ isActive }).where(eq(users.id, id)).returning();
+    return updated;
+  }
+
+  async deleteUser(id: string): Promise<boolean> {
+    const deleted = await this.db.delete(users).where(eq(users.id, id)).returning({ id: users.id });
+    return deleted.length > 0;
+  }
+
+  // System Logs
+  async getSystemLog(id: string): Promise<SystemLog | undefined> {
+    const [log] = await this.db.select().from(systemLogs).where(eq(systemLogs.id, id));
+    return log;
+  }
+
+  async getSystemLogsByAdmin(adminId: string): Promise<SystemLog[]> {
+    return this.db.select().from(systemLogs).where(eq(systemLogs.adminId, adminId));
+  }
+
+  async getSystemLogsByAction(action: string): Promise<SystemLog[]> {
+    return this.db.select().from(systemLogs).where(eq(systemLogs.action, action));
+  }
+
+  async getAllSystemLogs(): Promise<SystemLog[]> {
+    return this.db.select().from(systemLogs).orderBy(desc(systemLogs.createdAt));
+  }
+
+  async createSystemLog(log: InsertSystemLog): Promise<SystemLog> {
+    const [newLog] = await this.db.insert(systemLogs).values(log as typeof systemLogs.$inferInsert).returning();
+    return newLog;
+  }
+
+  // Notifications
+  async getNotification(id: string): Promise<Notification | undefined> {
+    const [notification] = await this.db.select().from(notifications).where(eq(notifications.id, id));
+    return notification || undefined;
+  }
+
+  async getNotificationsByUser(userId: string): Promise<Notification[]> {
+    return this.db
+      .select()
+      .from(notifications)
+      .where(eq(notifications.userId, userId))
+      .orderBy(desc(notifications.createdAt));
+  }
+
+  async createNotification(notification: InsertNotification): Promise<Notification> {
+    const [newNotification] = await this.db.insert(notifications).values(notification).returning();
+    return newNotification;
+  }
+
+  async markNotificationRead(id: string): Promise<Notification | undefined> {
+    // Keep the first read time if it was already read
+    const [updated] = await this.db
+      .update(notifications)
+      .set({ readAt: sql`coalesce(${notifications.readAt}, now())` })
+      .where(eq(notifications.id, id))
+      .returning();
+    return updated || undefined;
+  }
+
+  async markAllNotificationsRead(userId: string): Promise<number> {
+    const updated = await this.db
+      .update(notifications)
+      .set({ readAt: new Date() })
+      .where(and(eq(notifications.userId, userId), isNull(notifications.readAt)))
+      .returning({ id: notifications.id });
+    return updated.length;
+  }
+
+  // System Settings
+  async getSystemSetting(id: string): Promise<SystemSetting | undefined> {
+    const [setting] = await this.db.select().from(systemSettings).where(eq(systemSettings.id, id));
+    return setting;
+  }
+
+  async getSystemSettingByKey(key: string): Promise<SystemSetting | undefined> {
+    const [setting] = await this.db.select().from(systemSettings).where(eq(systemSettings.key, key));
+    return setting;
+  }
+
+  async getSystemSettingsByCategory(category: string): Promise<SystemSetting[]> {
+    return this.db.select().from(systemSettings).where(eq(systemSettings.category, category));
+  }
+
+  async getAllSystemSettings(): Promise<SystemSetting[]> {
+    return this.db.select().from(systemSettings);
+  }
+
+  async createSystemSetting(setting: InsertSystemSetting): Promise<SystemSetting> {
+    const [newSetting] = await this.db.insert(systemSettings).values(setting).returning();
+    return newSetting;
+  }
+
+  async updateSystemSetting(id: string, setting: Partial<InsertSystemSetting>): Promise<SystemSetting | undefined> {
+    const [updated] = await this.db
+      .update(systemSettings)
+      .set({ ...setting, updatedAt: new Date() })
+      .where(eq(systemSettings.id, id))
+      .returning();
+    return updated;
+  }
+
+  async deleteSystemSetting(id: string): Promise<boolean> {
+    const deleted = await this.db
+      .delete(systemSettings)
+      .where(eq(systemSettings.id, id))
+      .returning({ id: systemSettings.id });
+    return deleted.length > 0;
+  }
+
+  // Admin Dashboard Stats
+  async getAdminDashboardStats(): Promise<{
+    totalUsers: number;
+    activeUsers: number;
+    totalStudents: number;
+    totalTutors: number;
+    totalParents: number;
+    totalClasses: number;
+    totalRevenue: number;
+    monthlyRevenue: number;
+  }> {
+    const monthStart = startOfMonth(new Date());
+
+    const [userStats] = await this.db.select({
+      totalUsers: count(),
+      activeUsers: sql<number>`count(*) filter (where ${users.isActive})`.mapWith(Number),
+      totalTutors: sql<number>`count(*) filter (where ${users.role} = 'tutor')`.mapWith(Number),
+      totalParents: sql<number>`count(*) filter (where ${users.role} = 'parent')`.mapWith(Number),
+    }).from(users);
+
+    const [{ totalStudents }] = await this.db.select({ totalStudents: count() }).from(students);
+    const [{ totalClasses }] = await this.db.select({ totalClasses: count() }).from(classes);
+
+    // Revenue is what the ledger received, net of refunds
+    const [revenue] = await this.db.select({
+      totalRevenue: sql<number>`coalesce(sum(${payments.amount}), 0)`.mapWith(Number),
+      monthlyRevenue: sql<number>`coalesce(sum(${payments.amount}) filter (where ${payments.paidAt} >= ${monthStart}), 0)`.mapWith(Number),
+    }).from(payments);
+
+    return {
+      ...userStats,
+      totalStudents,
+      totalClasses,
+      ...revenue,
+    };
+  }
+}
@@ -0,0 +1,14 @@
+import pg from "pg";
+import { drizzle } from "drizzle-orm/node-postgres";
+import type { PgDatabase, PgQueryResultHKT } from "drizzle-orm/pg-core";
+import * as schema from "@shared/schema";
+
+// Any Drizzle Postgres driver, so DatabaseStorage isn't tied to node-postgres
+export type Database = PgDatabase<PgQueryResultHKT, typeof schema>;
+
+// Without DATABASE_URL the server falls back to in-memory storage
+export const pool = process.env.DATABASE_URL
+  ? new pg.Pool({ connectionString: process.env.DATABASE_URL })
+  : null;
+
+export const db = pool ? drizzle(pool, { schema }) : null;
@@ -0,0 +1,86 @@
+import { type DiscountRule, type Student } from "@shared/schema";
+import { storage } from "./storage";
+import { HttpError } from "./errors";
+
+// Accepts both new rules and an existing rule merged with its updates
+interface DiscountRuleFields {
+  type: string;
+  value: string;
+  scope: string;
+  studentId?: string | null;
+  classId?: string | null;
+  startMonth?: string | null;
+  endMonth?: string | null;
+}
+
+// Checks that the rule's fields fit together; the insert schema only checks each on its own
+export function validateDiscountRule(rule: DiscountRuleFields): void {
+  if (rule.type === "percentage" && parseFloat(rule.value) > 100) {
+    throw new HttpError(400, "A percentage discount cannot exceed 100%");
+  }
+  if (rule.scope === "student" && !rule.studentId) {
+    throw new HttpError(400, "A student discount needs a student");
+  }
+  if (rule.scope === "class" && !rule.classId) {
+    throw new HttpError(400, "A class discount needs a class");
+  }
+  if (rule.startMonth && rule.endMonth && rule.startMonth > rule.endMonth) {
+    throw new HttpError(400, "The end month is before the start month");
+  }
+}
+
+export interface AppliedDiscount {
+  discount: string;
+  reason: string;
+}
+
+export type DiscountCalculator = (studentId: string, classId: string, amount: string) => AppliedDiscount | null;
+
+// Students who share a parent with an older sibling, by the order they were added
+function youngerSiblings(students: Student[]): Set<string> {
+  const byParent = new Map<string, Student[]>();
+  for (const student of students) {
+    if (!student.parentId) continue;
+    byParent.set(student.parentId, [...(byParent.get(student.parentId) ?? []), student]);
+  }
+  const ids = new Set<string>();
+  for (const children of Array.from(byParent.values())) {
+    children
+      .sort((a, b) => (a.createdAt?.getTime() ?? 0) - (b.createdAt?.getTime() ?? 0) || a.id.localeCompare(b.id))
+      .slice(1)
+      .forEach(child => ids.add(child.id));
+  }
+  return ids;
+}
+
+function appliesTo(rule: DiscountRule, studentId: string, classId: string, siblings: Set<string>): boolean {
+  if (rule.studentId && rule.studentId !== studentId) return false;
+  if (rule.classId && rule.classId !== classId) return false;
+  return rule.scope !== "sibling" || siblings.has(studentId);
+}
+
+// Loads the rules active in the month once, for use across a billing run. Every
+// matching rule counts: percentages are taken from the full amount and flat amounts
+// added on, with the total capped at the amount itself.
+export async function createDiscountCalculator(month: string): Promise<DiscountCalculator> {
+  const rules = (await storage.getAllDiscountRules()).filter(rule =>
+    rule.isActive && (!rule.startMonth || rule.startMonth <= month) && (!rule.endMonth || rule.endMonth >= month)
+  );
+  const siblings = rules.some(rule => rule.scope === "sibling")
+    ? youngerSiblings(await storage.getAllStudents())
+    : new Set<string>();
+
+  return (studentId, classId, amount) => {
+    const matching = rules.filter(rule => appliesTo(rule, studentId, classId, siblings));
+    if (matching.length === 0) return null;
+
+    const gross = Math.round(parseFloat(amount) * 100);
+    const cents = matching.reduce((total, rule) => total + (rule.type === "percentage"
+      ? Math.round(gross * parseFloat(rule.value) / 100)
+      : Math.round(parseFloat(rule.value) * 100)), 0);
+    return {
+      discount: (Math.min(cents, gross) / 100).toFixed(2),
+      reason: matching.map(rule => rule.name).join(", "),
+    };
+  };
+}
@@ -0,0 +1,117 @@
+import { startOfDay } from "date-fns";
+import { type Enrollment, type ScheduleSlot } from "@shared/schema";
+import { storage } from "./storage";
+import { HttpError } from "./errors";
+import { assertNoScheduleConflicts } from "./conflicts";
+import { notifyEnrollment } from "./notifications";
+
+// Enrollment rows are the source of truth for who belongs to a class and when.
+// classes.studentIds is kept as a cached copy of the current roster so list
+// views and scoping don't need to join through enrollments. Dates are whole days:
+// an enrollment counts from its start day and no longer counts on its end day, so
+// dated enrollments and withdrawals reach the cache through syncAllRosters().
+export async function syncRoster(classId: string): Promise<boolean> {
+  const cls = await storage.getClass(classId);
+  if (!cls) return false;
+  const roster = Array.from(new Set((await storage.getClassRoster(classId)).map(e => e.studentId)));
+  if (roster.length === cls.studentIds.length && roster.every(studentId => cls.studentIds.includes(studentId))) {
+    return false;
+  }
+  await storage.updateClass(classId, { studentIds: roster });
+  return true;
+}
+
+// Brings every cached roster up to date, returning the classes whose roster changed
+export async function syncAllRosters(): Promise<string[]> {
+  const changed: string[] = [];
+  for (const cls of await storage.getAllClasses()) {
+    if (await syncRoster(cls.id)) changed.push(cls.id);
+  }
+  return changed;
+}
+
+// Whether an enrollment is still on the roster on or after `from`, either current or dated to start later
+const runsPast = (enrollment: Enrollment, from: Date) => enrollment.endDate === null || enrollment.endDate > from;
+
+export async function enrollStudent(classId: string, studentId: string, startDate: Date = new Date()): Promise<Enrollment> {
+  const [cls, student] = await Promise.all([storage.getClass(classId), storage.getStudent(studentId)]);
+  if (!cls) throw new HttpError(404, "Class not found");
+  if (!student) throw new HttpError(404, "Student not found");
+
+  const existing = await storage.getEnrollmentsByClass(classId);
+  if (existing.some(e => e.studentId === studentId && runsPast(e, startOfDay(startDate)))) {
+    throw new HttpError(409, "Student is already enrolled in this class");
+  }
+  await assertNoScheduleConflicts({
+    excludeClassIds: [classId],
+    schedule: cls.schedule as ScheduleSlot[],
+    studentIds: [studentId],
+  });
+
+  const enrollment = await storage.createEnrollment({
+    classId,
+    studentId,
+    startDate: startOfDay(startDate),
+    status: "active",
+  });
+  await syncRoster(classId);
+  await notifyEnrollment(enrollment);
+  return enrollment;
+}
+
+export async function withdrawStudent(enrollmentId: string, endDate: Date = new Date()): Promise<Enrollment> {
+  const enrollment = await closeEnrollment(enrollmentId, endDate, "withdrawn");
+  await syncRoster(enrollment.classId);
+  return enrollment;
+}
+
+// Closes the current enrollment and opens one in the target class on the same date,
+// so the student appears on exactly one roster at any point in time.
+export async function transferStudent(
+  enrollmentId: string,
+  toClassId: string,
+  date: Date = new Date(),
+): Promise<{ from: Enrollment; to: Enrollment }> {
+  const current = await storage.getEnrollment(enrollmentId);
+  if (!current) throw new HttpError(404, "Enrollment not found");
+  if (current.classId === toClassId) {
+    throw new HttpError(400, "Student is already in this class");
+  }
+  const target = await storage.getClass(toClassId);
+  if (!target) throw new HttpError(404, "Class not found");
+
+  const targetEnrollments = await storage.getEnrollmentsByClass(toClassId);
+  if (targetEnrollments.some(e => e.studentId === current.studentId && runsPast(e, startOfDay(date)))) {
+    throw new HttpError(409, "Student is already enrolled in the target class");
+  }
+  await assertNoScheduleConflicts({
+    excludeClassIds: [current.classId, toClassId],
+    schedule: target.schedule as ScheduleSlot[],
+    studentIds: [current.studentId],
+  });
+
+  const from = await closeEnrollment(enrollmentId, date, "transferred");
+  const to = await storage.createEnrollment({
+    classId: toClassId,
+    studentId: current.studentId,
+    startDate: from.endDate!,
+    status: "active",
+  });
+  await Promise.all([syncRoster(from.classId), syncRoster(toClassId)]);
+  await notifyEnrollment(to);
+  return { from, to };
+}
+
+async function closeEnrollment(enrollmentId: string, endDate: Date, status: "withdrawn" | "transferred"): Promise<Enrollment> {
+  const enrollment = await storage.getEnrollment(enrollmentId);
+  if (!enrollment) throw new HttpError(404, "Enrollment not found");
+  if (enrollment.endDate !== null) {
+    throw new HttpError(409, "Enrollment has already ended");
+  }
+  const endDay = startOfDay(endDate);
+  if (endDay < enrollment.startDate) {
+    throw new HttpError(400, "End date cannot be before the enrollment start date");
+  }
+  const updated = await storage.updateEnrollment(enrollmentId, { endDate: endDay, status });
+  return updated!;
+}
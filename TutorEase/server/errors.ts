@@ -0,0 +1,11 @@
+// Thrown by domain modules; routes translate it into `res.status(status).json({ message, ...details })`
+export class HttpError extends Error {
+  constructor(
+    public status: number,
+    message: string,
+    public details?: Record<string, unknown>,
+  ) {
+    super(message);
+    this.name = "HttpError";
+  }
+}
@@ -0,0 +1,113 @@
+import { mkdir, readFile, rm, writeFile } from "fs/promises";
+import path from "path";
+import { DeleteObjectCommand, GetObjectCommand, PutObjectCommand, S3Client } from "@aws-sdk/client-s3";
+
+// Where uploaded file contents are kept, addressed by storage key
+export interface FileStore {
+  readonly name: string;
+  put(key: string, body: Buffer, contentType: string): Promise<void>;
+  get(key: string): Promise<Buffer>;
+  delete(key: string): Promise<void>;
+}
+
+// Files under a directory on the server's disk
+export class LocalFileStore implements FileStore {
+  readonly name = "local";
+
+  constructor(private root: string) {}
+
+  // Keys are generated by the server, but never let one point outside the root
+  private resolve(key: string): string {
+    const file = path.resolve(this.root, key);
+    if (!file.startsWith(path.resolve(this.root) + path.sep)) {
+      throw new Error(`Invalid storage key: ${key}`);
+    }
+    return file;
+  }
+
+  async put(key: string, body: Buffer): Promise<void> {
+    const file = this.resolve(key);
+    await mkdir(path.dirname(file), { recursive: true });
+    await writeFile(file, body);
+  }
+
+  get(key: string): Promise<Buffer> {
+    return readFile(this.resolve(key));
+  }
+
+  async delete(key: string): Promise<void> {
+    await rm(this.resolve(key), { force: true });
+  }
+}
+
+export interface S3FileStoreConfig {
+  bucket: string;
+  region: string;
+  endpoint?: string; // for S3-compatible services such as MinIO
+  accessKeyId?: string;
+  secretAccessKey?: string;
+}
+
+// A bucket on S3 or any S3-compatible service
+export class S3FileStore implements FileStore {
+  readonly name = "s3";
+  private client: S3Client;
+
+  constructor(private config: S3FileStoreConfig) {
+    this.client = new S3Client({
+      region: config.region,
+      endpoint: config.endpoint,
+      // MinIO and most self-hosted services don't support bucket subdomains
+      forcePathStyle: !!config.endpoint,
+      credentials: config.accessKeyId && config.secretAccessKey
+        ? { accessKeyId: config.accessKeyId, secretAccessKey: config.secretAccessKey }
+        : undefined,
+    });
+  }
+
+  async put(key: string, body: Buffer, contentType: string): Promise<void> {
+    await this.client.send(new PutObjectCommand({
+      Bucket: this.config.bucket,
+      Key: key,
+      Body: body,
+      ContentType: contentType,
+    }));
+  }
+
+  async get(key: string): Promise<Buffer> {
+    const object = await this.client.send(new GetObjectCommand({ Bucket: this.config.bucket, Key: key }));
+    if (!object.Body) throw new Error(`Empty object: ${key}`);
+    return Buffer.from(await object.Body.transformToByteArray());
+  }
+
+  async delete(key: string): Promise<void> {
+    await this.client.send(new DeleteObjectCommand({ Bucket: this.config.bucket, Key: key }));
+  }
+}
+
+// FILE_STORE=s3 keeps uploads in S3_BUCKET (S3_ENDPOINT for MinIO and the like);
+// otherwise they go to UPLOAD_DIR on local disk
+export function createFileStore(): FileStore {
+  switch (process.env.FILE_STORE) {
+    case "s3": {
+      if (!process.env.S3_BUCKET) {
+        throw new Error("S3_BUCKET must be set when FILE_STORE=s3");
+      }
+      return new S3FileStore({
+        bucket: process.env.S3_BUCKET,
+        region: process.env.S3_REGION || "us-east-1",
+        endpoint: process.env.S3_ENDPOINT,
+        accessKeyId: process.env.S3_ACCESS_KEY_ID,
+        secretAccessKey: process.env.S3_SECRET_ACCESS_KEY,
+      });
+    }
+    default:
+      return new LocalFileStore(process.env.UPLOAD_DIR ?? path.resolve("uploads"));
+  }
+}
+
+const store = createFileStore();
+
+export function getFileStore(): FileStore {
+  return store;
+}
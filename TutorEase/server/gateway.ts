@@ -0,0 +1,172 @@
+import { type IncomingHttpHeaders } from "http";
+import { type Checkout, type Fee, type User } from "@shared/schema";
+import { storage } from "./storage";
+import { HttpError } from "./errors";
+import { broadcast, admins } from "./realtime";
+import { recordPayment, summarizeFee } from "./payments";
+import { MockPaymentProvider } from "./mock-gateway";
+
+export interface CheckoutRequest {
+  checkoutId: string;
+  amount: string;
+  description: string;
+  customerEmail: string;
+  successUrl: string;
+  cancelUrl: string;
+}
+
+// The outcome of a checkout, as reported by the provider's webhook
+export type GatewayEvent =
+  | { type: "succeeded"; providerRef: string; amount: string; transactionId: string }
+  | { type: "failed"; providerRef: string; reason: string };
+
+// A payment provider's hosted checkout and the webhooks it sends back
+export interface PaymentProvider {
+  readonly name: string;
+  // Starts a hosted checkout and returns the provider's id for it and where to send the payer
+  createCheckout(request: CheckoutRequest): Promise<{ providerRef: string; url: string }>;
+  // Checks the webhook signature against the raw request body, throwing a 400 HttpError
+  // when it doesn't match. Returns null for events that don't settle a checkout.
+  verifyWebhook(rawBody: Buffer, headers: IncomingHttpHeaders): GatewayEvent | null;
+}
+
+// PAYMENT_PROVIDER=mock selects a provider; online payments are disabled when it is unset
+export function createPaymentProvider(): PaymentProvider | null {
+  switch (process.env.PAYMENT_PROVIDER) {
+    case "mock":
+      return new MockPaymentProvider(process.env.MOCK_GATEWAY_SECRET || "edumanage-mock-gateway-secret");
+    default:
+      return null;
+  }
+}
+
+const provider = createPaymentProvider();
+
+export function getPaymentProvider(): PaymentProvider | null {
+  return provider;
+}
+
+function requireProvider(): PaymentProvider {
+  if (!provider) throw new HttpError(503, "Online payments are not enabled");
+  return provider;
+}
+
+// Opens a checkout for the fee's outstanding balance. `returnUrl` gets the checkout
+// id appended so the client can show the outcome when the payer comes back.
+export async function startCheckout(
+  fee: Fee,
+  user: User,
+  returnUrl: string,
+): Promise<{ checkout: Checkout; url: string }> {
+  const gateway = requireProvider();
+  const { balance } = summarizeFee(fee, await storage.getPaymentsByFee(fee.id));
+  if (!(parseFloat(balance) > 0)) {
+    throw new HttpError(400, "This fee has nothing left to pay");
+  }
+
+  const student = await storage.getStudent(fee.studentId);
+  const checkout = await storage.createCheckout({
+    feeId: fee.id,
+    amount: balance,
+    provider: gateway.name,
+    createdBy: user.id,
+  });
+  const returnTo = (status: string) =>
+    `${returnUrl}${returnUrl.includes("?") ? "&" : "?"}checkout=${checkout.id}&status=${status}`;
+
+  try {
+    const created = await gateway.createCheckout({
+      checkoutId: checkout.id,
+      amount: balance,
+      description: `${student?.name ?? "Student"} fees for ${fee.month}`,
+      customerEmail: user.email,
+      successUrl: returnTo("success"),
+      cancelUrl: returnTo("cancelled"),
+    });
+    const updated = await storage.updateCheckout(checkout.id, { providerRef: created.providerRef });
+    return { checkout: updated!, url: created.url };
+  } catch (error) {
+    await storage.updateCheckout(checkout.id, {
+      status: "failed",
+      failureReason: "The payment provider could not start the checkout",
+      completedAt: new Date(),
+    });
+    throw error;
+  }
+}
+
+// Provider refs being settled right now, so a webhook delivered twice at once is only applied once
+const settling = new Set<string>();
+
+// Applies a verified webhook event. Events for checkouts that are already settled are
+// ignored, since providers retry deliveries.
+export async function handleGatewayEvent(event: GatewayEvent): Promise<Checkout> {
+  const checkout = await storage.getCheckoutByProviderRef(event.providerRef);
+  if (!checkout) throw new HttpError(404, "Checkout not found");
+  if (checkout.status !== "pending") return checkout;
+  if (settling.has(event.providerRef)) throw new HttpError(409, "Checkout is already being processed");
+
+  settling.add(event.providerRef);
+  try {
+    if (event.type === "failed") {
+      return (await storage.updateCheckout(checkout.id, {
+        status: "failed",
+        failureReason: event.reason,
+        completedAt: new Date(),
+      }))!;
+    }
+
+    if (Math.round(parseFloat(event.amount) * 100) !== Math.round(parseFloat(checkout.amount) * 100)) {
+      return await markUnreconciled(checkout, event, `Provider charged $${event.amount}, expected $${checkout.amount}`);
+    }
+    try {
+      const { payment } = await recordPayment(checkout.feeId, parseFloat(event.amount), {
+        method: "online",
+        reference: event.transactionId,
+        notes: `${checkout.provider} checkout ${checkout.id}`,
+        receivedBy: null,
+      });
+      return (await storage.updateCheckout(checkout.id, {
+        status: "succeeded",
+        paymentId: payment.id,
+        completedAt: new Date(),
+      }))!;
+    } catch (error) {
+      // e.g. the fee was settled by hand while the payer was at the checkout
+      if (error instanceof HttpError) {
+        return await markUnreconciled(checkout, event, error.message);
+      }
+      throw error;
+    }
+  } finally {
+    settling.delete(event.providerRef);
+  }
+}
+
+// Money was taken but couldn't be applied to the fee; flags it for an admin to sort out
+async function markUnreconciled(
+  checkout: Checkout,
+  event: Extract<GatewayEvent, { type: "succeeded" }>,
+  reason: string,
+): Promise<Checkout> {
+  const updated = await storage.updateCheckout(checkout.id, {
+    status: "failed",
+    failureReason: `Payment received but not applied: ${reason}`,
+    completedAt: new Date(),
+  });
+  const log = await storage.createSystemLog({
+    adminId: null,
+    action: "online_payment_unreconciled",
+    targetType: "fee",
+    targetId: checkout.feeId,
+    details: {
+      checkoutId: checkout.id,
+      provider: checkout.provider,
+      transactionId: event.transactionId,
+      amount: event.amount,
+      reason,
+    },
+  });
+  broadcast({ entity: "systemLogs", action: "created", id: log.id }, admins);
+  return updated!;
+}
@@ -0,0 +1,260 @@
+import {
+  type GradeSubmission, type Homework, type HomeworkBreakdown, type HomeworkGradeStats, type HomeworkStatus,
+  type HomeworkSubmission, type HomeworkSubmissionInput, type HomeworkWithCounts, type InsertHomework, type RubricScore,
+  type Student, type StudentHomework, type StudentHomeworkState, type SubmissionCounts, type Upload, type User,
+} from "@shared/schema";
+import { storage } from "./storage";
+import { HttpError } from "./errors";
+import { notifyHomeworkGraded, notifyHomeworkSubmitted } from "./notifications";
+import { discardUploads, linkUploads, resolveAttachments, uploadsIn } from "./uploads";
+
+export function homeworkState(
+  homework: Homework,
+  submission: HomeworkSubmission | null,
+  now: Date = new Date(),
+): StudentHomeworkState {
+  if (submission) return submission.status === "graded" ? "graded" : "submitted";
+  return homework.dueDate < now ? "overdue" : "due";
+}
+
+// Homework set for the classes the student is currently in, soonest due first.
+// Archived homework is left out.
+export async function listStudentHomework(student: Student): Promise<StudentHomework[]> {
+  const [classes, submissions] = await Promise.all([
+    storage.getClassesByStudent(student.id),
+    storage.getSubmissionsByStudent(student.id),
+  ]);
+  const submissionByHomework = new Map(submissions.map(submission => [submission.homeworkId, submission]));
+  const now = new Date();
+
+  const list: StudentHomework[] = [];
+  for (const cls of classes) {
+    for (const homework of await storage.getHomeworkByClass(cls.id)) {
+      if (homework.status === "archived") continue;
+      const submission = submissionByHomework.get(homework.id) ?? null;
+      list.push({ ...homework, className: cls.name, submission, state: homeworkState(homework, submission, now) });
+    }
+  }
+  return list.sort((a, b) => a.dueDate.getTime() - b.dueDate.getTime());
+}
+
+// Students expected to hand the homework in: anyone enrolled in the class at some point
+// between it being set and falling due, plus anyone who submitted after leaving
+async function expectedStudentIds(homework: Homework, submissions: HomeworkSubmission[]): Promise<string[]> {
+  const setOn = homework.assignedDate ?? homework.dueDate;
+  const enrolled = (await storage.getEnrollmentsByClass(homework.classId))
+    .filter(enrollment => enrollment.startDate <= homework.dueDate && (enrollment.endDate === null || enrollment.endDate > setOn))
+    .map(enrollment => enrollment.studentId);
+  return Array.from(new Set([...enrolled, ...submissions.map(submission => submission.studentId)]));
+}
+
+function countSubmissions(totalStudents: number, submissions: HomeworkSubmission[]): SubmissionCounts {
+  return {
+    totalStudents,
+    submittedCount: submissions.length,
+    lateCount: submissions.filter(submission => submission.isLate).length,
+    gradedCount: submissions.filter(submission => submission.status === "graded").length,
+  };
+}
+
+export async function withSubmissionCounts(homework: Homework[]): Promise<HomeworkWithCounts[]> {
+  return Promise.all(homework.map(async hw => {
+    const submissions = await storage.getSubmissionsByHomework(hw.id);
+    const students = await expectedStudentIds(hw, submissions);
+    return { ...hw, ...countSubmissions(students.length, submissions) };
+  }));
+}
+
+// Where each expected student stands, with those who haven't submitted listed first
+export async function homeworkBreakdown(homework: Homework): Promise<HomeworkBreakdown> {
+  const submissions = await storage.getSubmissionsByHomework(homework.id);
+  const studentIds = await expectedStudentIds(homework, submissions);
+  const submissionByStudent = new Map(submissions.map(submission => [submission.studentId, submission]));
+  const order = { not_submitted: 0, submitted: 1, graded: 2 };
+
+  const students = await Promise.all(studentIds.map(async studentId => {
+    const submission = submissionByStudent.get(studentId);
+    return {
+      studentId,
+      name: (await storage.getStudent(studentId))?.name ?? "Unknown student",
+      status: !submission ? "not_submitted" as const : submission.status === "graded" ? "graded" as const : "submitted" as const,
+      isLate: submission?.isLate ?? false,
+      submissionId: submission?.id ?? null,
+      submittedAt: submission?.submittedAt ?? null,
+      grade: submission?.grade ?? null,
+    };
+  }));
+  return {
+    homeworkId: homework.id,
+    ...countSubmissions(studentIds.length, submissions),
+    students: students.sort((a, b) => order[a.status] - order[b.status] || a.name.localeCompare(b.name)),
+  };
+}
+
+// Saves edits to homework. The class it was set for stays the same, the status changes
+// through changeHomeworkStatus(), and uploads dropped from the handouts are deleted.
+export async function updateHomework(
+  homework: Homework,
+  updates: Partial<InsertHomework>,
+  editor: User,
+): Promise<Homework> {
+  const { classId, status, ...changes } = updates;
+  if (changes.rubric && JSON.stringify(changes.rubric) !== JSON.stringify(homework.rubric)) {
+    const submissions = await storage.getSubmissionsByHomework(homework.id);
+    if (submissions.some(submission => submission.status === "graded")) {
+      throw new HttpError(409, "The rubric can't change once submissions have been graded");
+    }
+  }
+
+  let dropped: Upload[] = [];
+  if (changes.attachments) {
+    changes.attachments = await resolveAttachments(changes.attachments, editor, { homeworkId: homework.id });
+    const kept = new Set(changes.attachments.map(attachment => attachment.uploadId));
+    dropped = (await uploadsIn(homework.attachments)).filter(upload => !kept.has(upload.id));
+  }
+
+  const updated = await storage.updateHomework(homework.id, changes);
+  if (changes.attachments) await linkUploads(changes.attachments, { homeworkId: homework.id });
+  await discardUploads(dropped);
+  return updated!;
+}
+
+// Deletes the homework with its submissions, and the files uploaded for either
+export async function deleteHomework(homework: Homework): Promise<void> {
+  const submissions = await storage.getSubmissionsByHomework(homework.id);
+  const uploads = await uploadsIn([homework, ...submissions].flatMap(item => item.attachments));
+  await storage.deleteHomework(homework.id);
+  await discardUploads(uploads);
+}
+
+// The statuses each status can move to. Homework is closed before it is archived and
+// comes out of the archive closed, so reopening it to submissions is always its own step.
+const statusTransitions: Record<HomeworkStatus, HomeworkStatus[]> = {
+  active: ["completed"],
+  completed: ["active", "archived"],
+  archived: ["completed"],
+};
+
+export async function changeHomeworkStatus(homework: Homework, status: HomeworkStatus): Promise<Homework> {
+  if (!statusTransitions[homework.status as HomeworkStatus]?.includes(status)) {
+    throw new HttpError(409, `Homework that is ${homework.status} can't be made ${status}`);
+  }
+  return (await storage.updateHomework(homework.id, { status }))!;
+}
+
+// Active homework is finished once it is past due, something was handed in, and every
+// submission is graded. Homework nobody handed in stays active for the tutor to close.
+// Homework that takes late submissions also waits for every expected student to hand in.
+async function isFinished(homework: Homework, now: Date): Promise<boolean> {
+  if (homework.status !== "active" || homework.dueDate >= now) return false;
+  const submissions = await storage.getSubmissionsByHomework(homework.id);
+  if (submissions.length === 0 || submissions.some(submission => submission.status !== "graded")) return false;
+  if (!homework.allowLateSubmissions) return true;
+  return submissions.length >= (await expectedStudentIds(homework, submissions)).length;
+}
+
+// Marks finished homework completed, returning what changed
+export async function autoCompleteHomework(now: Date = new Date()): Promise<Homework[]> {
+  const completed: Homework[] = [];
+  for (const homework of await storage.getAllHomework()) {
+    if (await isFinished(homework, now)) {
+      completed.push((await storage.updateHomework(homework.id, { status: "completed" }))!);
+    }
+  }
+  return completed;
+}
+
+// Each student hands in once. After the due date a submission is only taken when the
+// homework allows late work, and it is flagged as late.
+export async function submitHomework(
+  homework: Homework,
+  student: Student,
+  input: HomeworkSubmissionInput,
+  submitter: User,
+): Promise<HomeworkSubmission> {
+  if (homework.status !== "active") {
+    throw new HttpError(400, "This homework is no longer taking submissions");
+  }
+  const existing = await storage.getSubmissionsByStudent(student.id);
+  if (existing.some(submission => submission.homeworkId === homework.id)) {
+    throw new HttpError(409, "You have already submitted this homework");
+  }
+  const isLate = homework.dueDate < new Date();
+  if (isLate && !homework.allowLateSubmissions) {
+    throw new HttpError(400, "The deadline for this homework has passed");
+  }
+  const attachments = await resolveAttachments(input.attachments ?? [], submitter);
+
+  const submission = await storage.createHomeworkSubmission({
+    homeworkId: homework.id,
+    studentId: student.id,
+    submissionText: input.submissionText?.trim() || null,
+    attachments,
+    isLate,
+    status: "submitted",
+  });
+  await linkUploads(attachments, { submissionId: submission.id });
+  await notifyHomeworkSubmitted(homework, student);
+  return submission;
+}
+
+// The weighted average of the criterion scores, as a whole percentage. Every
+// criterion in the rubric needs a score.
+export function rubricGrade(homework: Homework, scores: RubricScore[]): number {
+  const byCriterion = new Map(scores.map(score => [score.criterion, score.score]));
+  const missing = homework.rubric.filter(criterion => !byCriterion.has(criterion.name));
+  if (missing.length > 0) {
+    throw new HttpError(400, `Score every rubric criterion: ${missing.map(criterion => criterion.name).join(", ")}`);
+  }
+  const totalWeight = homework.rubric.reduce((total, criterion) => total + criterion.weight, 0);
+  const weighted = homework.rubric.reduce((total, criterion) => total + byCriterion.get(criterion.name)! * criterion.weight, 0);
+  return Math.round(weighted / totalWeight);
+}
+
+// Grades (or regrades) a submission. Homework with a rubric is graded per criterion
+// and the overall grade worked out from the weights; otherwise the grade is given directly.
+export async function gradeSubmission(
+  submission: HomeworkSubmission,
+  homework: Homework,
+  input: GradeSubmission,
+  grader: User,
+): Promise<HomeworkSubmission> {
+  let grade: number;
+  let rubricScores: RubricScore[] = [];
+  if (homework.rubric.length > 0) {
+    rubricScores = homework.rubric.map(criterion => input.rubricScores.find(score => score.criterion === criterion.name))
+      .filter((score): score is RubricScore => score !== undefined);
+    grade = rubricGrade(homework, rubricScores);
+  } else if (input.grade === null || input.grade === undefined) {
+    throw new HttpError(400, "A grade is required");
+  } else {
+    grade = input.grade;
+  }
+
+  const updated = await storage.updateHomeworkSubmission(submission.id, {
+    grade,
+    rubricScores,
+    feedback: input.feedback || null,
+    status: "graded",
+    gradedBy: grader.id,
+    gradedAt: new Date(),
+  });
+  const student = await storage.getStudent(submission.studentId);
+  if (student) await notifyHomeworkGraded(homework, student, grade);
+  // Grading the last submission of overdue homework finishes it without waiting for the job
+  if (await isFinished(homework, new Date())) {
+    await storage.updateHomework(homework.id, { status: "completed" });
+  }
+  return updated!;
+}
+
+export async function gradeStats(homework: Homework[]): Promise<HomeworkGradeStats> {
+  const grades = (await Promise.all(homework.map(hw => storage.getSubmissionsByHomework(hw.id))))
+    .flat()
+    .filter(submission => submission.status === "graded" && submission.grade !== null)
+    .map(submission => submission.grade!);
+  return {
+    gradedCount: grades.length,
+    averageGrade: grades.length > 0 ? Math.round(grades.reduce((total, grade) => total + grade, 0) / grades.length) : null,
+  };
+}
@@ -1,9 +1,25 @@
 import express, { type Request, Response, NextFunction } from "express";
 import { registerRoutes } from "./routes";
 import { setupVite, serveStatic, log } from "./vite";
+import { runMigrations } from "./migrate";
+import { seedDemoData } from "./seed";
+import { startJobs } from "./jobs";
+import { storage } from "./storage";
+import { db } from "./db";
+
+declare module "http" {
+  interface IncomingMessage {
+    rawBody?: Buffer;
+  }
+}
 
 const app = express();
-app.use(express.json());
+// Keeps the exact bytes of JSON bodies for checking payment webhook signatures
+app.use(express.json({
+  verify: (req, _res, buf) => {
+    req.rawBody = buf;
+  },
+}));
 app.use(express.urlencoded({ extended: false }));
 
 app.use((req, res, next) => {
@@ -37,6 +53,12 @@ app.use((req, res, next) => {
 });
 
 (async () => {
+  await runMigrations();
+  // In-memory storage starts empty on every boot; databases are seeded with `npm run db:seed`
+  if (!db) {
+    await seedDemoData(storage);
+  }
+
   const server = await registerRoutes(app);
 
   app.use((err: any, _req: Request, res: Response, _next: NextFunction) => {
@@ -67,5 +89,9 @@ app.use((req, res, next) => {
     reusePort: true,
   }, () => {
     log(`serving on port ${port}`);
+    // Background jobs are off when JOBS_DISABLED=true, e.g. on all but one of several instances
+    if (process.env.JOBS_DISABLED !== "true") {
+      startJobs();
+    }
   });
 })();
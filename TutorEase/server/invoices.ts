@@ -0,0 +1,214 @@
+import PDFDocument from "pdfkit";
+import { format } from "date-fns";
+import {
+  type FeeWithBalance, type InstituteDetails, type Payment, type Receipt, type Student, type paymentMethods,
+} from "@shared/schema";
+import { storage } from "./storage";
+import { HttpError } from "./errors";
+import { monthRange } from "./billing";
+
+// Letterhead settings; only the name has a default
+export const INSTITUTE_NAME_SETTING = "institute.name";
+export const INSTITUTE_ADDRESS_SETTING = "institute.address";
+export const INSTITUTE_PHONE_SETTING = "institute.phone";
+export const INSTITUTE_EMAIL_SETTING = "institute.email";
+
+const DEFAULT_INSTITUTE_NAME = "EduManage";
+const DATE_FORMAT = "MMM d, yyyy";
+
+const methodLabels: Record<(typeof paymentMethods)[number], string> = {
+  cash: "Cash",
+  card: "Card",
+  bank_transfer: "Bank transfer",
+  cheque: "Cheque",
+  online: "Online",
+  other: "Other",
+};
+
+export async function getInstituteDetails(): Promise<InstituteDetails> {
+  const [name, address, phone, email] = await Promise.all([
+    storage.getSystemSettingByKey(INSTITUTE_NAME_SETTING),
+    storage.getSystemSettingByKey(INSTITUTE_ADDRESS_SETTING),
+    storage.getSystemSettingByKey(INSTITUTE_PHONE_SETTING),
+    storage.getSystemSettingByKey(INSTITUTE_EMAIL_SETTING),
+  ]);
+  return {
+    name: name?.value || DEFAULT_INSTITUTE_NAME,
+    address: address?.value || null,
+    phone: phone?.value || null,
+    email: email?.value || null,
+  };
+}
+
+export const formatReceiptNumber = (number: number) => `RCT-${String(number).padStart(6, "0")}`;
+
+const monthLabel = (month: string) => format(monthRange(month).start, "MMMM yyyy");
+
+// Returns the payment's receipt, issuing the next number the first time. `fee` is the
+// fee as it stood right after the payment, for the balance printed on the receipt.
+export async function issueReceipt(payment: Payment, fee: FeeWithBalance): Promise<Receipt> {
+  const existing = await storage.getReceiptByPayment(payment.id);
+  if (existing) return existing;
+  if (parseFloat(payment.amount) <= 0) {
+    throw new HttpError(400, "Refunds do not have receipts");
+  }
+
+  const [institute, student, cls] = await Promise.all([
+    getInstituteDetails(),
+    storage.getStudent(fee.studentId),
+    storage.getClass(fee.classId),
+  ]);
+  return storage.createReceipt({
+    paymentId: payment.id,
+    snapshot: {
+      institute,
+      studentName: student?.name ?? "Unknown student",
+      className: cls?.name ?? null,
+      month: fee.month,
+      amount: payment.amount,
+      method: payment.method,
+      reference: payment.reference,
+      paidAt: payment.paidAt.toISOString(),
+      balanceAfter: fee.balance,
+    },
+  });
+}
+
+function createDocument(title: string, createdAt: Date): PDFKit.PDFDocument {
+  // The creation date also seeds the PDF file id, so a fixed date gives identical bytes
+  return new PDFDocument({ size: "A4", margin: 50, info: { Title: title, CreationDate: createdAt } });
+}
+
+function toBuffer(doc: PDFKit.PDFDocument): Promise<Buffer> {
+  return new Promise((resolve, reject) => {
+    const chunks: Buffer[] = [];
+    doc.on("data", (chunk: Buffer) => chunks.push(chunk));
+    doc.on("end", () => resolve(Buffer.concat(chunks)));
+    doc.on("error", reject);
+    doc.end();
+  });
+}
+
+function drawLetterhead(doc: PDFKit.PDFDocument, institute: InstituteDetails, heading: string, number: string, date: Date) {
+  doc.font("Helvetica-Bold").fontSize(18).text(institute.name);
+  doc.font("Helvetica").fontSize(10);
+  for (const line of [institute.address, institute.phone, institute.email]) {
+    if (line) doc.text(line);
+  }
+  doc.moveDown(1.5);
+  doc.font("Helvetica-Bold").fontSize(14).text(heading);
+  doc.font("Helvetica").fontSize(10).text(`${heading} no. ${number}`).text(`Date: ${format(date, DATE_FORMAT)}`);
+  doc.moveDown();
+}
+
+// A label on the left and an amount or value right-aligned on the same line
+function drawRow(doc: PDFKit.PDFDocument, label: string, value: string, bold = false) {
+  const y = doc.y;
+  doc.font(bold ? "Helvetica-Bold" : "Helvetica").fontSize(10);
+  doc.text(label, 50, y, { width: 200 });
+  doc.text(value, 255, y, { width: 290, align: "right" });
+  doc.x = 50;
+  doc.moveDown(0.3);
+}
+
+function drawRule(doc: PDFKit.PDFDocument) {
+  doc.moveTo(50, doc.y).lineTo(545, doc.y).strokeColor("#cccccc").stroke();
+  doc.moveDown(0.5);
+}
+
+const money = (amount: string | number) => `$${(typeof amount === "string" ? parseFloat(amount) : amount).toFixed(2)}`;
+
+export async function renderReceipt(receipt: Receipt): Promise<Buffer> {
+  const { snapshot } = receipt;
+  const number = formatReceiptNumber(receipt.number);
+  const doc = createDocument(`Receipt ${number}`, receipt.issuedAt);
+
+  drawLetterhead(doc, snapshot.institute, "Receipt", number, receipt.issuedAt);
+  drawRow(doc, "Received from", snapshot.studentName);
+  drawRow(doc, "For", [snapshot.className, monthLabel(snapshot.month)].filter(Boolean).join(", "));
+  drawRow(doc, "Payment date", format(new Date(snapshot.paidAt), DATE_FORMAT));
+  drawRow(doc, "Method", methodLabels[snapshot.method as keyof typeof methodLabels] ?? snapshot.method);
+  if (snapshot.reference) drawRow(doc, "Reference", snapshot.reference);
+  doc.moveDown();
+  drawRule(doc);
+  drawRow(doc, "Amount received", money(snapshot.amount), true);
+  drawRow(doc, "Balance remaining", money(snapshot.balanceAfter));
+
+  return toBuffer(doc);
+}
+
+// One invoice covers one or more of a student's fees for the same month
+export interface Invoice {
+  number: string;
+  studentId: string;
+  month: string;
+  fees: FeeWithBalance[];
+}
+
+export function feeInvoice(fee: FeeWithBalance): Invoice {
+  return { number: `INV-${fee.id.slice(0, 8).toUpperCase()}`, studentId: fee.studentId, month: fee.month, fees: [fee] };
+}
+
+// Groups fees into one invoice per student per month
+export function studentInvoices(fees: FeeWithBalance[]): Invoice[] {
+  const invoices = new Map<string, Invoice>();
+  for (const fee of fees) {
+    const key = `${fee.studentId}:${fee.month}`;
+    const invoice = invoices.get(key) ?? {
+      number: `INV-${fee.month.replace("-", "")}-${fee.studentId.slice(0, 8).toUpperCase()}`,
+      studentId: fee.studentId,
+      month: fee.month,
+      fees: [],
+    };
+    invoice.fees.push(fee);
+    invoices.set(key, invoice);
+  }
+  return Array.from(invoices.values());
+}
+
+const sumOf = (fees: FeeWithBalance[], field: "amountDue" | "paid" | "balance") =>
+  fees.reduce((total, fee) => total + Math.round(parseFloat(fee[field]) * 100), 0) / 100;
+
+// Invoices reflect the fees as they are now, one page each in a single PDF
+export async function renderInvoices(invoices: Invoice[]): Promise<Buffer> {
+  const institute = await getInstituteDetails();
+  const now = new Date();
+  const doc = createDocument(invoices.length === 1 ? `Invoice ${invoices[0].number}` : "Invoices", now);
+  const students = new Map<string, Student | undefined>();
+  const classNames = new Map<string, string>();
+
+  for (const invoice of invoices) {
+    if (invoice !== invoices[0]) doc.addPage();
+    if (!students.has(invoice.studentId)) {
+      students.set(invoice.studentId, await storage.getStudent(invoice.studentId));
+    }
+    const student = students.get(invoice.studentId);
+
+    drawLetterhead(doc, institute, "Invoice", invoice.number, now);
+    drawRow(doc, "Bill to", student ? `${student.name} (${student.grade})` : "Unknown student");
+    drawRow(doc, "Billing period", monthLabel(invoice.month));
+    const dueDate = invoice.fees.map(fee => fee.dueDate).sort((a, b) => a.getTime() - b.getTime())[0];
+    drawRow(doc, "Due date", format(dueDate, DATE_FORMAT));
+    doc.moveDown();
+    drawRule(doc);
+
+    for (const fee of invoice.fees) {
+      if (!classNames.has(fee.classId)) {
+        classNames.set(fee.classId, (await storage.getClass(fee.classId))?.name ?? "Class");
+      }
+      if (fee.discount) {
+        drawRow(doc, `${classNames.get(fee.classId)} tuition`, money(parseFloat(fee.amount) + parseFloat(fee.discount)));
+        drawRow(doc, `Less ${fee.discountReason ?? "discount"}`, `-${money(fee.discount)}`);
+      } else {
+        drawRow(doc, `${classNames.get(fee.classId)} tuition`, money(fee.amount));
+      }
+      if (fee.lateFee) drawRow(doc, `${classNames.get(fee.classId)} late fee`, money(fee.lateFee));
+    }
+    drawRule(doc);
+    drawRow(doc, "Total", money(sumOf(invoice.fees, "amountDue")));
+    drawRow(doc, "Paid to date", money(sumOf(invoice.fees, "paid")));
+    drawRow(doc, "Balance due", money(sumOf(invoice.fees, "balance")), true);
+  }
+
+  return toBuffer(doc);
+}
@@ -0,0 +1,97 @@
+import { format } from "date-fns";
+import { storage } from "./storage";
+import { log } from "./vite";
+import { broadcast } from "./realtime";
+import { runBilling } from "./billing";
+import { runOverdueCheck } from "./overdue";
+import { autoCompleteHomework } from "./homework";
+import { syncAllRosters } from "./enrollment";
+
+// Set to "false" to stop the monthly billing run from creating fees on its own
+export const BILLING_AUTO_RUN_SETTING = "billing.auto_run";
+
+interface Job {
+  name: string;
+  intervalMs: number;
+  run: () => Promise<void>;
+}
+
+const HOUR = 60 * 60 * 1000;
+
+const jobs: Job[] = [
+  {
+    // Enrollments and withdrawals can be dated ahead; this moves students onto and off
+    // the cached class rosters (which scoping reads) on the day they take effect
+    name: "rosters",
+    intervalMs: HOUR,
+    run: async () => {
+      const changed = await syncAllRosters();
+      for (const classId of changed) {
+        broadcast({ entity: "classes", action: "updated", id: classId }, { classIds: [classId] });
+      }
+      if (changed.length > 0) {
+        log(`rosters: updated ${changed.length} classes`, "jobs");
+      }
+    },
+  },
+  {
+    // Bills the current month. The run is idempotent, so repeating it hourly only
+    // picks up students who enrolled since the last run.
+    name: "billing",
+    intervalMs: HOUR,
+    run: async () => {
+      const setting = await storage.getSystemSettingByKey(BILLING_AUTO_RUN_SETTING);
+      if (setting?.value === "false") return;
+      const result = await runBilling(format(new Date(), "yyyy-MM"));
+      if (result.created.length > 0) {
+        log(`billing ${result.month}: created ${result.created.length} fees totalling $${result.total}`, "jobs");
+      }
+    },
+  },
+  {
+    // Marks fees overdue the day after they fall due and adds late fees per the settings
+    name: "overdue",
+    intervalMs: HOUR,
+    run: async () => {
+      const result = await runOverdueCheck();
+      if (result.changes.length > 0) {
+        log(`overdue: ${result.markedOverdue} fees overdue, ${result.lateFeesApplied} late fees applied`, "jobs");
+      }
+    },
+  },
+  {
+    // Completes homework once it is past due and everything handed in has been graded
+    name: "homework",
+    intervalMs: HOUR,
+    run: async () => {
+      const completed = await autoCompleteHomework();
+      for (const homework of completed) {
+        broadcast({ entity: "homework", action: "updated", id: homework.id }, { classIds: [homework.classId], userIds: [homework.tutorId] });
+      }
+      if (completed.length > 0) {
+        log(`homework: completed ${completed.length} assignments`, "jobs");
+      }
+    },
+  },
+];
+
+// Runs each job once at startup and then on its interval. A job never overlaps
+// itself, and a failure is logged and retried on the next tick.
+export function startJobs(): void {
+  for (const job of jobs) {
+    let running = false;
+    const tick = async () => {
+      if (running) return;
+      running = true;
+      try {
+        await job.run();
+      } catch (error) {
+        console.error(`Job "${job.name}" failed:`, error);
+      } finally {
+        running = false;
+      }
+    };
+    setTimeout(tick, 0);
+    setInterval(tick, job.intervalMs).unref();
+  }
+}
@@ -0,0 +1,52 @@
+import { appendFile, mkdir } from "fs/promises";
+import path from "path";
+
+export interface MailMessage {
+  to: string;
+  subject: string;
+  text: string;
+}
+
+// How notification emails leave the server (see MAIL_TRANSPORT below)
+export interface MailTransport {
+  send(message: MailMessage): Promise<void>;
+}
+
+// Prints messages to the server log; handy in development
+export class ConsoleMailTransport implements MailTransport {
+  async send(message: MailMessage): Promise<void> {
+    console.log(`[mail] to=${message.to} subject="${message.subject}"\n${message.text}`);
+  }
+}
+
+// Appends each message as a JSON line, standing in for a real outbox
+export class FileMailTransport implements MailTransport {
+  constructor(private filePath: string) {}
+
+  async send(message: MailMessage): Promise<void> {
+    await mkdir(path.dirname(this.filePath), { recursive: true });
+    await appendFile(this.filePath, JSON.stringify({ ...message, sentAt: new Date().toISOString() }) + "\n");
+  }
+}
+
+// MAIL_TRANSPORT=console|file selects a transport; email is disabled when it is unset
+export function createMailTransport(): MailTransport | null {
+  switch (process.env.MAIL_TRANSPORT) {
+    case "console":
+      return new ConsoleMailTransport();
+    case "file":
+      return new FileMailTransport(process.env.MAIL_OUTBOX_FILE ?? path.resolve("mail-outbox.jsonl"));
+    default:
+      return null;
+  }
+}
+
+const transport = createMailTransport();
+
+// Not awaited: a message that fails to send is logged and dropped
+export function queueMail(message: MailMessage): void {
+  if (!transport) return;
+  transport.send(message).catch(error => {
+    console.error("Failed to send mail:", error);
+  });
+}
@@ -0,0 +1,25 @@
+import path from "path";
+import { fileURLToPath } from "url";
+import { migrate } from "drizzle-orm/node-postgres/migrator";
+import { db, pool } from "./db";
+
+// Generated with `npm run db:generate`; resolves from both server/ and the bundled dist/
+const migrationsFolder = path.resolve(import.meta.dirname, "..", "migrations");
+
+// Applies pending migrations; a no-op for in-memory storage
+export async function runMigrations() {
+  if (!db) return;
+  await migrate(db, { migrationsFolder });
+}
+
+if (process.argv[1] === fileURLToPath(import.meta.url)) {
+  runMigrations()
+    .then(() => {
+      console.log("Migrations applied");
+      return pool?.end();
+    })
+    .catch((error) => {
+      console.error("Migration failed:", error);
+      process.exit(1);
+    });
+}
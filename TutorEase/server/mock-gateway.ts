@@ -0,0 +1,127 @@
+import { createHmac, randomUUID, timingSafeEqual } from "crypto";
+import { type IncomingHttpHeaders } from "http";
+import { Router } from "express";
+import { HttpError } from "./errors";
+import type { CheckoutRequest, GatewayEvent, PaymentProvider } from "./gateway";
+
+export const MOCK_SIGNATURE_HEADER = "x-mock-signature";
+// Signed webhooks older than this are rejected, so a captured request can't be replayed later
+const SIGNATURE_TOLERANCE_SECONDS = 5 * 60;
+
+const escapeHtml = (text: string) =>
+  text.replace(/[&<>"']/g, char => `&#${char.charCodeAt(0)};`);
+
+// A stand-in for a hosted payment page, for local testing. Checkouts live in memory;
+// the page at the checkout url lets the payer approve or decline, which sends a signed
+// webhook to /api/payments/webhook the way a real provider would.
+export class MockPaymentProvider implements PaymentProvider {
+  readonly name = "mock";
+  private checkouts = new Map<string, CheckoutRequest>();
+
+  constructor(private secret: string) {}
+
+  async createCheckout(request: CheckoutRequest): Promise<{ providerRef: string; url: string }> {
+    const providerRef = `mock_${randomUUID()}`;
+    this.checkouts.set(providerRef, request);
+    return { providerRef, url: `/api/payments/mock/${providerRef}` };
+  }
+
+  private digest(body: string, timestamp: number): string {
+    return createHmac("sha256", this.secret).update(`${timestamp}.${body}`).digest("hex");
+  }
+
+  // Header value in the form "t=<unix seconds>,v1=<hex HMAC-SHA256 of `${t}.${body}`>"
+  sign(body: string, timestamp = Math.floor(Date.now() / 1000)): string {
+    return `t=${timestamp},v1=${this.digest(body, timestamp)}`;
+  }
+
+  verifyWebhook(rawBody: Buffer, headers: IncomingHttpHeaders): GatewayEvent | null {
+    const fields = new Map(
+      String(headers[MOCK_SIGNATURE_HEADER] ?? "").split(",").map(part => part.split("=", 2) as [string, string])
+    );
+    const timestamp = Number(fields.get("t"));
+    const signature = Buffer.from(fields.get("v1") ?? "");
+    const body = rawBody.toString("utf8");
+    const fresh = Number.isInteger(timestamp)
+      && Math.abs(Date.now() / 1000 - timestamp) <= SIGNATURE_TOLERANCE_SECONDS;
+    const expected = Buffer.from(fresh ? this.digest(body, timestamp) : "");
+    if (!fresh || signature.length !== expected.length || !timingSafeEqual(signature, expected)) {
+      throw new HttpError(400, "Invalid webhook signature");
+    }
+
+    let payload: Record<string, any>;
+    try {
+      payload = JSON.parse(body);
+    } catch {
+      throw new HttpError(400, "Invalid webhook payload");
+    }
+    switch (payload.type) {
+      case "checkout.completed":
+        return {
+          type: "succeeded",
+          providerRef: String(payload.checkout),
+          amount: String(payload.amount),
+          transactionId: String(payload.transaction),
+        };
+      case "checkout.declined":
+        return { type: "failed", providerRef: String(payload.checkout), reason: String(payload.reason ?? "Payment declined") };
+      default:
+        return null;
+    }
+  }
+
+  // The hosted checkout page and the approve/decline form it posts back to
+  router(): Router {
+    const router = Router();
+
+    router.get("/:ref", (req, res) => {
+      const checkout = this.checkouts.get(req.params.ref);
+      if (!checkout) {
+        return res.status(404).send("Checkout not found or already completed");
+      }
+      res.send(`<!doctype html>
+<html>
+<head><title>Mock checkout</title><meta name="viewport" content="width=device-width, initial-scale=1"></head>
+<body style="font-family: sans-serif; max-width: 28rem; margin: 4rem auto; padding: 0 1rem">
+  <p style="color: #b45309">Test payment page &mdash; no money is taken.</p>
+  <h1>Pay $${escapeHtml(checkout.amount)}</h1>
+  <p>${escapeHtml(checkout.description)}</p>
+  <p>Billed to ${escapeHtml(checkout.customerEmail)}</p>
+  <form method="post">
+    <button name="outcome" value="approve">Pay now</button>
+    <button name="outcome" value="decline">Decline</button>
+  </form>
+</body>
+</html>`);
+    });
+
+    router.post("/:ref", async (req, res) => {
+      const checkout = this.checkouts.get(req.params.ref);
+      if (!checkout) {
+        return res.status(404).send("Checkout not found or already completed");
+      }
+      const approved = req.body.outcome === "approve";
+      const body = JSON.stringify(approved
+        ? { type: "checkout.completed", checkout: req.params.ref, amount: checkout.amount, transaction: `mock_txn_${randomUUID()}` }
+        : { type: "checkout.declined", checkout: req.params.ref, reason: "Declined on the test payment page" });
+
+      try {
+        const response = await fetch(`http://127.0.0.1:${req.socket.localPort}/api/payments/webhook`, {
+          method: "POST",
+          headers: { "Content-Type": "application/json", [MOCK_SIGNATURE_HEADER]: this.sign(body) },
+          body,
+        });
+        if (!response.ok) {
+          return res.status(502).send(`The webhook was rejected: ${escapeHtml(await response.text())}`);
+        }
+      } catch (error) {
+        console.error("Mock gateway webhook failed:", error);
+        return res.status(502).send("The webhook could not be delivered");
+      }
+      this.checkouts.delete(req.params.ref);
+      res.redirect(approved ? checkout.successUrl : checkout.cancelUrl);
+    });
+
+    return router;
+  }
+}
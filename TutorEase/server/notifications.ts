@@ -0,0 +1,105 @@
+import {
+  type Announcement, type Enrollment, type FeeWithBalance, type Homework, type Payment, type Student,
+  type Notification, type InsertNotification,
+} from "@shared/schema";
+import { storage } from "./storage";
+import { resolveScope, canAccessAnnouncement } from "./scope";
+import { broadcast } from "./realtime";
+
+// Stores a notification and pushes it to the recipient's open sessions
+export async function sendNotification(notification: InsertNotification): Promise<Notification> {
+  const created = await storage.createNotification(notification);
+  broadcast({ entity: "notifications", action: "created", id: created.id }, { userIds: [created.userId] });
+  return created;
+}
+
+interface NotificationContent {
+  type: string;
+  title: string;
+  message: string;
+}
+
+// Creates the same in-app notification for each active recipient
+async function notify(userIds: (string | null | undefined)[], content: NotificationContent): Promise<void> {
+  for (const userId of Array.from(new Set(userIds))) {
+    if (!userId) continue;
+    const user = await storage.getUser(userId);
+    if (!user || !user.isActive) continue;
+    await sendNotification({ userId, ...content });
+  }
+}
+
+// Notifications are sent after the change they describe is saved, so a failure
+// is logged rather than failing the request
+async function safely(label: string, send: () => Promise<void>): Promise<void> {
+  try {
+    await send();
+  } catch (error) {
+    console.error(`Failed to send ${label} notification:`, error);
+  }
+}
+
+// The student's own login and their parent
+const studentRecipients = (student: Student) => [student.userId, student.parentId];
+
+export function notifyEnrollment(enrollment: Enrollment): Promise<void> {
+  return safely("enrollment", async () => {
+    const [cls, student] = await Promise.all([
+      storage.getClass(enrollment.classId),
+      storage.getStudent(enrollment.studentId),
+    ]);
+    if (!cls || !student) return;
+    await notify(studentRecipients(student), {
+      type: "enrollment",
+      title: "New class enrollment",
+      message: `${student.name} was enrolled in ${cls.name}.`,
+    });
+  });
+}
+
+export function notifyPaymentReceived(fee: FeeWithBalance, payment: Payment): Promise<void> {
+  return safely("fee payment", async () => {
+    const student = await storage.getStudent(fee.studentId);
+    if (!student) return;
+    const balance = parseFloat(fee.balance) > 0 ? ` The remaining balance is $${fee.balance}.` : " The fee is now fully paid.";
+    await notify(studentRecipients(student), {
+      type: "fee_payment",
+      title: "Fee payment received",
+      message: `Payment of $${payment.amount} for ${student.name} (${fee.month}) was received.${balance}`,
+    });
+  });
+}
+
+export function notifyHomeworkSubmitted(homework: Homework, student: Student): Promise<void> {
+  return safely("homework submission", () => notify([homework.tutorId], {
+    type: "homework_submission",
+    title: "Homework submitted",
+    message: `${student.name} submitted "${homework.title}".`,
+  }));
+}
+
+export function notifyHomeworkGraded(homework: Homework, student: Student, grade: number): Promise<void> {
+  return safely("homework grade", () => notify(studentRecipients(student), {
+    type: "homework_graded",
+    title: "Homework graded",
+    message: `${student.name}'s "${homework.title}" was graded ${grade}%.`,
+  }));
+}
+
+// Everyone who can see the announcement, apart from its author
+export function notifyAnnouncement(announcement: Announcement): Promise<void> {
+  return safely("announcement", async () => {
+    const recipients: string[] = [];
+    for (const user of await storage.getAllUsers()) {
+      if (user.id === announcement.tutorId || !user.isActive) continue;
+      if (canAccessAnnouncement(await resolveScope(user), announcement)) {
+        recipients.push(user.id);
+      }
+    }
+    await notify(recipients, {
+      type: "announcement",
+      title: announcement.isImportant ? `Important: ${announcement.title}` : announcement.title,
+      message: announcement.message,
+    });
+  });
+}
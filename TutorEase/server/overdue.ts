@@ -0,0 +1,111 @@
+import { differenceInCalendarDays } from "date-fns";
+import { type Fee, type OverdueChange, type OverdueRunResult } from "@shared/schema";
+import { storage } from "./storage";
+import { broadcast, admins } from "./realtime";
+import { withBalances } from "./payments";
+
+// Late fee rules, all optional system settings:
+//   fees.late_fee_type        "flat" | "percentage"; no late fee when unset or anything else
+//   fees.late_fee_amount      dollars for flat fees, percent of the fee amount for percentage fees
+//   fees.late_fee_grace_days  days past the due date before the late fee is added (default 0)
+export const LATE_FEE_TYPE_SETTING = "fees.late_fee_type";
+export const LATE_FEE_AMOUNT_SETTING = "fees.late_fee_amount";
+export const LATE_FEE_GRACE_DAYS_SETTING = "fees.late_fee_grace_days";
+
+interface LateFeeRule {
+  type: "flat" | "percentage";
+  amount: number;
+  graceDays: number;
+}
+
+async function getLateFeeRule(): Promise<LateFeeRule | null> {
+  const [type, amount, graceDays] = await Promise.all([
+    storage.getSystemSettingByKey(LATE_FEE_TYPE_SETTING),
+    storage.getSystemSettingByKey(LATE_FEE_AMOUNT_SETTING),
+    storage.getSystemSettingByKey(LATE_FEE_GRACE_DAYS_SETTING),
+  ]);
+  const value = amount ? Number(amount.value) : NaN;
+  if ((type?.value !== "flat" && type?.value !== "percentage") || !(value > 0)) return null;
+  const grace = graceDays ? Number(graceDays.value) : NaN;
+  return {
+    type: type.value,
+    amount: value,
+    graceDays: Number.isInteger(grace) && grace >= 0 ? grace : 0,
+  };
+}
+
+function lateFeeFor(fee: Fee, rule: LateFeeRule): string {
+  const amount = rule.type === "flat" ? rule.amount : parseFloat(fee.amount) * rule.amount / 100;
+  return (Math.round(amount * 100) / 100).toFixed(2);
+}
+
+// What the overdue check would do today: pending fees past their due date become
+// overdue, and fees not fully paid by the end of the grace period get the late fee once.
+// Fees with nothing left to pay are never overdue, whatever their status says.
+async function planOverdueChanges(now: Date): Promise<OverdueChange[]> {
+  const rule = await getLateFeeRule();
+  const changes: OverdueChange[] = [];
+
+  for (const fee of await withBalances(await storage.getAllFees())) {
+    if (fee.status !== "pending" && fee.status !== "overdue" && fee.status !== "partially_paid") continue;
+    if (parseFloat(fee.balance) <= 0) continue;
+    const daysPastDue = differenceInCalendarDays(now, fee.dueDate);
+    if (daysPastDue <= 0) continue;
+
+    const markOverdue = fee.status === "pending";
+    const lateFee = rule && fee.lateFee === null && daysPastDue > rule.graceDays ? lateFeeFor(fee, rule) : null;
+    if (markOverdue || lateFee) {
+      changes.push({ feeId: fee.id, studentId: fee.studentId, month: fee.month, daysPastDue, markOverdue, lateFee });
+    }
+  }
+  return changes;
+}
+
+// Applies the plan unless dryRun is set. Each change is recorded in the system log
+// as an action taken by the system (no admin).
+export async function runOverdueCheck(options: { dryRun?: boolean; now?: Date } = {}): Promise<OverdueRunResult> {
+  const now = options.now ?? new Date();
+  const dryRun = options.dryRun ?? false;
+  const changes = await planOverdueChanges(now);
+
+  if (!dryRun) {
+    for (const change of changes) {
+      await storage.updateFee(change.feeId, {
+        ...(change.markOverdue ? { status: "overdue" } : {}),
+        ...(change.lateFee ? { lateFee: change.lateFee } : {}),
+      });
+      if (change.markOverdue) {
+        await storage.createSystemLog({
+          adminId: null,
+          action: "fee_overdue",
+          targetType: "fee",
+          targetId: change.feeId,
+          details: { month: change.month, daysPastDue: change.daysPastDue },
+        });
+      }
+      if (change.lateFee) {
+        await storage.createSystemLog({
+          adminId: null,
+          action: "late_fee_applied",
+          targetType: "fee",
+          targetId: change.feeId,
+          details: { month: change.month, lateFee: change.lateFee },
+        });
+      }
+    }
+    if (changes.length > 0) {
+      broadcast({ entity: "fees", action: "updated" }, {
+        studentIds: Array.from(new Set(changes.map(change => change.studentId))),
+      });
+      broadcast({ entity: "systemLogs", action: "created" }, admins);
+    }
+  }
+
+  return {
+    dryRun,
+    checkedAt: now,
+    changes,
+    markedOverdue: changes.filter(change => change.markOverdue).length,
+    lateFeesApplied: changes.filter(change => change.lateFee).length,
+  };
+}
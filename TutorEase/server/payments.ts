@@ -0,0 +1,126 @@
+import { differenceInCalendarDays } from "date-fns";
+import { type Fee, type FeeWithBalance, type InsertFee, type InsertPayment, type Payment, type Receipt } from "@shared/schema";
+import { storage, type IStorage } from "./storage";
+import { HttpError } from "./errors";
+import { broadcast } from "./realtime";
+import { notifyPaymentReceived } from "./notifications";
+import { issueReceipt } from "./invoices";
+
+// Ledger amounts are summed in cents to avoid floating point drift
+const toCents = (amount: string | null) => Math.round(parseFloat(amount ?? "0") * 100);
+const fromCents = (cents: number) => (cents / 100).toFixed(2);
+
+// Totals a list of decimal amounts for reports, rounded to the cent
+export function sumAmounts(amounts: string[]): number {
+  return amounts.reduce((total, amount) => total + toCents(amount), 0) / 100;
+}
+
+export function summarizeFee(fee: Fee, ledger: Payment[]): FeeWithBalance {
+  const due = toCents(fee.amount) + toCents(fee.lateFee);
+  const paid = ledger.reduce((sum, payment) => sum + toCents(payment.amount), 0);
+  return { ...fee, amountDue: fromCents(due), paid: fromCents(paid), balance: fromCents(due - paid) };
+}
+
+// Every fee with its ledger totals, loading all payments in one query
+export async function withBalances(fees: Fee[]): Promise<FeeWithBalance[]> {
+  const byFee = new Map<string, Payment[]>();
+  for (const payment of await storage.getAllPayments()) {
+    byFee.set(payment.feeId, [...(byFee.get(payment.feeId) ?? []), payment]);
+  }
+  return fees.map(fee => summarizeFee(fee, byFee.get(fee.id) ?? []));
+}
+
+// Status follows the ledger: settled fees are paid, fees with some money against
+// them are partially paid, and fees refunded back to nothing return to pending or
+// overdue depending on the due date. A fee with nothing due (fully discounted) is paid.
+async function syncFeeStatus(fee: Fee, store: IStorage = storage): Promise<FeeWithBalance> {
+  const ledger = await store.getPaymentsByFee(fee.id);
+  const summary = summarizeFee(fee, ledger);
+  const paid = toCents(summary.paid);
+
+  let status: string;
+  let paidDate: Date | null = null;
+  if ((paid > 0 || toCents(summary.amountDue) === 0) && toCents(summary.balance) <= 0) {
+    status = "paid";
+    paidDate = ledger.filter(payment => toCents(payment.amount) > 0).at(-1)?.paidAt ?? fee.paidDate ?? new Date();
+  } else if (paid > 0) {
+    status = "partially_paid";
+  } else {
+    status = differenceInCalendarDays(new Date(), fee.dueDate) > 0 ? "overdue" : "pending";
+  }
+
+  const updated = await store.updateFee(fee.id, { status, paidDate });
+  return summarizeFee(updated!, ledger);
+}
+
+type PaymentDetails = Pick<InsertPayment, "method" | "reference" | "notes" | "paidAt" | "receivedBy">;
+
+export async function recordPayment(
+  feeId: string,
+  amount: number,
+  details: PaymentDetails,
+): Promise<{ payment: Payment; fee: FeeWithBalance; receipt: Receipt | null }> {
+  const cents = Math.round(amount * 100);
+  if (cents <= 0) throw new HttpError(400, "Payment amount must be positive");
+  // Locked so two payments at once can't both fit the same balance
+  const { payment, fee } = await storage.withFeeLock(feeId, async locked => {
+    const fee = await locked.getFee(feeId);
+    if (!fee) throw new HttpError(404, "Fee not found");
+    const balance = toCents(summarizeFee(fee, await locked.getPaymentsByFee(fee.id)).balance);
+    if (cents > balance) {
+      throw new HttpError(400, `Payment exceeds the outstanding balance of $${fromCents(balance)}`);
+    }
+    const payment = await locked.createPayment({ ...details, feeId: fee.id, amount: fromCents(cents) });
+    return { payment, fee: await syncFeeStatus(fee, locked) };
+  });
+  // The payment stands even if numbering the receipt fails; it is issued again on download
+  const receipt = await issueReceipt(payment, fee).catch(error => {
+    console.error("Failed to issue receipt:", error);
+    return null;
+  });
+  await notifyPaymentReceived(fee, payment);
+  broadcast({ entity: "fees", action: "updated", id: fee.id }, { studentIds: [fee.studentId] });
+  return { payment, fee, receipt };
+}
+
+// Refunds are stored as negative payments and can't take more back than was paid
+export async function refundPayment(
+  feeId: string,
+  amount: number,
+  details: PaymentDetails,
+): Promise<{ payment: Payment; fee: FeeWithBalance }> {
+  const cents = Math.round(amount * 100);
+  if (cents <= 0) throw new HttpError(400, "Refund amount must be positive");
+  const { payment, fee } = await storage.withFeeLock(feeId, async locked => {
+    const fee = await locked.getFee(feeId);
+    if (!fee) throw new HttpError(404, "Fee not found");
+    const paid = toCents(summarizeFee(fee, await locked.getPaymentsByFee(fee.id)).paid);
+    if (cents > paid) {
+      throw new HttpError(400, `Refund exceeds the $${fromCents(paid)} paid so far`);
+    }
+    const payment = await locked.createPayment({ ...details, feeId: fee.id, amount: fromCents(-cents) });
+    return { payment, fee: await syncFeeStatus(fee, locked) };
+  });
+  broadcast({ entity: "fees", action: "updated", id: fee.id }, { studentIds: [fee.studentId] });
+  return { payment, fee };
+}
+
+type FeeChanges = Partial<Pick<InsertFee, "amount" | "lateFee" | "month" | "dueDate">>;
+
+// Edits what a fee charges. It can't drop below what has already been paid, and its
+// status is worked out again from the ledger afterwards.
+export async function reviseFee(feeId: string, changes: FeeChanges): Promise<FeeWithBalance> {
+  const revised = await storage.withFeeLock(feeId, async locked => {
+    const fee = await locked.getFee(feeId);
+    if (!fee) throw new HttpError(404, "Fee not found");
+    const paid = toCents(summarizeFee(fee, await locked.getPaymentsByFee(fee.id)).paid);
+    const due = toCents(changes.amount ?? fee.amount) + toCents(changes.lateFee === undefined ? fee.lateFee : changes.lateFee);
+    if (due < paid) {
+      throw new HttpError(400, `The fee can't be less than the $${fromCents(paid)} paid so far`);
+    }
+    const updated = await locked.updateFee(fee.id, changes);
+    return syncFeeStatus(updated!, locked);
+  });
+  broadcast({ entity: "fees", action: "updated", id: revised.id }, { studentIds: [revised.studentId] });
+  return revised;
+}
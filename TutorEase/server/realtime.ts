@@ -0,0 +1,119 @@
+import type { IncomingMessage, Server } from "http";
+import type { Duplex } from "stream";
+import type { Request, RequestHandler, Response } from "express";
+import { WebSocketServer, WebSocket } from "ws";
+import { type ChangeEvent, type UserRole } from "@shared/schema";
+import { storage } from "./storage";
+import { type DataScope, resolveScope, canAccessClass, canAccessStudent } from "./scope";
+
+export const REALTIME_PATH = "/ws";
+const HEARTBEAT_INTERVAL = 30_000;
+
+// Who may hear about a change: a user receives it when any listed condition matches
+// them. Class and student ids are checked against the user's scope, so admins match
+// any non-empty list. Deletions can't be scoped by the removed row, so they name the
+// affected users directly.
+export interface Audience {
+  userIds?: (string | null)[];
+  roles?: UserRole[];
+  classIds?: string[];
+  studentIds?: string[];
+}
+
+export const admins: Audience = { roles: ["admin"] };
+
+interface Client {
+  socket: WebSocket;
+  userId: string;
+  alive: boolean;
+}
+
+const clients = new Set<Client>();
+
+function canSee(scope: DataScope, audience: Audience): boolean {
+  return (
+    (audience.userIds ?? []).includes(scope.user.id) ||
+    (audience.roles ?? []).includes(scope.user.role as UserRole) ||
+    (audience.classIds ?? []).some(classId => canAccessClass(scope, classId)) ||
+    (audience.studentIds ?? []).some(studentId => canAccessStudent(scope, studentId))
+  );
+}
+
+// Resolves the signed-in user from the session cookie on the upgrade request
+function authenticate(sessionMiddleware: RequestHandler, request: IncomingMessage): Promise<string | undefined> {
+  return new Promise(resolve => {
+    const req = request as Request;
+    sessionMiddleware(req, {} as Response, () => {
+      const session = req.session as { passport?: { user?: string } } | undefined;
+      resolve(session?.passport?.user);
+    });
+  });
+}
+
+function reject(socket: Duplex, status: string) {
+  socket.write(`HTTP/1.1 ${status}\r\n\r\n`);
+  socket.destroy();
+}
+
+// Accepts authenticated WebSocket connections on REALTIME_PATH. Other upgrade
+// requests (the Vite HMR socket in development) are left to their own handlers.
+export function setupRealtime(server: Server, sessionMiddleware: RequestHandler): void {
+  const wss = new WebSocketServer({ noServer: true });
+
+  server.on("upgrade", async (request: IncomingMessage, socket: Duplex, head: Buffer) => {
+    if (new URL(request.url ?? "/", "http://localhost").pathname !== REALTIME_PATH) return;
+    try {
+      const userId = await authenticate(sessionMiddleware, request);
+      const user = userId ? await storage.getUser(userId) : undefined;
+      if (!user || !user.isActive) {
+        return reject(socket, "401 Unauthorized");
+      }
+      wss.handleUpgrade(request, socket, head, ws => {
+        const client: Client = { socket: ws, userId: user.id, alive: true };
+        clients.add(client);
+        ws.on("pong", () => { client.alive = true; });
+        ws.on("close", () => clients.delete(client));
+      });
+    } catch (error) {
+      console.error("Realtime upgrade failed:", error);
+      reject(socket, "500 Internal Server Error");
+    }
+  });
+
+  // Drop connections that stop answering pings (closed laptops, dropped proxies)
+  const heartbeat = setInterval(() => {
+    Array.from(clients).forEach(client => {
+      if (!client.alive) {
+        clients.delete(client);
+        return client.socket.terminate();
+      }
+      client.alive = false;
+      client.socket.ping();
+    });
+  }, HEARTBEAT_INTERVAL);
+  server.on("close", () => clearInterval(heartbeat));
+}
+
+// Tells every connected user allowed to see the change that it happened. Scopes are
+// resolved at send time so roster changes and deactivations apply immediately.
+export function broadcast(change: Omit<ChangeEvent, "type">, audience: Audience): void {
+  if (clients.size === 0) return;
+  const message = JSON.stringify({ type: "change", ...change } satisfies ChangeEvent);
+
+  (async () => {
+    for (const client of Array.from(clients)) {
+      if (client.socket.readyState !== WebSocket.OPEN) continue;
+      const user = await storage.getUser(client.userId);
+      if (!user || !user.isActive) {
+        clients.delete(client);
+        client.socket.close();
+        continue;
+      }
+      if (canSee(await resolveScope(user), audience)) {
+        client.socket.send(message);
+      }
+    }
+  })().catch(error => {
+    console.error("Failed to broadcast change:", error);
+  });
+}
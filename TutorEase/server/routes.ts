@@ -1,54 +1,76 @@
 import type { Express } from "express";
 import { createServer, type Server } from "http";
+import { z } from "zod";
 import { storage } from "./storage";
+import { HttpError } from "./errors";
+import { enrollStudent, withdrawStudent, transferStudent } from "./enrollment";
+import { getSessions, isScheduledStart } from "./sessions";
+import { assertNoScheduleConflicts } from "./conflicts";
+import { getAttendanceAnalytics, defaultAnalyticsRange } from "./analytics";
+import { sendAbsenceAlerts } from "./alerts";
+import { runBilling, MONTH_PATTERN } from "./billing";
+import { runOverdueCheck } from "./overdue";
+import { validateDiscountRule } from "./discounts";
+import { getPaymentProvider, handleGatewayEvent, startCheckout } from "./gateway";
+import { MockPaymentProvider } from "./mock-gateway";
+import { recordPayment, refundPayment, reviseFee, sumAmounts, summarizeFee, withBalances } from "./payments";
+import { feeInvoice, formatReceiptNumber, issueReceipt, renderInvoices, renderReceipt, studentInvoices } from "./invoices";
+import {
+  changeHomeworkStatus, deleteHomework, gradeStats, gradeSubmission, homeworkBreakdown, listStudentHomework,
+  submitHomework, updateHomework, withSubmissionCounts,
+} from "./homework";
+import { notifyAnnouncement } from "./notifications";
+import {
+  canAccessUpload, discardUploads, linkUploads, readUpload, receiveUpload, resolveAttachments, signedDownloadUrl,
+  uploadsIn, verifyDownloadSignature,
+} from "./uploads";
+import { setupAuth, requireAuth, requireRole } from "./auth";
+import { setupRealtime, broadcast, admins } from "./realtime";
+import {
+  resolveScope, canAccessStudent, canAccessClass, canAccessFee, canAccessAnnouncement
+} from "./scope";
+import { addDays, differenceInCalendarDays, startOfDay, startOfMonth, startOfWeek } from "date-fns";
 import { 
-  insertUserSchema, insertStudentSchema, insertClassSchema, 
-  insertAttendanceSchema, insertFeeSchema, insertHomeworkSchema,
-  insertHomeworkSubmissionSchema, insertAnnouncementSchema,
-  insertSystemLogSchema, insertSystemSettingSchema
+  insertUserSchema, insertStudentSchema, insertClassSchema, insertSessionExceptionSchema,
+  insertAttendanceSchema, insertFeeSchema, insertPaymentSchema, insertDiscountRuleSchema, insertHomeworkSchema,
+  homeworkStatusSchema, homeworkSubmissionInputSchema, gradeSubmissionSchema, insertAnnouncementSchema,
+  insertSystemLogSchema, insertSystemSettingSchema, type InsertAttendance, type ScheduleSlot, type FinancialReport
 } from "@shared/schema";
 
 export async function registerRoutes(app: Express): Promise<Server> {
-  // Authentication endpoints
-  app.post("/api/auth/login", async (req, res) => {
-    try {
-      const { email, password, role } = req.body;
-      const user = await storage.getUserByEmail(email);
-      
-      if (!user || user.password !== password || user.role !== role) {
-        return res.status(401).json({ message: "Invalid credentials" });
-      }
-
-      res.json({ user: { ...user, password: undefined } });
-    } catch (error) {
-      res.status(500).json({ message: "Login failed" });
-    }
-  });
+  // Session-based authentication (/api/auth/login, /logout, /me)
+  const sessionMiddleware = setupAuth(app);
 
   // Student endpoints
-  app.get("/api/students", async (req, res) => {
+  app.get("/api/students", requireAuth, async (req, res) => {
     try {
+      const scope = await resolveScope(req.user!);
       const students = await storage.getAllStudents();
-      res.json(students);
+      res.json(students.filter(student => canAccessStudent(scope, student.id)));
     } catch (error) {
       res.status(500).json({ message: "Failed to fetch students" });
     }
   });
 
-  app.post("/api/students", async (req, res) => {
+  app.post("/api/students", requireRole("admin", "tutor"), async (req, res) => {
     try {
-      const studentData = insertStudentSchema.parse(req.body);
+      const studentData = insertStudentSchema.parse({
+        ...req.body,
+        tutorId: req.user!.role === "tutor" ? req.user!.id : req.body.tutorId || null,
+      });
       const student = await storage.createStudent(studentData);
+      broadcast({ entity: "students", action: "created", id: student.id }, { studentIds: [student.id] });
       res.status(201).json(student);
     } catch (error) {
       res.status(400).json({ message: "Invalid student data" });
     }
   });
 
-  app.get("/api/students/:id", async (req, res) => {
+  app.get("/api/students/:id", requireAuth, async (req, res) => {
     try {
+      const scope = await resolveScope(req.user!);
       const student = await storage.getStudent(req.params.id);
-      if (!student) {
+      if (!student || !canAccessStudent(scope, student.id)) {
         return res.status(404).json({ message: "Student not found" });
       }
       res.json(student);
@@ -57,25 +79,54 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
-  app.put("/api/students/:id", async (req, res) => {
+  app.put("/api/students/:id", requireRole("admin", "tutor"), async (req, res) => {
     try {
-      const updates = req.body;
+      const scope = await resolveScope(req.user!);
+      if (!canAccessStudent(scope, req.params.id)) {
+        return res.status(404).json({ message: "Student not found" });
+      }
+      const updates = insertStudentSchema.partial().parse(req.body);
+      if (req.user!.role !== "admin") {
+        // Who the student belongs to, and their login, are only changed by admins
+        delete updates.tutorId;
+        delete updates.parentId;
+        delete updates.userId;
+      }
       const student = await storage.updateStudent(req.params.id, updates);
       if (!student) {
         return res.status(404).json({ message: "Student not found" });
       }
+      broadcast({ entity: "students", action: "updated", id: student.id }, { studentIds: [student.id] });
       res.json(student);
     } catch (error) {
       res.status(400).json({ message: "Failed to update student" });
     }
   });
 
-  app.delete("/api/students/:id", async (req, res) => {
+  app.delete("/api/students/:id", requireRole("admin", "tutor"), async (req, res) => {
     try {
-      const deleted = await storage.deleteStudent(req.params.id);
+      const scope = await resolveScope(req.user!);
+      const student = await storage.getStudent(req.params.id);
+      if (!student || !canAccessStudent(scope, student.id)) {
+        return res.status(404).json({ message: "Student not found" });
+      }
+      // Fees carry the payment ledger and receipts, which must outlive the student
+      if ((await storage.getFeesByStudent(student.id)).length > 0) {
+        return res.status(409).json({ message: "This student still has fees; they can't be deleted" });
+      }
+      const classes = await storage.getClassesByStudent(student.id);
+      // The student's submissions go with them, so their uploaded files do too
+      const submissions = await storage.getSubmissionsByStudent(student.id);
+      const uploads = await uploadsIn(submissions.flatMap(submission => submission.attachments));
+      const deleted = await storage.deleteStudent(student.id);
       if (!deleted) {
         return res.status(404).json({ message: "Student not found" });
       }
+      await discardUploads(uploads);
+      broadcast({ entity: "students", action: "deleted", id: student.id }, {
+        ...admins,
+        userIds: [student.tutorId, student.parentId, student.userId, ...classes.map(cls => cls.tutorId)],
+      });
       res.status(204).send();
     } catch (error) {
       res.status(500).json({ message: "Failed to delete student" });
@@ -83,30 +134,344 @@ export async function registerRoutes(app: Express): Promise<Server> {
   });
 
   // Class endpoints
-  app.get("/api/classes", async (req, res) => {
+  app.get("/api/classes", requireAuth, async (req, res) => {
     try {
+      const scope = await resolveScope(req.user!);
       const classes = await storage.getAllClasses();
-      res.json(classes);
+      res.json(classes.filter(cls => canAccessClass(scope, cls.id)));
     } catch (error) {
       res.status(500).json({ message: "Failed to fetch classes" });
     }
   });
 
-  app.post("/api/classes", async (req, res) => {
+  app.post("/api/classes", requireRole("admin", "tutor"), async (req, res) => {
     try {
-      const classData = insertClassSchema.parse(req.body);
-      const newClass = await storage.createClass(classData);
-      res.status(201).json(newClass);
+      const classData = insertClassSchema.parse({
+        ...req.body,
+        tutorId: req.user!.role === "tutor" ? req.user!.id : req.body.tutorId,
+      });
+      const scope = await resolveScope(req.user!);
+      if (!classData.studentIds.every(studentId => canAccessStudent(scope, studentId))) {
+        return res.status(404).json({ message: "Student not found" });
+      }
+      await assertNoScheduleConflicts({
+        schedule: classData.schedule,
+        tutorId: classData.tutorId,
+        studentIds: classData.studentIds,
+      });
+      // The roster is recorded through enrollments; studentIds is synced from them
+      const newClass = await storage.createClass({ ...classData, studentIds: [] });
+      for (const studentId of classData.studentIds) {
+        await enrollStudent(newClass.id, studentId);
+      }
+      broadcast({ entity: "classes", action: "created", id: newClass.id }, { classIds: [newClass.id] });
+      res.status(201).json(await storage.getClass(newClass.id));
     } catch (error) {
+      if (error instanceof HttpError) {
+        return res.status(error.status).json({ message: error.message, ...error.details });
+      }
       res.status(400).json({ message: "Invalid class data" });
     }
   });
 
+  app.get("/api/classes/:id", requireAuth, async (req, res) => {
+    try {
+      const scope = await resolveScope(req.user!);
+      const cls = await storage.getClass(req.params.id);
+      if (!cls || !canAccessClass(scope, cls.id)) {
+        return res.status(404).json({ message: "Class not found" });
+      }
+      res.json(cls);
+    } catch (error) {
+      res.status(500).json({ message: "Failed to fetch class" });
+    }
+  });
+
+  app.put("/api/classes/:id", requireRole("admin", "tutor"), async (req, res) => {
+    try {
+      const scope = await resolveScope(req.user!);
+      if (!canAccessClass(scope, req.params.id)) {
+        return res.status(404).json({ message: "Class not found" });
+      }
+      const updates = insertClassSchema.partial().parse(req.body);
+      if (req.user!.role === "tutor") {
+        // Tutors cannot hand their classes to someone else
+        delete updates.tutorId;
+      }
+      // Roster changes go through the enrollment endpoints so history is kept
+      delete updates.studentIds;
+      const existing = await storage.getClass(req.params.id);
+      if (!existing) {
+        return res.status(404).json({ message: "Class not found" });
+      }
+      if (updates.schedule || updates.tutorId) {
+        await assertNoScheduleConflicts({
+          excludeClassIds: [existing.id],
+          schedule: updates.schedule ?? existing.schedule as ScheduleSlot[],
+          tutorId: updates.tutorId ?? existing.tutorId,
+          studentIds: existing.studentIds,
+        });
+      }
+      const cls = await storage.updateClass(req.params.id, updates);
+      if (!cls) {
+        return res.status(404).json({ message: "Class not found" });
+      }
+      broadcast({ entity: "classes", action: "updated", id: cls.id }, { classIds: [cls.id], userIds: [existing.tutorId] });
+      res.json(cls);
+    } catch (error) {
+      if (error instanceof HttpError) {
+        return res.status(error.status).json({ message: error.message, ...error.details });
+      }
+      res.status(400).json({ message: "Failed to update class" });
+    }
+  });
+
+  app.delete("/api/classes/:id", requireRole("admin", "tutor"), async (req, res) => {
+    try {
+      const scope = await resolveScope(req.user!);
+      const cls = await storage.getClass(req.params.id);
+      if (!cls || !canAccessClass(scope, cls.id)) {
+        return res.status(404).json({ message: "Class not found" });
+      }
+      // Fees carry the payment ledger and receipts, which must outlive the class
+      if ((await storage.getFeesByClass(cls.id)).length > 0) {
+        return res.status(409).json({ message: "This class still has fees; it can't be deleted" });
+      }
+      // The class's homework and submissions go with it, so their uploaded files do too
+      const homework = await storage.getHomeworkByClass(cls.id);
+      const submissions = (await Promise.all(homework.map(hw => storage.getSubmissionsByHomework(hw.id)))).flat();
+      const uploads = await uploadsIn([...homework, ...submissions].flatMap(item => item.attachments));
+      const deleted = await storage.deleteClass(cls.id);
+      if (!deleted) {
+        return res.status(404).json({ message: "Class not found" });
+      }
+      await discardUploads(uploads);
+      broadcast({ entity: "classes", action: "deleted", id: cls.id }, {
+        ...admins,
+        userIds: [cls.tutorId],
+        studentIds: cls.studentIds,
+      });
+      res.status(204).send();
+    } catch (error) {
+      res.status(500).json({ message: "Failed to delete class" });
+    }
+  });
+
+  // Enrollment endpoints
+  const enrollmentDateSchema = z.coerce.date().optional();
+
+  app.get("/api/classes/:id/enrollments", requireAuth, async (req, res) => {
+    try {
+      const scope = await resolveScope(req.user!);
+      if (!canAccessClass(scope, req.params.id)) {
+        return res.status(404).json({ message: "Class not found" });
+      }
+      // ?date=YYYY-MM-DD returns the roster as it stood on that day
+      const date = enrollmentDateSchema.parse(req.query.date);
+      const enrollments = date
+        ? await storage.getClassRoster(req.params.id, date)
+        : await storage.getEnrollmentsByClass(req.params.id);
+      res.json(enrollments.filter(e => canAccessStudent(scope, e.studentId)));
+    } catch (error) {
+      res.status(400).json({ message: "Failed to fetch enrollments" });
+    }
+  });
+
+  app.post("/api/classes/:id/enrollments", requireRole("admin", "tutor"), async (req, res) => {
+    try {
+      const { studentId, startDate } = z.object({
+        studentId: z.string(),
+        startDate: enrollmentDateSchema,
+      }).parse(req.body);
+      const scope = await resolveScope(req.user!);
+      if (!canAccessClass(scope, req.params.id) || !canAccessStudent(scope, studentId)) {
+        return res.status(404).json({ message: "Student or class not found" });
+      }
+      const enrollment = await enrollStudent(req.params.id, studentId, startDate);
+      broadcast({ entity: "enrollments", action: "created", id: enrollment.id }, { classIds: [enrollment.classId] });
+      res.status(201).json(enrollment);
+    } catch (error) {
+      if (error instanceof HttpError) {
+        return res.status(error.status).json({ message: error.message, ...error.details });
+      }
+      res.status(400).json({ message: "Invalid enrollment data" });
+    }
+  });
+
+  app.post("/api/enrollments/:id/withdraw", requireRole("admin", "tutor"), async (req, res) => {
+    try {
+      const { endDate } = z.object({ endDate: enrollmentDateSchema }).parse(req.body);
+      const scope = await resolveScope(req.user!);
+      const existing = await storage.getEnrollment(req.params.id);
+      if (!existing || !canAccessClass(scope, existing.classId)) {
+        return res.status(404).json({ message: "Enrollment not found" });
+      }
+      const enrollment = await withdrawStudent(existing.id, endDate);
+      broadcast({ entity: "enrollments", action: "updated", id: enrollment.id }, {
+        classIds: [enrollment.classId],
+        studentIds: [enrollment.studentId],
+      });
+      res.json(enrollment);
+    } catch (error) {
+      if (error instanceof HttpError) {
+        return res.status(error.status).json({ message: error.message, ...error.details });
+      }
+      res.status(400).json({ message: "Failed to withdraw student" });
+    }
+  });
+
+  app.post("/api/enrollments/:id/transfer", requireRole("admin", "tutor"), async (req, res) => {
+    try {
+      const { toClassId, date } = z.object({
+        toClassId: z.string(),
+        date: enrollmentDateSchema,
+      }).parse(req.body);
+      const scope = await resolveScope(req.user!);
+      const existing = await storage.getEnrollment(req.params.id);
+      if (!existing || !canAccessClass(scope, existing.classId)) {
+        return res.status(404).json({ message: "Enrollment not found" });
+      }
+      if (!canAccessClass(scope, toClassId)) {
+        return res.status(404).json({ message: "Class not found" });
+      }
+      const transfer = await transferStudent(existing.id, toClassId, date);
+      broadcast({ entity: "enrollments", action: "created", id: transfer.to.id }, {
+        classIds: [transfer.from.classId, transfer.to.classId],
+      });
+      res.json(transfer);
+    } catch (error) {
+      if (error instanceof HttpError) {
+        return res.status(error.status).json({ message: error.message, ...error.details });
+      }
+      res.status(400).json({ message: "Failed to transfer student" });
+    }
+  });
+
+  app.get("/api/students/:id/enrollments", requireAuth, async (req, res) => {
+    try {
+      const scope = await resolveScope(req.user!);
+      if (!canAccessStudent(scope, req.params.id)) {
+        return res.status(404).json({ message: "Student not found" });
+      }
+      res.json(await storage.getEnrollmentsByStudent(req.params.id));
+    } catch (error) {
+      res.status(500).json({ message: "Failed to fetch enrollments" });
+    }
+  });
+
+  // All of a student's fees for one month on a single invoice
+  app.get("/api/students/:id/invoice", requireAuth, async (req, res) => {
+    try {
+      const { month } = z.object({ month: z.string().regex(MONTH_PATTERN) }).parse(req.query);
+      const scope = await resolveScope(req.user!);
+      if (!canAccessStudent(scope, req.params.id)) {
+        return res.status(404).json({ message: "Student not found" });
+      }
+      const fees = (await storage.getFeesByStudent(req.params.id))
+        .filter(fee => fee.month === month && canAccessFee(scope, fee));
+      if (fees.length === 0) {
+        return res.status(404).json({ message: "No fees found for this month" });
+      }
+      const [invoice] = studentInvoices(await withBalances(fees));
+      res.attachment(`invoice-${invoice.number}.pdf`).send(await renderInvoices([invoice]));
+    } catch (error) {
+      res.status(400).json({ message: "Failed to generate invoice" });
+    }
+  });
+
+  // The student's homework with where they stand on each; students see their own, parents their children's
+  app.get("/api/students/:id/homework", requireAuth, async (req, res) => {
+    try {
+      const scope = await resolveScope(req.user!);
+      const student = await storage.getStudent(req.params.id);
+      if (!student || !canAccessStudent(scope, student.id)) {
+        return res.status(404).json({ message: "Student not found" });
+      }
+      res.json(await listStudentHomework(student));
+    } catch (error) {
+      res.status(500).json({ message: "Failed to fetch homework" });
+    }
+  });
+
+  // Session endpoints
+  app.get("/api/sessions", requireAuth, async (req, res) => {
+    try {
+      const query = z.object({
+        from: z.coerce.date().optional(),
+        to: z.coerce.date().optional(),
+        classId: z.string().optional(),
+      }).parse(req.query);
+      const from = query.from ?? startOfWeek(new Date(), { weekStartsOn: 1 });
+      const to = query.to ?? addDays(from, 7);
+      if (to <= from || differenceInCalendarDays(to, from) > 92) {
+        return res.status(400).json({ message: "Date range must be between 1 and 92 days" });
+      }
+      const scope = await resolveScope(req.user!);
+      const classes = (await storage.getAllClasses()).filter(cls =>
+        canAccessClass(scope, cls.id) && (!query.classId || cls.id === query.classId)
+      );
+      res.json(await getSessions(classes, from, to));
+    } catch (error) {
+      res.status(400).json({ message: "Invalid date range" });
+    }
+  });
+
+  // Cancels or reschedules a single occurrence; posting again for the same occurrence replaces it
+  app.post("/api/classes/:id/session-exceptions", requireRole("admin", "tutor"), async (req, res) => {
+    try {
+      const scope = await resolveScope(req.user!);
+      const cls = await storage.getClass(req.params.id);
+      if (!cls || !canAccessClass(scope, cls.id)) {
+        return res.status(404).json({ message: "Class not found" });
+      }
+      const exceptionData = insertSessionExceptionSchema.parse({
+        ...req.body,
+        classId: cls.id,
+        createdBy: req.user!.id,
+      });
+      if (!isScheduledStart(cls, exceptionData.sessionDate)) {
+        return res.status(400).json({ message: "The class has no session at that time" });
+      }
+      const existing = (await storage.getSessionExceptionsByClass(cls.id))
+        .filter(e => e.sessionDate.getTime() === exceptionData.sessionDate.getTime());
+      for (const exception of existing) {
+        await storage.deleteSessionException(exception.id);
+      }
+      const exception = await storage.createSessionException(exceptionData);
+      broadcast({ entity: "sessions", action: "created", id: exception.id }, { classIds: [cls.id] });
+      res.status(201).json(exception);
+    } catch (error) {
+      res.status(400).json({ message: "Invalid session change" });
+    }
+  });
+
+  app.delete("/api/session-exceptions/:id", requireRole("admin", "tutor"), async (req, res) => {
+    try {
+      const scope = await resolveScope(req.user!);
+      const exception = await storage.getSessionException(req.params.id);
+      if (!exception || !canAccessClass(scope, exception.classId)) {
+        return res.status(404).json({ message: "Session change not found" });
+      }
+      await storage.deleteSessionException(exception.id);
+      broadcast({ entity: "sessions", action: "deleted", id: exception.id }, { classIds: [exception.classId] });
+      res.status(204).send();
+    } catch (error) {
+      res.status(500).json({ message: "Failed to restore session" });
+    }
+  });
+
   // Attendance endpoints
-  app.get("/api/attendance/class/:classId", async (req, res) => {
+  app.get("/api/attendance/class/:classId", requireRole("admin", "tutor"), async (req, res) => {
     try {
+      const scope = await resolveScope(req.user!);
+      if (!canAccessClass(scope, req.params.classId)) {
+        return res.status(404).json({ message: "Class not found" });
+      }
       const { date } = req.query;
       const attendanceDate = date ? new Date(date as string) : new Date();
+      if (isNaN(attendanceDate.getTime())) {
+        return res.status(400).json({ message: "Invalid date" });
+      }
       const attendance = await storage.getAttendanceByClass(req.params.classId, attendanceDate);
       res.json(attendance);
     } catch (error) {
@@ -114,18 +479,80 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
-  app.post("/api/attendance/bulk", async (req, res) => {
+  app.post("/api/attendance/bulk", requireRole("admin", "tutor"), async (req, res) => {
     try {
-      const attendanceList = req.body.map((att: any) => insertAttendanceSchema.parse(att));
-      const results = await storage.bulkCreateAttendance(attendanceList);
-      res.status(201).json(results);
+      const parsed: InsertAttendance[] = z.array(insertAttendanceSchema).parse(req.body);
+      const scope = await resolveScope(req.user!);
+      if (parsed.some(att => !canAccessClass(scope, att.classId) || !canAccessStudent(scope, att.studentId))) {
+        return res.status(404).json({ message: "Student or class not found" });
+      }
+      // A register lists each student once per day; the last entry wins
+      const byRegisterKey = new Map(parsed.map(att => [
+        `${att.classId}:${att.studentId}:${startOfDay(att.date).getTime()}`,
+        att,
+      ]));
+      const registers = new Map(Array.from(byRegisterKey.values()).map(att => [
+        `${att.classId}:${startOfDay(att.date).getTime()}`,
+        { classId: att.classId, date: startOfDay(att.date) },
+      ]));
+      const previous = (await Promise.all(
+        Array.from(registers.values()).map(({ classId, date }) => storage.getAttendanceByClass(classId, date))
+      )).flat();
+      const results = await storage.bulkUpsertAttendance(Array.from(byRegisterKey.values()));
+      await sendAbsenceAlerts(results, previous);
+      broadcast({ entity: "attendance", action: "updated" }, {
+        classIds: Array.from(new Set(results.map(record => record.classId))),
+      });
+      res.json(results);
     } catch (error) {
       res.status(400).json({ message: "Invalid attendance data" });
     }
   });
 
+  // Corrections to a single saved record; the class, student and day stay fixed
+  app.put("/api/attendance/:id", requireRole("admin", "tutor"), async (req, res) => {
+    try {
+      const scope = await resolveScope(req.user!);
+      const existing = await storage.getAttendance(req.params.id);
+      if (!existing || !canAccessClass(scope, existing.classId)) {
+        return res.status(404).json({ message: "Attendance record not found" });
+      }
+      const updates = insertAttendanceSchema.pick({ status: true, notes: true }).partial().parse(req.body);
+      const record = await storage.updateAttendance(existing.id, updates);
+      broadcast({ entity: "attendance", action: "updated", id: existing.id }, { classIds: [existing.classId] });
+      res.json(record);
+    } catch (error) {
+      res.status(400).json({ message: "Failed to update attendance" });
+    }
+  });
+
+  // Analytics endpoints
+  app.get("/api/analytics/attendance", requireRole("admin", "tutor"), async (req, res) => {
+    try {
+      const query = z.object({
+        from: z.coerce.date().optional(),
+        to: z.coerce.date().optional(),
+        classId: z.string().optional(),
+        threshold: z.coerce.number().min(0).max(100).optional(),
+      }).parse(req.query);
+      const range = defaultAnalyticsRange();
+      const to = query.to ?? range.to;
+      const from = query.from ?? (query.to ? addDays(to, -84) : range.from);
+      if (to <= from) {
+        return res.status(400).json({ message: "The end date must be after the start date" });
+      }
+      const scope = await resolveScope(req.user!);
+      if (query.classId && !canAccessClass(scope, query.classId)) {
+        return res.status(404).json({ message: "Class not found" });
+      }
+      res.json(await getAttendanceAnalytics(scope, { ...query, from, to }));
+    } catch (error) {
+      res.status(400).json({ message: "Invalid analytics query" });
+    }
+  });
+
   // Fee endpoints
-  app.get("/api/fees", async (req, res) => {
+  app.get("/api/fees", requireAuth, async (req, res) => {
     try {
       const { month } = req.query;
       let fees;
@@ -134,37 +561,323 @@ export async function registerRoutes(app: Express): Promise<Server> {
       } else {
         fees = await storage.getAllFees();
       }
-      res.json(fees);
+      const scope = await resolveScope(req.user!);
+      res.json(await withBalances(fees.filter(fee => canAccessFee(scope, fee))));
     } catch (error) {
       res.status(500).json({ message: "Failed to fetch fees" });
     }
   });
 
-  app.post("/api/fees", async (req, res) => {
+  // Status and paid date follow the payments ledger, late fees come from the overdue
+  // check and discounts from billing, so a new fee starts without any of them
+  const feeCreateSchema = insertFeeSchema.omit({
+    status: true, paidDate: true, lateFee: true, discount: true, discountReason: true,
+  }).extend({
+    month: z.string().regex(MONTH_PATTERN),
+    dueDate: z.coerce.date(),
+  });
+
+  app.post("/api/fees", requireRole("admin", "tutor"), async (req, res) => {
     try {
-      const feeData = insertFeeSchema.parse(req.body);
-      const fee = await storage.createFee(feeData);
+      const feeData = feeCreateSchema.parse(req.body);
+      const scope = await resolveScope(req.user!);
+      if (!canAccessClass(scope, feeData.classId) || !canAccessStudent(scope, feeData.studentId)) {
+        return res.status(404).json({ message: "Student or class not found" });
+      }
+      const fee = await storage.createFeeIfAbsent(feeData);
+      if (!fee) {
+        return res.status(409).json({ message: "This student already has a fee for this class and month" });
+      }
+      broadcast({ entity: "fees", action: "created", id: fee.id }, { studentIds: [fee.studentId] });
       res.status(201).json(fee);
     } catch (error) {
       res.status(400).json({ message: "Invalid fee data" });
     }
   });
 
-  app.put("/api/fees/:id", async (req, res) => {
+  // Generates the month's fees from class fee amounts and rosters; safe to re-run
+  app.post("/api/fees/billing-run", requireRole("admin", "tutor"), async (req, res) => {
     try {
-      const updates = req.body;
-      const fee = await storage.updateFee(req.params.id, updates);
-      if (!fee) {
+      const { month, dryRun } = z.object({
+        month: z.string().regex(MONTH_PATTERN),
+        dryRun: z.boolean().optional(),
+      }).parse(req.body);
+      const scope = await resolveScope(req.user!);
+      const result = await runBilling(month, {
+        classIds: scope.classIds ? Array.from(scope.classIds) : undefined,
+        dryRun,
+      });
+      res.json(result);
+    } catch (error) {
+      if (error instanceof HttpError) {
+        return res.status(error.status).json({ message: error.message, ...error.details });
+      }
+      res.status(400).json({ message: "Invalid billing run" });
+    }
+  });
+
+  // What the overdue job would change if it ran now, without changing anything
+  app.get("/api/fees/overdue-preview", requireRole("admin"), async (req, res) => {
+    try {
+      res.json(await runOverdueCheck({ dryRun: true }));
+    } catch (error) {
+      res.status(500).json({ message: "Failed to preview overdue fees" });
+    }
+  });
+
+  // One PDF with an invoice page per student for the month
+  app.get("/api/fees/invoices", requireRole("admin", "tutor"), async (req, res) => {
+    try {
+      const { month } = z.object({ month: z.string().regex(MONTH_PATTERN) }).parse(req.query);
+      const scope = await resolveScope(req.user!);
+      const fees = (await storage.getFeesByMonth(month)).filter(fee => canAccessFee(scope, fee));
+      if (fees.length === 0) {
+        return res.status(404).json({ message: "No fees found for this month" });
+      }
+      const pdf = await renderInvoices(studentInvoices(await withBalances(fees)));
+      res.attachment(`invoices-${month}.pdf`).send(pdf);
+    } catch (error) {
+      res.status(400).json({ message: "Failed to generate invoices" });
+    }
+  });
+
+  app.get("/api/fees/:id/invoice", requireAuth, async (req, res) => {
+    try {
+      const scope = await resolveScope(req.user!);
+      const fee = await storage.getFee(req.params.id);
+      if (!fee || !canAccessFee(scope, fee)) {
         return res.status(404).json({ message: "Fee not found" });
       }
-      res.json(fee);
+      const invoice = feeInvoice(summarizeFee(fee, await storage.getPaymentsByFee(fee.id)));
+      res.attachment(`invoice-${invoice.number}.pdf`).send(await renderInvoices([invoice]));
     } catch (error) {
+      res.status(500).json({ message: "Failed to generate invoice" });
+    }
+  });
+
+  // Status isn't editable: it follows the payments ledger and the due date
+  const feeUpdateSchema = insertFeeSchema.pick({ amount: true, lateFee: true, month: true }).extend({
+    dueDate: z.coerce.date(),
+  }).partial();
+
+  app.put("/api/fees/:id", requireRole("admin", "tutor"), async (req, res) => {
+    try {
+      const scope = await resolveScope(req.user!);
+      const existing = await storage.getFee(req.params.id);
+      if (!existing || !canAccessFee(scope, existing)) {
+        return res.status(404).json({ message: "Fee not found" });
+      }
+      res.json(await reviseFee(existing.id, feeUpdateSchema.parse(req.body)));
+    } catch (error) {
+      if (error instanceof HttpError) {
+        return res.status(error.status).json({ message: error.message, ...error.details });
+      }
       res.status(400).json({ message: "Failed to update fee" });
     }
   });
 
+  // Payment endpoints
+  const paymentRequestSchema = insertPaymentSchema.pick({
+    method: true, reference: true, notes: true, paidAt: true,
+  }).extend({
+    amount: z.coerce.number(),
+  });
+
+  app.get("/api/fees/:id/payments", requireAuth, async (req, res) => {
+    try {
+      const scope = await resolveScope(req.user!);
+      const fee = await storage.getFee(req.params.id);
+      if (!fee || !canAccessFee(scope, fee)) {
+        return res.status(404).json({ message: "Fee not found" });
+      }
+      res.json(await storage.getPaymentsByFee(fee.id));
+    } catch (error) {
+      res.status(500).json({ message: "Failed to fetch payments" });
+    }
+  });
+
+  app.post("/api/fees/:id/payments", requireRole("admin", "tutor"), async (req, res) => {
+    try {
+      const { amount, ...details } = paymentRequestSchema.parse(req.body);
+      const scope = await resolveScope(req.user!);
+      const fee = await storage.getFee(req.params.id);
+      if (!fee || !canAccessFee(scope, fee)) {
+        return res.status(404).json({ message: "Fee not found" });
+      }
+      const result = await recordPayment(fee.id, amount, { ...details, receivedBy: req.user!.id });
+      res.status(201).json(result);
+    } catch (error) {
+      if (error instanceof HttpError) {
+        return res.status(error.status).json({ message: error.message, ...error.details });
+      }
+      res.status(400).json({ message: "Invalid payment data" });
+    }
+  });
+
+  app.post("/api/fees/:id/refunds", requireRole("admin", "tutor"), async (req, res) => {
+    try {
+      const { amount, ...details } = paymentRequestSchema.parse(req.body);
+      const scope = await resolveScope(req.user!);
+      const fee = await storage.getFee(req.params.id);
+      if (!fee || !canAccessFee(scope, fee)) {
+        return res.status(404).json({ message: "Fee not found" });
+      }
+      const result = await refundPayment(fee.id, amount, { ...details, receivedBy: req.user!.id });
+      res.status(201).json(result);
+    } catch (error) {
+      if (error instanceof HttpError) {
+        return res.status(error.status).json({ message: error.message, ...error.details });
+      }
+      res.status(400).json({ message: "Invalid refund data" });
+    }
+  });
+
+  // Online payments. Parents open a checkout with the payment provider for a fee's
+  // balance; the provider's webhook then records the payment against the fee.
+  app.post("/api/fees/:id/checkout", requireRole("parent"), async (req, res) => {
+    try {
+      const scope = await resolveScope(req.user!);
+      const fee = await storage.getFee(req.params.id);
+      if (!fee || !canAccessFee(scope, fee)) {
+        return res.status(404).json({ message: "Fee not found" });
+      }
+      const { checkout, url } = await startCheckout(fee, req.user!, `${req.protocol}://${req.get("host")}/`);
+      res.status(201).json({ checkoutId: checkout.id, url });
+    } catch (error) {
+      if (error instanceof HttpError) {
+        return res.status(error.status).json({ message: error.message, ...error.details });
+      }
+      res.status(500).json({ message: "Failed to start checkout" });
+    }
+  });
+
+  app.get("/api/checkouts/:id", requireAuth, async (req, res) => {
+    try {
+      const scope = await resolveScope(req.user!);
+      const checkout = await storage.getCheckout(req.params.id);
+      const fee = checkout && await storage.getFee(checkout.feeId);
+      if (!checkout || !fee || !canAccessFee(scope, fee)) {
+        return res.status(404).json({ message: "Checkout not found" });
+      }
+      res.json(checkout);
+    } catch (error) {
+      res.status(500).json({ message: "Failed to fetch checkout" });
+    }
+  });
+
+  // Called by the payment provider, so it is authenticated by signature rather than session
+  app.post("/api/payments/webhook", async (req, res) => {
+    try {
+      const provider = getPaymentProvider();
+      if (!provider) {
+        return res.status(503).json({ message: "Online payments are not enabled" });
+      }
+      const event = provider.verifyWebhook(req.rawBody ?? Buffer.alloc(0), req.headers);
+      if (!event) {
+        return res.json({ received: true });
+      }
+      const checkout = await handleGatewayEvent(event);
+      res.json({ received: true, status: checkout.status });
+    } catch (error) {
+      if (error instanceof HttpError) {
+        return res.status(error.status).json({ message: error.message, ...error.details });
+      }
+      console.error("Payment webhook failed:", error);
+      res.status(500).json({ message: "Failed to process webhook" });
+    }
+  });
+
+  const paymentProvider = getPaymentProvider();
+  if (paymentProvider instanceof MockPaymentProvider) {
+    // Only the parent who opened a checkout can approve or decline it
+    app.use("/api/payments/mock/:ref", requireRole("parent"), async (req, res, next) => {
+      try {
+        const checkout = await storage.getCheckoutByProviderRef(req.params.ref);
+        if (!checkout || checkout.createdBy !== req.user!.id) {
+          return res.status(404).send("Checkout not found or already completed");
+        }
+        next();
+      } catch (error) {
+        next(error);
+      }
+    });
+    app.use("/api/payments/mock", paymentProvider.router());
+  }
+
+  // Receipts are numbered when first issued and always rendered from that snapshot,
+  // so downloading one again gives the same document
+  app.get("/api/payments/:id/receipt", requireAuth, async (req, res) => {
+    try {
+      const scope = await resolveScope(req.user!);
+      const payment = await storage.getPayment(req.params.id);
+      const fee = payment && await storage.getFee(payment.feeId);
+      if (!payment || !fee || !canAccessFee(scope, fee)) {
+        return res.status(404).json({ message: "Payment not found" });
+      }
+      // Payments without a receipt yet are issued one showing the balance as of that payment
+      const ledger = await storage.getPaymentsByFee(fee.id);
+      const upToPayment = ledger.slice(0, ledger.findIndex(entry => entry.id === payment.id) + 1);
+      const receipt = await issueReceipt(payment, summarizeFee(fee, upToPayment));
+      res.attachment(`receipt-${formatReceiptNumber(receipt.number)}.pdf`).send(await renderReceipt(receipt));
+    } catch (error) {
+      if (error instanceof HttpError) {
+        return res.status(error.status).json({ message: error.message, ...error.details });
+      }
+      res.status(500).json({ message: "Failed to generate receipt" });
+    }
+  });
+
+  // Upload endpoints. Files are sent as multipart/form-data in a "file" field and
+  // attached by listing the returned id among homework or submission attachments.
+  app.post("/api/uploads", requireAuth, async (req, res) => {
+    try {
+      const upload = await receiveUpload(req, res, req.user!);
+      res.status(201).json({ id: upload.id, name: upload.name, contentType: upload.contentType, size: upload.size });
+    } catch (error) {
+      if (error instanceof HttpError) {
+        return res.status(error.status).json({ message: error.message, ...error.details });
+      }
+      res.status(500).json({ message: "Failed to upload file" });
+    }
+  });
+
+  // A short-lived link to download the file, for anyone who can see what it's attached to
+  app.get("/api/uploads/:id/url", requireAuth, async (req, res) => {
+    try {
+      const scope = await resolveScope(req.user!);
+      const upload = await storage.getUpload(req.params.id);
+      if (!upload || !await canAccessUpload(scope, upload)) {
+        return res.status(404).json({ message: "File not found" });
+      }
+      res.json(signedDownloadUrl(upload));
+    } catch (error) {
+      res.status(500).json({ message: "Failed to create download link" });
+    }
+  });
+
+  // No session needed: the signature from /url is the permission
+  app.get("/api/uploads/:id/download", async (req, res) => {
+    try {
+      verifyDownloadSignature(req.params.id, req.query.expires, req.query.signature);
+      const upload = await storage.getUpload(req.params.id);
+      if (!upload) {
+        return res.status(404).json({ message: "File not found" });
+      }
+      const body = await readUpload(upload);
+      res.attachment(upload.name);
+      res.type(upload.contentType);
+      res.setHeader("X-Content-Type-Options", "nosniff");
+      res.send(body);
+    } catch (error) {
+      if (error instanceof HttpError) {
+        return res.status(error.status).json({ message: error.message, ...error.details });
+      }
+      res.status(500).json({ message: "Failed to download file" });
+    }
+  });
+
   // Homework endpoints
-  app.get("/api/homework", async (req, res) => {
+  app.get("/api/homework", requireAuth, async (req, res) => {
     try {
       const { tutorId, classId } = req.query;
       let homework;
@@ -175,24 +888,122 @@ export async function registerRoutes(app: Express): Promise<Server> {
       } else {
         homework = await storage.getAllHomework();
       }
-      res.json(homework);
+      const scope = await resolveScope(req.user!);
+      res.json(await withSubmissionCounts(homework.filter(hw => canAccessClass(scope, hw.classId))));
     } catch (error) {
       res.status(500).json({ message: "Failed to fetch homework" });
     }
   });
 
-  app.post("/api/homework", async (req, res) => {
+  // Grade averages across the homework in scope
+  app.get("/api/homework/stats", requireRole("admin", "tutor"), async (req, res) => {
     try {
-      const homeworkData = insertHomeworkSchema.parse(req.body);
-      const homework = await storage.createHomework(homeworkData);
+      const scope = await resolveScope(req.user!);
+      const homework = (await storage.getAllHomework()).filter(hw => canAccessClass(scope, hw.classId));
+      res.json(await gradeStats(homework));
+    } catch (error) {
+      res.status(500).json({ message: "Failed to fetch homework statistics" });
+    }
+  });
+
+  app.post("/api/homework", requireRole("admin", "tutor"), async (req, res) => {
+    try {
+      const homeworkData = insertHomeworkSchema.parse({
+        ...req.body,
+        tutorId: req.user!.role === "tutor" ? req.user!.id : req.body.tutorId,
+      });
+      const scope = await resolveScope(req.user!);
+      if (!canAccessClass(scope, homeworkData.classId)) {
+        return res.status(404).json({ message: "Class not found" });
+      }
+      const attachments = await resolveAttachments(homeworkData.attachments ?? [], req.user!);
+      const homework = await storage.createHomework({ ...homeworkData, attachments });
+      await linkUploads(attachments, { homeworkId: homework.id });
+      broadcast({ entity: "homework", action: "created", id: homework.id }, { classIds: [homework.classId] });
       res.status(201).json(homework);
     } catch (error) {
+      if (error instanceof HttpError) {
+        return res.status(error.status).json({ message: error.message, ...error.details });
+      }
       res.status(400).json({ message: "Invalid homework data" });
     }
   });
 
-  app.get("/api/homework/:id/submissions", async (req, res) => {
+  app.put("/api/homework/:id", requireRole("admin", "tutor"), async (req, res) => {
+    try {
+      const scope = await resolveScope(req.user!);
+      const homework = await storage.getHomework(req.params.id);
+      if (!homework || !canAccessClass(scope, homework.classId)) {
+        return res.status(404).json({ message: "Homework not found" });
+      }
+      const updates = insertHomeworkSchema.partial().parse(req.body);
+      if (req.user!.role === "tutor") {
+        // Tutors cannot hand their homework to someone else
+        delete updates.tutorId;
+      }
+      const updated = await updateHomework(homework, updates, req.user!);
+      broadcast({ entity: "homework", action: "updated", id: updated.id }, {
+        classIds: [updated.classId],
+        userIds: [homework.tutorId, updated.tutorId],
+      });
+      res.json(updated);
+    } catch (error) {
+      if (error instanceof HttpError) {
+        return res.status(error.status).json({ message: error.message, ...error.details });
+      }
+      res.status(400).json({ message: "Failed to update homework" });
+    }
+  });
+
+  // Closing, reopening, archiving and restoring homework; see changeHomeworkStatus()
+  app.put("/api/homework/:id/status", requireRole("admin", "tutor"), async (req, res) => {
     try {
+      const { status } = homeworkStatusSchema.parse(req.body);
+      const scope = await resolveScope(req.user!);
+      const homework = await storage.getHomework(req.params.id);
+      if (!homework || !canAccessClass(scope, homework.classId)) {
+        return res.status(404).json({ message: "Homework not found" });
+      }
+      const updated = await changeHomeworkStatus(homework, status);
+      broadcast({ entity: "homework", action: "updated", id: updated.id }, {
+        classIds: [updated.classId],
+        userIds: [updated.tutorId],
+      });
+      res.json(updated);
+    } catch (error) {
+      if (error instanceof HttpError) {
+        return res.status(error.status).json({ message: error.message, ...error.details });
+      }
+      res.status(400).json({ message: "Invalid homework status" });
+    }
+  });
+
+  // Deletes the homework along with its submissions and uploaded files
+  app.delete("/api/homework/:id", requireRole("admin", "tutor"), async (req, res) => {
+    try {
+      const scope = await resolveScope(req.user!);
+      const homework = await storage.getHomework(req.params.id);
+      if (!homework || !canAccessClass(scope, homework.classId)) {
+        return res.status(404).json({ message: "Homework not found" });
+      }
+      await deleteHomework(homework);
+      broadcast({ entity: "homework", action: "deleted", id: homework.id }, {
+        classIds: [homework.classId],
+        userIds: [homework.tutorId],
+      });
+      res.status(204).send();
+    } catch (error) {
+      res.status(500).json({ message: "Failed to delete homework" });
+    }
+  });
+
+  app.get("/api/homework/:id/submissions", requireRole("admin", "tutor"), async (req, res) => {
+    try {
+      const scope = await resolveScope(req.user!);
+      const homework = await storage.getHomework(req.params.id);
+      if (!homework || !canAccessClass(scope, homework.classId)) {
+        return res.status(404).json({ message: "Homework not found" });
+      }
       const submissions = await storage.getSubmissionsByHomework(req.params.id);
       res.json(submissions);
     } catch (error) {
@@ -200,21 +1011,66 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
-  app.post("/api/homework/:id/submissions", async (req, res) => {
+  app.get("/api/homework/:id/breakdown", requireRole("admin", "tutor"), async (req, res) => {
     try {
-      const submissionData = insertHomeworkSubmissionSchema.parse({
-        ...req.body,
-        homeworkId: req.params.id
+      const scope = await resolveScope(req.user!);
+      const homework = await storage.getHomework(req.params.id);
+      if (!homework || !canAccessClass(scope, homework.classId)) {
+        return res.status(404).json({ message: "Homework not found" });
+      }
+      res.json(await homeworkBreakdown(homework));
+    } catch (error) {
+      res.status(500).json({ message: "Failed to fetch homework breakdown" });
+    }
+  });
+
+  app.post("/api/homework/:id/submissions", requireRole("student"), async (req, res) => {
+    try {
+      const scope = await resolveScope(req.user!);
+      const homework = await storage.getHomework(req.params.id);
+      const student = await storage.getStudentByUser(req.user!.id);
+      if (!homework || !student || !canAccessClass(scope, homework.classId)) {
+        return res.status(404).json({ message: "Homework not found" });
+      }
+      const submission = await submitHomework(homework, student, homeworkSubmissionInputSchema.parse(req.body), req.user!);
+      broadcast({ entity: "submissions", action: "created", id: submission.id }, {
+        userIds: [homework.tutorId],
+        studentIds: [student.id],
       });
-      const submission = await storage.createHomeworkSubmission(submissionData);
       res.status(201).json(submission);
     } catch (error) {
+      if (error instanceof HttpError) {
+        return res.status(error.status).json({ message: error.message, ...error.details });
+      }
       res.status(400).json({ message: "Invalid submission data" });
     }
   });
 
+  app.put("/api/submissions/:id/grade", requireRole("admin", "tutor"), async (req, res) => {
+    try {
+      const input = gradeSubmissionSchema.parse(req.body);
+      const scope = await resolveScope(req.user!);
+      const submission = await storage.getHomeworkSubmission(req.params.id);
+      const homework = submission && await storage.getHomework(submission.homeworkId);
+      if (!submission || !homework || !canAccessClass(scope, homework.classId)) {
+        return res.status(404).json({ message: "Submission not found" });
+      }
+      const graded = await gradeSubmission(submission, homework, input, req.user!);
+      broadcast({ entity: "submissions", action: "updated", id: graded.id }, {
+        userIds: [homework.tutorId],
+        studentIds: [graded.studentId],
+      });
+      res.json(graded);
+    } catch (error) {
+      if (error instanceof HttpError) {
+        return res.status(error.status).json({ message: error.message, ...error.details });
+      }
+      res.status(400).json({ message: "Invalid grade" });
+    }
+  });
+
   // Announcement endpoints
-  app.get("/api/announcements", async (req, res) => {
+  app.get("/api/announcements", requireAuth, async (req, res) => {
     try {
       const { tutorId } = req.query;
       let announcements;
@@ -223,40 +1079,93 @@ export async function registerRoutes(app: Express): Promise<Server> {
       } else {
         announcements = await storage.getAllAnnouncements();
       }
-      res.json(announcements);
+      const scope = await resolveScope(req.user!);
+      res.json(announcements.filter(announcement => canAccessAnnouncement(scope, announcement)));
     } catch (error) {
       res.status(500).json({ message: "Failed to fetch announcements" });
     }
   });
 
-  app.post("/api/announcements", async (req, res) => {
+  app.post("/api/announcements", requireRole("admin", "tutor"), async (req, res) => {
     try {
-      const announcementData = insertAnnouncementSchema.parse(req.body);
+      const announcementData = insertAnnouncementSchema.parse({
+        ...req.body,
+        tutorId: req.user!.role === "tutor" ? req.user!.id : req.body.tutorId,
+      });
+      const scope = await resolveScope(req.user!);
+      const classIds = (announcementData.classIds as string[] | undefined) ?? [];
+      if (!classIds.every(classId => canAccessClass(scope, classId))) {
+        return res.status(404).json({ message: "Class not found" });
+      }
       const announcement = await storage.createAnnouncement(announcementData);
+      await notifyAnnouncement(announcement);
+      // Institute-wide announcements concern everyone; the list endpoint filters by audience
+      broadcast({ entity: "announcements", action: "created", id: announcement.id }, announcement.classIds.length > 0
+        ? { classIds: announcement.classIds, userIds: [announcement.tutorId] }
+        : { roles: ["admin", "tutor", "student", "parent"] });
       res.status(201).json(announcement);
     } catch (error) {
       res.status(400).json({ message: "Invalid announcement data" });
     }
   });
 
+  // Notification endpoints (always the signed-in user's own)
+  app.get("/api/notifications", requireAuth, async (req, res) => {
+    try {
+      const notifications = await storage.getNotificationsByUser(req.user!.id);
+      res.json(notifications);
+    } catch (error) {
+      res.status(500).json({ message: "Failed to fetch notifications" });
+    }
+  });
+
+  app.post("/api/notifications/read-all", requireAuth, async (req, res) => {
+    try {
+      const updated = await storage.markAllNotificationsRead(req.user!.id);
+      // Other open tabs of the same user refresh their badge
+      broadcast({ entity: "notifications", action: "updated" }, { userIds: [req.user!.id] });
+      res.json({ updated });
+    } catch (error) {
+      res.status(500).json({ message: "Failed to update notifications" });
+    }
+  });
+
+  app.post("/api/notifications/:id/read", requireAuth, async (req, res) => {
+    try {
+      const existing = await storage.getNotification(req.params.id);
+      if (!existing || existing.userId !== req.user!.id) {
+        return res.status(404).json({ message: "Notification not found" });
+      }
+      const notification = await storage.markNotificationRead(existing.id);
+      broadcast({ entity: "notifications", action: "updated", id: existing.id }, { userIds: [req.user!.id] });
+      res.json(notification);
+    } catch (error) {
+      res.status(500).json({ message: "Failed to update notification" });
+    }
+  });
+
   // Dashboard stats endpoint
-  app.get("/api/dashboard/stats", async (req, res) => {
+  app.get("/api/dashboard/stats", requireRole("admin", "tutor"), async (req, res) => {
     try {
-      const students = await storage.getAllStudents();
-      const classes = await storage.getAllClasses();
-      const fees = await storage.getAllFees();
+      const scope = await resolveScope(req.user!);
+      const students = (await storage.getAllStudents()).filter(student => canAccessStudent(scope, student.id));
+      const classes = (await storage.getAllClasses()).filter(cls => canAccessClass(scope, cls.id));
+      const fees = (await storage.getAllFees()).filter(fee => canAccessFee(scope, fee));
       
       const totalStudents = students.length;
-      const classesToday = classes.length; // Simplified for demo
+      const today = startOfDay(new Date());
+      const todaysSessions = await getSessions(classes, today, addDays(today, 1));
+      const classesToday = todaysSessions.filter(session => session.status !== "cancelled").length;
       
-      const currentMonth = new Date().toISOString().slice(0, 7);
-      const monthlyFees = fees.filter(fee => fee.month === currentMonth);
-      const monthlyRevenue = monthlyFees
-        .filter(fee => fee.status === 'paid')
-        .reduce((sum, fee) => sum + parseFloat(fee.amount), 0);
+      // Money received this month, net of refunds
+      const feeIds = new Set(fees.map(fee => fee.id));
+      const monthStart = startOfMonth(new Date());
+      const monthlyRevenue = sumAmounts((await storage.getAllPayments())
+        .filter(payment => feeIds.has(payment.feeId) && payment.paidAt >= monthStart)
+        .map(payment => payment.amount));
       
-      // Calculate average attendance (simplified)
-      const avgAttendance = 94.2; // Mock for now
+      const analytics = await getAttendanceAnalytics(scope, defaultAnalyticsRange());
+      const avgAttendance = analytics.overall.rate ?? 0;
       
       res.json({
         totalStudents,
@@ -270,17 +1179,18 @@ export async function registerRoutes(app: Express): Promise<Server> {
   });
 
   // Admin Dashboard Stats
-  app.get("/api/admin/dashboard/stats", async (req, res) => {
+  app.get("/api/admin/dashboard/stats", requireRole("admin"), async (req, res) => {
     try {
       const stats = await storage.getAdminDashboardStats();
-      res.json(stats);
+      const analytics = await getAttendanceAnalytics(await resolveScope(req.user!), defaultAnalyticsRange());
+      res.json({ ...stats, avgAttendance: analytics.overall.rate ?? 0 });
     } catch (error) {
       res.status(500).json({ message: "Failed to fetch admin dashboard stats" });
     }
   });
 
   // Admin User Management
-  app.get("/api/admin/users", async (req, res) => {
+  app.get("/api/admin/users", requireRole("admin"), async (req, res) => {
     try {
       const { role } = req.query;
       let users;
@@ -297,20 +1207,22 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
-  app.post("/api/admin/users", async (req, res) => {
+  app.post("/api/admin/users", requireRole("admin"), async (req, res) => {
     try {
       const userData = insertUserSchema.parse(req.body);
       const user = await storage.createUser(userData);
       
       // Log the action
-      await storage.createSystemLog({
-        adminId: req.body.adminId || 'system',
+      const log = await storage.createSystemLog({
+        adminId: req.user!.id,
         action: 'user_created',
         targetType: 'user',
         targetId: user.id,
         details: { userRole: user.role, userName: user.name },
         ipAddress: req.ip,
       });
+      broadcast({ entity: "users", action: "created", id: user.id }, admins);
+      broadcast({ entity: "systemLogs", action: "created", id: log.id }, admins);
 
       res.status(201).json({ ...user, password: undefined });
     } catch (error) {
@@ -318,7 +1230,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
-  app.put("/api/admin/users/:id/status", async (req, res) => {
+  app.put("/api/admin/users/:id/status", requireRole("admin"), async (req, res) => {
     try {
       const { isActive } = req.body;
       const user = await storage.updateUserStatus(req.params.id, isActive);
@@ -327,14 +1239,16 @@ export async function registerRoutes(app: Express): Promise<Server> {
       }
       
       // Log the action
-      await storage.createSystemLog({
-        adminId: req.body.adminId || 'system',
+      const log = await storage.createSystemLog({
+        adminId: req.user!.id,
         action: isActive ? 'user_activated' : 'user_deactivated',
         targetType: 'user',
         targetId: user.id,
         details: { userName: user.name, newStatus: isActive },
         ipAddress: req.ip,
       });
+      broadcast({ entity: "users", action: "updated", id: user.id }, admins);
+      broadcast({ entity: "systemLogs", action: "created", id: log.id }, admins);
 
       res.json({ ...user, password: undefined });
     } catch (error) {
@@ -342,12 +1256,23 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
-  app.delete("/api/admin/users/:id", async (req, res) => {
+  app.delete("/api/admin/users/:id", requireRole("admin"), async (req, res) => {
     try {
       const user = await storage.getUser(req.params.id);
       if (!user) {
         return res.status(404).json({ message: "User not found" });
       }
+      // Teaching records belong to a tutor and can't be left without one
+      const [classes, homework, announcements] = await Promise.all([
+        storage.getClassesByTutor(user.id),
+        storage.getHomeworkByTutor(user.id),
+        storage.getAnnouncementsByTutor(user.id),
+      ]);
+      if (classes.length > 0 || homework.length > 0 || announcements.length > 0) {
+        return res.status(409).json({
+          message: "This user still has classes, homework or announcements; reassign or delete them first",
+        });
+      }
 
       const deleted = await storage.deleteUser(req.params.id);
       if (!deleted) {
@@ -355,14 +1280,16 @@ export async function registerRoutes(app: Express): Promise<Server> {
       }
 
       // Log the action
-      await storage.createSystemLog({
-        adminId: req.body.adminId || 'system',
+      const log = await storage.createSystemLog({
+        adminId: req.user!.id,
         action: 'user_deleted',
         targetType: 'user',
         targetId: req.params.id,
         details: { userName: user.name, userRole: user.role },
         ipAddress: req.ip,
       });
+      broadcast({ entity: "users", action: "deleted", id: user.id }, admins);
+      broadcast({ entity: "systemLogs", action: "created", id: log.id }, admins);
 
       res.status(204).send();
     } catch (error) {
@@ -371,7 +1298,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
   });
 
   // Admin System Logs
-  app.get("/api/admin/system-logs", async (req, res) => {
+  app.get("/api/admin/system-logs", requireRole("admin"), async (req, res) => {
     try {
       const { adminId, action } = req.query;
       let logs;
@@ -388,10 +1315,11 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
-  app.post("/api/admin/system-logs", async (req, res) => {
+  app.post("/api/admin/system-logs", requireRole("admin"), async (req, res) => {
     try {
-      const logData = insertSystemLogSchema.parse(req.body);
+      const logData = insertSystemLogSchema.parse({ ...req.body, adminId: req.user!.id });
       const log = await storage.createSystemLog(logData);
+      broadcast({ entity: "systemLogs", action: "created", id: log.id }, admins);
       res.status(201).json(log);
     } catch (error) {
       res.status(400).json({ message: "Invalid log data" });
@@ -399,7 +1327,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
   });
 
   // Admin System Settings
-  app.get("/api/admin/settings", async (req, res) => {
+  app.get("/api/admin/settings", requireRole("admin"), async (req, res) => {
     try {
       const { category } = req.query;
       let settings;
@@ -414,20 +1342,22 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
-  app.post("/api/admin/settings", async (req, res) => {
+  app.post("/api/admin/settings", requireRole("admin"), async (req, res) => {
     try {
-      const settingData = insertSystemSettingSchema.parse(req.body);
+      const settingData = insertSystemSettingSchema.parse({ ...req.body, updatedBy: req.user!.id });
       const setting = await storage.createSystemSetting(settingData);
       
       // Log the action
-      await storage.createSystemLog({
-        adminId: req.body.adminId || 'system',
+      const log = await storage.createSystemLog({
+        adminId: req.user!.id,
         action: 'setting_created',
         targetType: 'setting',
         targetId: setting.id,
         details: { key: setting.key, category: setting.category },
         ipAddress: req.ip,
       });
+      broadcast({ entity: "settings", action: "created", id: setting.id }, admins);
+      broadcast({ entity: "systemLogs", action: "created", id: log.id }, admins);
 
       res.status(201).json(setting);
     } catch (error) {
@@ -435,23 +1365,25 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
-  app.put("/api/admin/settings/:id", async (req, res) => {
+  app.put("/api/admin/settings/:id", requireRole("admin"), async (req, res) => {
     try {
-      const updates = req.body;
+      const updates = { ...req.body, updatedBy: req.user!.id };
       const setting = await storage.updateSystemSetting(req.params.id, updates);
       if (!setting) {
         return res.status(404).json({ message: "Setting not found" });
       }
 
       // Log the action
-      await storage.createSystemLog({
-        adminId: req.body.adminId || 'system',
+      const log = await storage.createSystemLog({
+        adminId: req.user!.id,
         action: 'setting_updated',
         targetType: 'setting',
         targetId: setting.id,
         details: { key: setting.key, newValue: setting.value },
         ipAddress: req.ip,
       });
+      broadcast({ entity: "settings", action: "updated", id: setting.id }, admins);
+      broadcast({ entity: "systemLogs", action: "created", id: log.id }, admins);
 
       res.json(setting);
     } catch (error) {
@@ -459,8 +1391,113 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
+  // Discount rules, applied by the billing run
+  app.get("/api/admin/discount-rules", requireRole("admin"), async (req, res) => {
+    try {
+      res.json(await storage.getAllDiscountRules());
+    } catch (error) {
+      res.status(500).json({ message: "Failed to fetch discount rules" });
+    }
+  });
+
+  // A rule's student and class must exist, rather than failing on the foreign key
+  const checkDiscountTargets = async (rule: { studentId?: string | null; classId?: string | null }) => {
+    if (rule.studentId && !(await storage.getStudent(rule.studentId))) {
+      throw new HttpError(404, "Student not found");
+    }
+    if (rule.classId && !(await storage.getClass(rule.classId))) {
+      throw new HttpError(404, "Class not found");
+    }
+  };
+
+  app.post("/api/admin/discount-rules", requireRole("admin"), async (req, res) => {
+    try {
+      const ruleData = insertDiscountRuleSchema.parse({ ...req.body, createdBy: req.user!.id });
+      validateDiscountRule(ruleData);
+      await checkDiscountTargets(ruleData);
+      const rule = await storage.createDiscountRule(ruleData);
+
+      const log = await storage.createSystemLog({
+        adminId: req.user!.id,
+        action: 'discount_rule_created',
+        targetType: 'discount_rule',
+        targetId: rule.id,
+        details: { name: rule.name, type: rule.type, value: rule.value, scope: rule.scope },
+        ipAddress: req.ip,
+      });
+      broadcast({ entity: "discountRules", action: "created", id: rule.id }, admins);
+      broadcast({ entity: "systemLogs", action: "created", id: log.id }, admins);
+
+      res.status(201).json(rule);
+    } catch (error) {
+      if (error instanceof HttpError) {
+        return res.status(error.status).json({ message: error.message, ...error.details });
+      }
+      res.status(400).json({ message: "Invalid discount rule" });
+    }
+  });
+
+  app.put("/api/admin/discount-rules/:id", requireRole("admin"), async (req, res) => {
+    try {
+      const existing = await storage.getDiscountRule(req.params.id);
+      if (!existing) {
+        return res.status(404).json({ message: "Discount rule not found" });
+      }
+      const updates = insertDiscountRuleSchema.omit({ createdBy: true }).partial().parse(req.body);
+      validateDiscountRule({ ...existing, ...updates });
+      await checkDiscountTargets(updates);
+      const rule = await storage.updateDiscountRule(req.params.id, updates);
+      if (!rule) {
+        return res.status(404).json({ message: "Discount rule not found" });
+      }
+
+      const log = await storage.createSystemLog({
+        adminId: req.user!.id,
+        action: 'discount_rule_updated',
+        targetType: 'discount_rule',
+        targetId: rule.id,
+        details: { name: rule.name, changes: updates },
+        ipAddress: req.ip,
+      });
+      broadcast({ entity: "discountRules", action: "updated", id: rule.id }, admins);
+      broadcast({ entity: "systemLogs", action: "created", id: log.id }, admins);
+
+      res.json(rule);
+    } catch (error) {
+      if (error instanceof HttpError) {
+        return res.status(error.status).json({ message: error.message, ...error.details });
+      }
+      res.status(400).json({ message: "Failed to update discount rule" });
+    }
+  });
+
+  // Removing a rule stops it applying to future billing runs; fees already billed keep their discount
+  app.delete("/api/admin/discount-rules/:id", requireRole("admin"), async (req, res) => {
+    try {
+      const rule = await storage.getDiscountRule(req.params.id);
+      if (!rule || !(await storage.deleteDiscountRule(rule.id))) {
+        return res.status(404).json({ message: "Discount rule not found" });
+      }
+
+      const log = await storage.createSystemLog({
+        adminId: req.user!.id,
+        action: 'discount_rule_deleted',
+        targetType: 'discount_rule',
+        targetId: rule.id,
+        details: { name: rule.name },
+        ipAddress: req.ip,
+      });
+      broadcast({ entity: "discountRules", action: "deleted", id: rule.id }, admins);
+      broadcast({ entity: "systemLogs", action: "created", id: log.id }, admins);
+
+      res.status(204).send();
+    } catch (error) {
+      res.status(500).json({ message: "Failed to delete discount rule" });
+    }
+  });
+
   // Admin Reports
-  app.get("/api/admin/reports/users", async (req, res) => {
+  app.get("/api/admin/reports/users", requireRole("admin"), async (req, res) => {
     try {
       const users = await storage.getAllUsers();
       const report = {
@@ -483,41 +1520,48 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
-  app.get("/api/admin/reports/financial", async (req, res) => {
+  app.get("/api/admin/reports/financial", requireRole("admin"), async (req, res) => {
     try {
-      const fees = await storage.getAllFees();
-      const totalRevenue = fees
-        .filter(fee => fee.status === 'paid')
-        .reduce((sum, fee) => sum + parseFloat(fee.amount), 0);
-      
-      const pendingAmount = fees
-        .filter(fee => fee.status === 'pending')
-        .reduce((sum, fee) => sum + parseFloat(fee.amount), 0);
-      
-      const overdueAmount = fees
-        .filter(fee => fee.status === 'overdue')
-        .reduce((sum, fee) => sum + parseFloat(fee.amount), 0);
+      const fees = await withBalances(await storage.getAllFees());
+      const payments = await storage.getAllPayments();
 
-      const currentMonth = new Date().toISOString().slice(0, 7);
-      const monthlyRevenue = fees
-        .filter(fee => fee.status === 'paid' && fee.month === currentMonth)
-        .reduce((sum, fee) => sum + parseFloat(fee.amount), 0);
+      // Revenue is what the ledger received, net of refunds
+      const totalRevenue = sumAmounts(payments.map(payment => payment.amount));
+      const monthStart = startOfMonth(new Date());
+      const monthlyRevenue = sumAmounts(payments.filter(payment => payment.paidAt >= monthStart).map(payment => payment.amount));
+      const refundedAmount = -sumAmounts(payments.filter(payment => parseFloat(payment.amount) < 0).map(payment => payment.amount));
 
-      res.json({
+      // Outstanding balances, so part-payments are not counted twice
+      const pendingAmount = sumAmounts(fees
+        .filter(fee => fee.status === 'pending' || fee.status === 'partially_paid')
+        .map(fee => fee.balance));
+      const overdueAmount = sumAmounts(fees.filter(fee => fee.status === 'overdue').map(fee => fee.balance));
+
+      // Taken off fees by discount rules when they were billed
+      const discountedFees = fees.filter(fee => fee.discount !== null);
+      const discountAmount = sumAmounts(discountedFees.map(fee => fee.discount!));
+
+      const report: FinancialReport = {
         totalRevenue,
         monthlyRevenue,
         pendingAmount,
         overdueAmount,
+        refundedAmount,
+        discountAmount,
         totalFees: fees.length,
         paidFees: fees.filter(fee => fee.status === 'paid').length,
+        partiallyPaidFees: fees.filter(fee => fee.status === 'partially_paid').length,
         pendingFees: fees.filter(fee => fee.status === 'pending').length,
         overdueFees: fees.filter(fee => fee.status === 'overdue').length,
-      });
+        discountedFees: discountedFees.length,
+      };
+      res.json(report);
     } catch (error) {
       res.status(500).json({ message: "Failed to generate financial report" });
     }
   });
 
   const httpServer = createServer(app);
+  setupRealtime(httpServer, sessionMiddleware);
   return httpServer;
 }
@@ -0,0 +1,71 @@
+import { type User, type Student, type Fee, type Announcement } from "@shared/schema";
+import { storage } from "./storage";
+
+// The rows an authenticated user may see. `null` sets mean unrestricted (admins).
+export interface DataScope {
+  user: User;
+  studentIds: Set<string> | null;
+  classIds: Set<string> | null;
+}
+
+export async function resolveScope(user: User): Promise<DataScope> {
+  switch (user.role) {
+    case "admin":
+      return { user, studentIds: null, classIds: null };
+    case "tutor": {
+      // A tutor sees the rosters of their classes plus students assigned to them directly
+      const classes = await storage.getClassesByTutor(user.id);
+      const assigned = await storage.getStudentsByTutor(user.id);
+      return {
+        user,
+        studentIds: new Set([...classes.flatMap(cls => cls.studentIds), ...assigned.map(s => s.id)]),
+        classIds: new Set(classes.map(cls => cls.id)),
+      };
+    }
+    case "parent":
+      return scopeForStudents(user, await storage.getStudentsByParent(user.id));
+    case "student": {
+      const self = await storage.getStudentByUser(user.id);
+      return scopeForStudents(user, self ? [self] : []);
+    }
+    default:
+      return { user, studentIds: new Set(), classIds: new Set() };
+  }
+}
+
+async function scopeForStudents(user: User, students: Student[]): Promise<DataScope> {
+  const classes = (await Promise.all(students.map(s => storage.getClassesByStudent(s.id)))).flat();
+  return {
+    user,
+    studentIds: new Set(students.map(s => s.id)),
+    classIds: new Set(classes.map(cls => cls.id)),
+  };
+}
+
+export function canAccessStudent(scope: DataScope, studentId: string): boolean {
+  return scope.studentIds === null || scope.studentIds.has(studentId);
+}
+
+export function canAccessClass(scope: DataScope, classId: string): boolean {
+  return scope.classIds === null || scope.classIds.has(classId);
+}
+
+// Tutors see fees billed by their classes; students and parents see fees billed to themselves
+export function canAccessFee(scope: DataScope, fee: Pick<Fee, "studentId" | "classId">): boolean {
+  return scope.user.role === "tutor"
+    ? canAccessClass(scope, fee.classId)
+    : canAccessStudent(scope, fee.studentId);
+}
+
+export function canAccessAnnouncement(scope: DataScope, announcement: Announcement): boolean {
+  const { role, id } = scope.user;
+  if (role === "admin") return true;
+  if (role === "tutor") {
+    return announcement.tutorId === id || announcement.classIds.some(classId => canAccessClass(scope, classId));
+  }
+
+  const audience = role === "parent" ? "parents" : "students";
+  if (announcement.targetAudience !== "all" && announcement.targetAudience !== audience) return false;
+  // Announcements without classes are institute-wide
+  return announcement.classIds.length === 0 || announcement.classIds.some(classId => canAccessClass(scope, classId));
+}
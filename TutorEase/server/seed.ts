@@ -0,0 +1,126 @@
+import { fileURLToPath } from "url";
+import { startOfDay } from "date-fns";
+import { type InsertUser, type User } from "@shared/schema";
+import { storage as defaultStorage, type IStorage } from "./storage";
+import { pool } from "./db";
+
+// Demo fixtures shared by both storage backends. Every step looks up its
+// record first, so running the seed again leaves existing data untouched.
+export async function seedDemoData(storage: IStorage) {
+  const ensureUser = async (user: InsertUser): Promise<User> =>
+    (await storage.getUserByEmail(user.email)) ?? storage.createUser(user);
+
+  await ensureUser({
+    email: "admin@edumanage.com",
+    password: "admin123",
+    name: "System Administrator",
+    role: "admin",
+  });
+  const tutor = await ensureUser({
+    email: "tutor@edumanage.com",
+    password: "password123",
+    name: "Sarah Johnson",
+    role: "tutor",
+  });
+  const parent = await ensureUser({
+    email: "parent@edumanage.com",
+    password: "password123",
+    name: "David Chen",
+    role: "parent",
+  });
+  const studentUser = await ensureUser({
+    email: "alex.chen@email.com",
+    password: "password123",
+    name: "Alex Chen",
+    role: "student",
+  });
+
+  const existingStudents = await storage.getAllStudents();
+  const alex = existingStudents.find(s => s.email === "alex.chen@email.com") ?? await storage.createStudent({
+    name: "Alex Chen",
+    email: "alex.chen@email.com",
+    rollNumber: "101",
+    grade: "Grade 10",
+    subjects: ["Mathematics"],
+    parentId: parent.id,
+    tutorId: tutor.id,
+    userId: studentUser.id,
+  });
+  if (!existingStudents.some(s => s.email === "emma.wilson@email.com")) {
+    await storage.createStudent({
+      name: "Emma Wilson",
+      email: "emma.wilson@email.com",
+      rollNumber: "102",
+      grade: "Grade 11",
+      subjects: ["Physics"],
+      tutorId: tutor.id,
+    });
+  }
+
+  const tutorClasses = await storage.getClassesByTutor(tutor.id);
+  const mathClass = tutorClasses.find(c => c.name === "Mathematics Grade 10") ?? await storage.createClass({
+    name: "Mathematics Grade 10",
+    subject: "Mathematics",
+    grade: "Grade 10",
+    tutorId: tutor.id,
+    schedule: [
+      { day: "Monday", time: "2:00 PM", duration: 60, room: "Room 101" },
+      { day: "Wednesday", time: "2:00 PM", duration: 60, room: "Room 101" },
+    ],
+    studentIds: [alex.id],
+    feeAmount: "250.00",
+  });
+  const mathEnrollments = await storage.getEnrollmentsByClass(mathClass.id);
+  if (!mathEnrollments.some(e => e.studentId === alex.id)) {
+    await storage.createEnrollment({
+      classId: mathClass.id,
+      studentId: alex.id,
+      startDate: startOfDay(new Date()),
+      status: "active",
+    });
+  }
+
+  const alexFees = await storage.getFeesByStudent(alex.id);
+  if (!alexFees.some(fee => fee.classId === mathClass.id && fee.month === "2024-11")) {
+    const paidFee = await storage.createFee({
+      studentId: alex.id,
+      classId: mathClass.id,
+      amount: "250.00",
+      dueDate: new Date(Date.now() + 7 * 24 * 60 * 60 * 1000), // 7 days from now
+      paidDate: new Date(),
+      status: "paid",
+      month: "2024-11",
+    });
+    await storage.createPayment({
+      feeId: paidFee.id,
+      amount: "250.00",
+      method: "cash",
+      receivedBy: tutor.id,
+      paidAt: paidFee.paidDate!,
+    });
+  }
+
+  const classHomework = await storage.getHomeworkByClass(mathClass.id);
+  if (!classHomework.some(hw => hw.title === "Chapter 5: Quadratic Equations")) {
+    await storage.createHomework({
+      title: "Chapter 5: Quadratic Equations",
+      description: "Complete exercises 5.1 to 5.5 from the textbook. Show all working steps clearly.",
+      classId: mathClass.id,
+      tutorId: tutor.id,
+      dueDate: new Date(Date.now() + 7 * 24 * 60 * 60 * 1000),
+      status: "active",
+    });
+  }
+}
+
+if (process.argv[1] === fileURLToPath(import.meta.url)) {
+  seedDemoData(defaultStorage)
+    .then(() => {
+      console.log("Seed data ensured");
+      return pool?.end();
+    })
+    .catch((error) => {
+      console.error("Seeding failed:", error);
+      process.exit(1);
+    });
+}
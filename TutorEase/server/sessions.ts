@@ -0,0 +1,110 @@
+import { addDays, addMinutes, isBefore, startOfDay } from "date-fns";
+import { type Class, type ClassSession, type ScheduleSlot, type SessionException } from "@shared/schema";
+import { storage } from "./storage";
+
+export const DEFAULT_DURATION = 60; // minutes, for slots saved before durations existed
+const weekDays = ["Sunday", "Monday", "Tuesday", "Wednesday", "Thursday", "Friday", "Saturday"];
+
+// Schedule times are wall-clock strings like "2:00 PM" or "14:00"; returns minutes after midnight
+export function parseSlotTime(time: string): number | null {
+  const match = time.trim().match(/^(\d{1,2}):(\d{2})\s*([AaPp][Mm])?$/);
+  if (!match) return null;
+  let hours = Number(match[1]);
+  const minutes = Number(match[2]);
+  const meridiem = match[3]?.toUpperCase();
+  if (minutes > 59) return null;
+  if (meridiem) {
+    if (hours < 1 || hours > 12) return null;
+    hours = (hours % 12) + (meridiem === "PM" ? 12 : 0);
+  } else if (hours > 23) {
+    return null;
+  }
+  return hours * 60 + minutes;
+}
+
+function slotsOf(cls: Class): ScheduleSlot[] {
+  return cls.schedule as ScheduleSlot[];
+}
+
+// Every scheduled start of `cls` in [from, to), before exceptions are applied
+export function scheduledOccurrences(cls: Class, from: Date, to: Date): { start: Date; slot: ScheduleSlot }[] {
+  const occurrences: { start: Date; slot: ScheduleSlot }[] = [];
+  // Classes have no sessions before the day they were created
+  const firstDay = cls.createdAt && isBefore(from, cls.createdAt) ? startOfDay(cls.createdAt) : startOfDay(from);
+
+  for (let day = firstDay; isBefore(day, to); day = addDays(day, 1)) {
+    for (const slot of slotsOf(cls)) {
+      if (slot.day !== weekDays[day.getDay()]) continue;
+      const minutes = parseSlotTime(slot.time);
+      if (minutes === null) continue;
+      const start = addMinutes(day, minutes);
+      if (start >= from && start < to) {
+        occurrences.push({ start, slot });
+      }
+    }
+  }
+  return occurrences;
+}
+
+function findSlot(cls: Class, start: Date): ScheduleSlot | undefined {
+  const minutes = start.getHours() * 60 + start.getMinutes();
+  return slotsOf(cls).find(slot =>
+    slot.day === weekDays[start.getDay()] && parseSlotTime(slot.time) === minutes
+  );
+}
+
+export function isScheduledStart(cls: Class, start: Date): boolean {
+  return findSlot(cls, start) !== undefined;
+}
+
+function toSession(cls: Class, scheduledStart: Date, slot: ScheduleSlot | undefined, exception?: SessionException): ClassSession {
+  const rescheduled = exception?.type === "rescheduled";
+  const start = rescheduled && exception.startsAt ? exception.startsAt : scheduledStart;
+  const duration = (rescheduled ? exception.duration : null) ?? slot?.duration ?? DEFAULT_DURATION;
+  return {
+    id: `${cls.id}:${scheduledStart.toISOString()}`,
+    classId: cls.id,
+    className: cls.name,
+    subject: cls.subject,
+    tutorId: cls.tutorId,
+    scheduledStart,
+    start,
+    end: addMinutes(start, duration),
+    duration,
+    room: (rescheduled ? exception.room : null) ?? slot?.room ?? null,
+    status: exception ? (exception.type as ClassSession["status"]) : "scheduled",
+    exceptionId: exception?.id ?? null,
+    reason: exception?.reason ?? null,
+  };
+}
+
+// Expands the weekly schedules of `classes` into dated sessions in [from, to).
+// Cancelled sessions are kept (with status "cancelled") so calendars can show them;
+// rescheduled sessions appear where they now take place.
+export async function getSessions(classes: Class[], from: Date, to: Date): Promise<ClassSession[]> {
+  const sessions: ClassSession[] = [];
+
+  for (const cls of classes) {
+    const exceptions = await storage.getSessionExceptionsByClass(cls.id);
+    const byScheduledStart = new Map(exceptions.map(e => [e.sessionDate.getTime(), e]));
+
+    for (const { start, slot } of scheduledOccurrences(cls, from, to)) {
+      const session = toSession(cls, start, slot, byScheduledStart.get(start.getTime()));
+      if (session.status === "cancelled" || (session.start >= from && session.start < to)) {
+        sessions.push(session);
+      }
+    }
+
+    // Sessions moved into the range from a date outside it
+    for (const exception of exceptions) {
+      if (exception.type !== "rescheduled" || !exception.startsAt) continue;
+      const movedIn = exception.startsAt >= from && exception.startsAt < to;
+      const originallyInRange = exception.sessionDate >= from && exception.sessionDate < to;
+      if (movedIn && !originallyInRange) {
+        sessions.push(toSession(cls, exception.sessionDate, findSlot(cls, exception.sessionDate), exception));
+      }
+    }
+  }
+
+  return sessions.sort((a, b) => a.start.getTime() - b.start.getTime());
+}
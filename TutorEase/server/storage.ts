@@ -1,12 +1,20 @@
 import { 
   type User, type InsertUser, type Student, type InsertStudent, 
-  type Class, type InsertClass, type Attendance, type InsertAttendance,
-  type Fee, type InsertFee, type Homework, type InsertHomework,
-  type HomeworkSubmission, type InsertHomeworkSubmission,
+  type Class, type InsertClass, type Enrollment, type InsertEnrollment,
+  type SessionException, type InsertSessionException, type Attendance, type InsertAttendance,
+  type Fee, type InsertFee, type Payment, type InsertPayment, type Receipt, type InsertReceipt,
+  type Checkout, type InsertCheckout, type DiscountRule, type InsertDiscountRule,
+  type Homework, type InsertHomework,
+  type HomeworkSubmission, type InsertHomeworkSubmission, type Upload, type InsertUpload,
   type Announcement, type InsertAnnouncement, type SystemLog,
-  type InsertSystemLog, type SystemSetting, type InsertSystemSetting
+  type InsertSystemLog, type Notification, type InsertNotification,
+  type SystemSetting, type InsertSystemSetting
 } from "@shared/schema";
 import { randomUUID } from "crypto";
+import { startOfDay, startOfMonth } from "date-fns";
+import { hashPassword } from "./password";
+import { db } from "./db";
+import { DatabaseStorage } from "./database-storage";
 
 export interface IStorage {
   // Users
@@ -19,6 +27,7 @@ export interface IStorage {
   getStudent(id: string): Promise<Student | undefined>;
   getStudentsByTutor(tutorId: string): Promise<Student[]>;
   getStudentsByParent(parentId: string): Promise<Student[]>;
+  getStudentByUser(userId: string): Promise<Student | undefined>;
   getAllStudents(): Promise<Student[]>;
   createStudent(student: InsertStudent): Promise<Student>;
   updateStudent(id: string, student: Partial<InsertStudent>): Promise<Student | undefined>;
@@ -27,19 +36,36 @@ export interface IStorage {
   // Classes
   getClass(id: string): Promise<Class | undefined>;
   getClassesByTutor(tutorId: string): Promise<Class[]>;
-  getClassesByStudent(studentId: string): Promise<Class[]>;
+  // The classes whose roster the student is on at `date`, like getClassRoster()
+  getClassesByStudent(studentId: string, date?: Date): Promise<Class[]>;
   getAllClasses(): Promise<Class[]>;
   createClass(classData: InsertClass): Promise<Class>;
   updateClass(id: string, classData: Partial<InsertClass>): Promise<Class | undefined>;
   deleteClass(id: string): Promise<boolean>;
 
+  // Enrollments
+  getEnrollment(id: string): Promise<Enrollment | undefined>;
+  getEnrollmentsByClass(classId: string): Promise<Enrollment[]>;
+  getEnrollmentsByStudent(studentId: string): Promise<Enrollment[]>;
+  getClassRoster(classId: string, date?: Date): Promise<Enrollment[]>;
+  createEnrollment(enrollment: InsertEnrollment): Promise<Enrollment>;
+  updateEnrollment(id: string, enrollment: Partial<InsertEnrollment>): Promise<Enrollment | undefined>;
+
+  // Session exceptions
+  getSessionException(id: string): Promise<SessionException | undefined>;
+  getSessionExceptionsByClass(classId: string): Promise<SessionException[]>;
+  createSessionException(exception: InsertSessionException): Promise<SessionException>;
+  deleteSessionException(id: string): Promise<boolean>;
+
   // Attendance
   getAttendance(id: string): Promise<Attendance | undefined>;
   getAttendanceByClass(classId: string, date?: Date): Promise<Attendance[]>;
   getAttendanceByStudent(studentId: string): Promise<Attendance[]>;
+  getAttendanceInRange(from: Date, to: Date): Promise<Attendance[]>;
   createAttendance(attendance: InsertAttendance): Promise<Attendance>;
   updateAttendance(id: string, attendance: Partial<InsertAttendance>): Promise<Attendance | undefined>;
-  bulkCreateAttendance(attendanceList: InsertAttendance[]): Promise<Attendance[]>;
+  // One row per (classId, studentId, day): saving a register again updates it
+  bulkUpsertAttendance(attendanceList: InsertAttendance[]): Promise<Attendance[]>;
 
   // Fees
   getFee(id: string): Promise<Fee | undefined>;
@@ -48,8 +74,36 @@ export interface IStorage {
   getFeesByMonth(month: string): Promise<Fee[]>;
   getAllFees(): Promise<Fee[]>;
   createFee(fee: InsertFee): Promise<Fee>;
+  // Undefined when the student already has a fee for that class and month
+  createFeeIfAbsent(fee: InsertFee): Promise<Fee | undefined>;
   updateFee(id: string, fee: Partial<InsertFee>): Promise<Fee | undefined>;
   deleteFee(id: string): Promise<boolean>;
+  // Runs `fn` with the fee locked: other withFeeLock() calls for it wait until `fn` has
+  // finished. `fn` must make its reads and writes through the storage it is given.
+  withFeeLock<T>(feeId: string, fn: (storage: IStorage) => Promise<T>): Promise<T>;
+
+  // Payments
+  getPayment(id: string): Promise<Payment | undefined>;
+  getPaymentsByFee(feeId: string): Promise<Payment[]>;
+  getAllPayments(): Promise<Payment[]>;
+  createPayment(payment: InsertPayment): Promise<Payment>;
+
+  // Checkouts
+  getCheckout(id: string): Promise<Checkout | undefined>;
+  getCheckoutByProviderRef(providerRef: string): Promise<Checkout | undefined>;
+  createCheckout(checkout: InsertCheckout): Promise<Checkout>;
+  updateCheckout(id: string, checkout: Partial<InsertCheckout>): Promise<Checkout | undefined>;
+
+  // Discount Rules
+  getDiscountRule(id: string): Promise<DiscountRule | undefined>;
+  getAllDiscountRules(): Promise<DiscountRule[]>;
+  createDiscountRule(rule: InsertDiscountRule): Promise<DiscountRule>;
+  updateDiscountRule(id: string, rule: Partial<InsertDiscountRule>): Promise<DiscountRule | undefined>;
+  deleteDiscountRule(id: string): Promise<boolean>;
+
+  // Receipts
+  getReceiptByPayment(paymentId: string): Promise<Receipt | undefined>;
+  createReceipt(receipt: InsertReceipt): Promise<Receipt>;
 
   // Homework
   getHomework(id: string): Promise<Homework | undefined>;
@@ -67,6 +121,12 @@ export interface IStorage {
   createHomeworkSubmission(submission: InsertHomeworkSubmission): Promise<HomeworkSubmission>;
   updateHomeworkSubmission(id: string, submission: Partial<InsertHomeworkSubmission>): Promise<HomeworkSubmission | undefined>;
 
+  // Uploads
+  getUpload(id: string): Promise<Upload | undefined>;
+  createUpload(upload: InsertUpload): Promise<Upload>;
+  updateUpload(id: string, upload: Partial<InsertUpload>): Promise<Upload | undefined>;
+  deleteUpload(id: string): Promise<boolean>;
+
   // Announcements
   getAnnouncement(id: string): Promise<Announcement | undefined>;
   getAnnouncementsByTutor(tutorId: string): Promise<Announcement[]>;
@@ -90,6 +150,13 @@ export interface IStorage {
   getAllSystemLogs(): Promise<SystemLog[]>;
   createSystemLog(log: InsertSystemLog): Promise<SystemLog>;
   
+  // Notifications
+  getNotification(id: string): Promise<Notification | undefined>;
+  getNotificationsByUser(userId: string): Promise<Notification[]>;
+  createNotification(notification: InsertNotification): Promise<Notification>;
+  markNotificationRead(id: string): Promise<Notification | undefined>;
+  markAllNotificationsRead(userId: string): Promise<number>;
+
   // System Settings
   getSystemSetting(id: string): Promise<SystemSetting | undefined>;
   getSystemSettingByKey(key: string): Promise<SystemSetting | undefined>;
@@ -109,7 +176,6 @@ export interface IStorage {
     totalClasses: number;
     totalRevenue: number;
     monthlyRevenue: number;
-    avgAttendance: number;
   }>;
 }
 
@@ -117,126 +183,24 @@ export class MemStorage implements IStorage {
   private users = new Map<string, User>();
   private students = new Map<string, Student>();
   private classes = new Map<string, Class>();
+  private enrollments = new Map<string, Enrollment>();
+  private sessionExceptions = new Map<string, SessionException>();
   private attendance = new Map<string, Attendance>();
   private fees = new Map<string, Fee>();
+  private payments = new Map<string, Payment>();
+  private receipts = new Map<string, Receipt>();
+  // Like the serial column in Postgres: receipt numbers keep counting up and are never reused
+  private lastReceiptNumber = 0;
+  private checkouts = new Map<string, Checkout>();
+  private discountRules = new Map<string, DiscountRule>();
   private homework = new Map<string, Homework>();
   private homeworkSubmissions = new Map<string, HomeworkSubmission>();
+  private uploads = new Map<string, Upload>();
   private announcements = new Map<string, Announcement>();
   private systemLogs = new Map<string, SystemLog>();
+  private notifications = new Map<string, Notification>();
   private systemSettings = new Map<string, SystemSetting>();
-
-  constructor() {
-    this.seedData();
-  }
-
-  private seedData() {
-    // Create default admin user
-    const adminId = randomUUID();
-    const admin: User = {
-      id: adminId,
-      email: "admin@edumanage.com",
-      password: "admin123",
-      name: "System Administrator",
-      role: "admin",
-      avatar: null,
-      isActive: true,
-      lastLogin: new Date(),
-      createdAt: new Date(),
-    };
-    this.users.set(adminId, admin);
-
-    // Create default tutor user
-    const tutorId = randomUUID();
-    const tutor: User = {
-      id: tutorId,
-      email: "tutor@edumanage.com",
-      password: "password123",
-      name: "Sarah Johnson",
-      role: "tutor",
-      avatar: null,
-      isActive: true,
-      lastLogin: new Date(),
-      createdAt: new Date(),
-    };
-    this.users.set(tutorId, tutor);
-
-    // Create sample students
-    const student1Id = randomUUID();
-    const student1: Student = {
-      id: student1Id,
-      name: "Alex Chen",
-      email: "alex.chen@email.com",
-      rollNumber: "101",
-      grade: "Grade 10",
-      subjects: ["Mathematics"],
-      parentId: null,
-      tutorId: tutorId,
-      avatar: null,
-      createdAt: new Date(),
-    };
-    this.students.set(student1Id, student1);
-
-    const student2Id = randomUUID();
-    const student2: Student = {
-      id: student2Id,
-      name: "Emma Wilson",
-      email: "emma.wilson@email.com",
-      rollNumber: "102",
-      grade: "Grade 11",
-      subjects: ["Physics"],
-      parentId: null,
-      tutorId: tutorId,
-      avatar: null,
-      createdAt: new Date(),
-    };
-    this.students.set(student2Id, student2);
-
-    // Create sample class
-    const classId = randomUUID();
-    const mathClass: Class = {
-      id: classId,
-      name: "Mathematics Grade 10",
-      subject: "Mathematics",
-      grade: "Grade 10",
-      tutorId: tutorId,
-      schedule: [{ day: "Monday", time: "2:00 PM" }, { day: "Wednesday", time: "2:00 PM" }],
-      studentIds: [student1Id],
-      feeAmount: "250.00",
-      createdAt: new Date(),
-    };
-    this.classes.set(classId, mathClass);
-
-    // Create sample fee
-    const feeId = randomUUID();
-    const fee: Fee = {
-      id: feeId,
-      studentId: student1Id,
-      classId: classId,
-      amount: "250.00",
-      dueDate: new Date(Date.now() + 7 * 24 * 60 * 60 * 1000), // 7 days from now
-      paidDate: new Date(),
-      status: "paid",
-      month: "2024-11",
-      createdAt: new Date(),
-    };
-    this.fees.set(feeId, fee);
-
-    // Create sample homework
-    const homeworkId = randomUUID();
-    const homeworkAssignment: Homework = {
-      id: homeworkId,
-      title: "Chapter 5: Quadratic Equations",
-      description: "Complete exercises 5.1 to 5.5 from the textbook. Show all working steps clearly.",
-      classId: classId,
-      tutorId: tutorId,
-      dueDate: new Date(Date.now() + 7 * 24 * 60 * 60 * 1000),
-      assignedDate: new Date(),
-      status: "active",
-      totalStudents: 1,
-      submittedCount: 0,
-    };
-    this.homework.set(homeworkId, homeworkAssignment);
-  }
+  private feeLocks = new Map<string, Promise<unknown>>();
 
   // Users
   async getUser(id: string): Promise<User | undefined> {
@@ -249,7 +213,15 @@ export class MemStorage implements IStorage {
 
   async createUser(user: InsertUser): Promise<User> {
     const id = randomUUID();
-    const newUser: User = { ...user, id, createdAt: new Date() };
+    const newUser: User = {
+      avatar: null,
+      ...user,
+      id,
+      password: await hashPassword(user.password),
+      isActive: user.isActive ?? true,
+      lastLogin: null,
+      createdAt: new Date()
+    };
     this.users.set(id, newUser);
     return newUser;
   }
@@ -258,6 +230,9 @@ export class MemStorage implements IStorage {
     const existing = this.users.get(id);
     if (!existing) return undefined;
     const updated = { ...existing, ...user };
+    if (user.password) {
+      updated.password = await hashPassword(user.password);
+    }
     this.users.set(id, updated);
     return updated;
   }
@@ -275,6 +250,10 @@ export class MemStorage implements IStorage {
     return Array.from(this.students.values()).filter(student => student.parentId === parentId);
   }
 
+  async getStudentByUser(userId: string): Promise<Student | undefined> {
+    return Array.from(this.students.values()).find(student => student.userId === userId);
+  }
+
   async getAllStudents(): Promise<Student[]> {
     return Array.from(this.students.values());
   }
@@ -295,6 +274,23 @@ export class MemStorage implements IStorage {
   }
 
   async deleteStudent(id: string): Promise<boolean> {
+    Array.from(this.enrollments.values())
+      .filter(enrollment => enrollment.studentId === id)
+      .forEach(enrollment => this.enrollments.delete(enrollment.id));
+    Array.from(this.discountRules.values())
+      .filter(rule => rule.studentId === id)
+      .forEach(rule => this.discountRules.delete(rule.id));
+    Array.from(this.attendance.values())
+      .filter(record => record.studentId === id)
+      .forEach(record => this.attendance.delete(record.id));
+    Array.from(this.homeworkSubmissions.values())
+      .filter(submission => submission.studentId === id)
+      .forEach(submission => {
+        this.homeworkSubmissions.delete(submission.id);
+        Array.from(this.uploads.values())
+          .filter(upload => upload.submissionId === submission.id)
+          .forEach(upload => this.uploads.delete(upload.id));
+      });
     return this.students.delete(id);
   }
 
@@ -307,10 +303,17 @@ export class MemStorage implements IStorage {
     return Array.from(this.classes.values()).filter(cls => cls.tutorId === tutorId);
   }
 
-  async getClassesByStudent(studentId: string): Promise<Class[]> {
-    return Array.from(this.classes.values()).filter(cls => 
-      cls.studentIds.includes(studentId)
+  async getClassesByStudent(studentId: string, date: Date = new Date()): Promise<Class[]> {
+    const classIds = new Set(
+      Array.from(this.enrollments.values())
+        .filter(enrollment =>
+          enrollment.studentId === studentId &&
+          enrollment.startDate <= date &&
+          (enrollment.endDate === null || enrollment.endDate > date)
+        )
+        .map(enrollment => enrollment.classId)
     );
+    return Array.from(this.classes.values()).filter(cls => classIds.has(cls.id));
   }
 
   async getAllClasses(): Promise<Class[]> {
@@ -319,7 +322,7 @@ export class MemStorage implements IStorage {
 
   async createClass(classData: InsertClass): Promise<Class> {
     const id = randomUUID();
-    const newClass: Class = { ...classData, id, createdAt: new Date() };
+    const newClass: Class = { absenceAlerts: true, ...classData, id, createdAt: new Date() };
     this.classes.set(id, newClass);
     return newClass;
   }
@@ -333,9 +336,96 @@ export class MemStorage implements IStorage {
   }
 
   async deleteClass(id: string): Promise<boolean> {
+    Array.from(this.enrollments.values())
+      .filter(enrollment => enrollment.classId === id)
+      .forEach(enrollment => this.enrollments.delete(enrollment.id));
+    Array.from(this.sessionExceptions.values())
+      .filter(exception => exception.classId === id)
+      .forEach(exception => this.sessionExceptions.delete(exception.id));
+    Array.from(this.discountRules.values())
+      .filter(rule => rule.classId === id)
+      .forEach(rule => this.discountRules.delete(rule.id));
+    Array.from(this.attendance.values())
+      .filter(record => record.classId === id)
+      .forEach(record => this.attendance.delete(record.id));
+    for (const homework of Array.from(this.homework.values()).filter(homework => homework.classId === id)) {
+      await this.deleteHomework(homework.id);
+    }
     return this.classes.delete(id);
   }
 
+  // Enrollments
+  async getEnrollment(id: string): Promise<Enrollment | undefined> {
+    return this.enrollments.get(id);
+  }
+
+  async getEnrollmentsByClass(classId: string): Promise<Enrollment[]> {
+    return Array.from(this.enrollments.values()).filter(enrollment => enrollment.classId === classId);
+  }
+
+  async getEnrollmentsByStudent(studentId: string): Promise<Enrollment[]> {
+    return Array.from(this.enrollments.values()).filter(enrollment => enrollment.studentId === studentId);
+  }
+
+  async getClassRoster(classId: string, date: Date = new Date()): Promise<Enrollment[]> {
+    return Array.from(this.enrollments.values()).filter(enrollment =>
+      enrollment.classId === classId &&
+      enrollment.startDate <= date &&
+      (enrollment.endDate === null || enrollment.endDate > date)
+    );
+  }
+
+  async createEnrollment(enrollment: InsertEnrollment): Promise<Enrollment> {
+    const id = randomUUID();
+    const newEnrollment: Enrollment = {
+      startDate: new Date(),
+      endDate: null,
+      status: "active",
+      ...enrollment,
+      id,
+      createdAt: new Date(),
+    };
+    this.enrollments.set(id, newEnrollment);
+    return newEnrollment;
+  }
+
+  async updateEnrollment(id: string, enrollment: Partial<InsertEnrollment>): Promise<Enrollment | undefined> {
+    const existing = this.enrollments.get(id);
+    if (!existing) return undefined;
+    const updated = { ...existing, ...enrollment };
+    this.enrollments.set(id, updated);
+    return updated;
+  }
+
+  // Session exceptions
+  async getSessionException(id: string): Promise<SessionException | undefined> {
+    return this.sessionExceptions.get(id);
+  }
+
+  async getSessionExceptionsByClass(classId: string): Promise<SessionException[]> {
+    return Array.from(this.sessionExceptions.values()).filter(exception => exception.classId === classId);
+  }
+
+  async createSessionException(exception: InsertSessionException): Promise<SessionException> {
+    const id = randomUUID();
+    const newException: SessionException = {
+      startsAt: null,
+      duration: null,
+      room: null,
+      reason: null,
+      createdBy: null,
+      ...exception,
+      id,
+      createdAt: new Date(),
+    };
+    this.sessionExceptions.set(id, newException);
+    return newException;
+  }
+
+  async deleteSessionException(id: string): Promise<boolean> {
+    return this.sessionExceptions.delete(id);
+  }
+
   // Attendance
   async getAttendance(id: string): Promise<Attendance | undefined> {
     return this.attendance.get(id);
@@ -354,9 +444,13 @@ export class MemStorage implements IStorage {
     return Array.from(this.attendance.values()).filter(att => att.studentId === studentId);
   }
 
+  async getAttendanceInRange(from: Date, to: Date): Promise<Attendance[]> {
+    return Array.from(this.attendance.values()).filter(att => att.date >= from && att.date < to);
+  }
+
   async createAttendance(attendance: InsertAttendance): Promise<Attendance> {
     const id = randomUUID();
-    const newAttendance: Attendance = { ...attendance, id, createdAt: new Date() };
+    const newAttendance: Attendance = { notes: null, ...attendance, id, createdAt: new Date() };
     this.attendance.set(id, newAttendance);
     return newAttendance;
   }
@@ -369,11 +463,19 @@ export class MemStorage implements IStorage {
     return updated;
   }
 
-  async bulkCreateAttendance(attendanceList: InsertAttendance[]): Promise<Attendance[]> {
+  async bulkUpsertAttendance(attendanceList: InsertAttendance[]): Promise<Attendance[]> {
     const results: Attendance[] = [];
     for (const att of attendanceList) {
-      const created = await this.createAttendance(att);
-      results.push(created);
+      const date = startOfDay(att.date);
+      const existing = Array.from(this.attendance.values()).find(record =>
+        record.classId === att.classId &&
+        record.studentId === att.studentId &&
+        record.date.getTime() === date.getTime()
+      );
+      const saved = existing
+        ? await this.updateAttendance(existing.id, { status: att.status, notes: att.notes ?? null })
+        : await this.createAttendance({ ...att, date });
+      results.push(saved!);
     }
     return results;
   }
@@ -401,11 +503,27 @@ export class MemStorage implements IStorage {
 
   async createFee(fee: InsertFee): Promise<Fee> {
     const id = randomUUID();
-    const newFee: Fee = { ...fee, id, createdAt: new Date() };
+    const newFee: Fee = {
+      ...fee,
+      id,
+      status: fee.status ?? "pending",
+      lateFee: fee.lateFee ?? null,
+      discount: fee.discount ?? null,
+      discountReason: fee.discountReason ?? null,
+      paidDate: fee.paidDate ?? null,
+      createdAt: new Date(),
+    };
     this.fees.set(id, newFee);
     return newFee;
   }
 
+  async createFeeIfAbsent(fee: InsertFee): Promise<Fee | undefined> {
+    const exists = Array.from(this.fees.values()).some(existing =>
+      existing.classId === fee.classId && existing.studentId === fee.studentId && existing.month === fee.month
+    );
+    return exists ? undefined : this.createFee(fee);
+  }
+
   async updateFee(id: string, fee: Partial<InsertFee>): Promise<Fee | undefined> {
     const existing = this.fees.get(id);
     if (!existing) return undefined;
@@ -414,10 +532,154 @@ export class MemStorage implements IStorage {
     return updated;
   }
 
+  // Queues callers per fee, since awaits in `fn` would otherwise let them interleave
+  async withFeeLock<T>(feeId: string, fn: (storage: IStorage) => Promise<T>): Promise<T> {
+    const previous = this.feeLocks.get(feeId) ?? Promise.resolve();
+    const run = previous.catch(() => undefined).then(() => fn(this));
+    this.feeLocks.set(feeId, run);
+    try {
+      return await run;
+    } finally {
+      if (this.feeLocks.get(feeId) === run) this.feeLocks.delete(feeId);
+    }
+  }
+
   async deleteFee(id: string): Promise<boolean> {
+    Array.from(this.payments.values())
+      .filter(payment => payment.feeId === id)
+      .forEach(payment => {
+        this.payments.delete(payment.id);
+        Array.from(this.checkouts.values())
+          .filter(checkout => checkout.paymentId === payment.id)
+          .forEach(checkout => this.checkouts.set(checkout.id, { ...checkout, paymentId: null }));
+        Array.from(this.receipts.values())
+          .filter(receipt => receipt.paymentId === payment.id)
+          .forEach(receipt => this.receipts.delete(receipt.id));
+      });
+    Array.from(this.checkouts.values())
+      .filter(checkout => checkout.feeId === id)
+      .forEach(checkout => this.checkouts.delete(checkout.id));
     return this.fees.delete(id);
   }
 
+  // Payments
+  async getPayment(id: string): Promise<Payment | undefined> {
+    return this.payments.get(id);
+  }
+
+  async getPaymentsByFee(feeId: string): Promise<Payment[]> {
+    return Array.from(this.payments.values())
+      .filter(payment => payment.feeId === feeId)
+      .sort((a, b) => a.paidAt.getTime() - b.paidAt.getTime());
+  }
+
+  async getAllPayments(): Promise<Payment[]> {
+    return Array.from(this.payments.values());
+  }
+
+  async createPayment(payment: InsertPayment): Promise<Payment> {
+    const id = randomUUID();
+    const newPayment: Payment = {
+      ...payment,
+      id,
+      reference: payment.reference ?? null,
+      notes: payment.notes ?? null,
+      receivedBy: payment.receivedBy ?? null,
+      paidAt: payment.paidAt ?? new Date(),
+      createdAt: new Date(),
+    };
+    this.payments.set(id, newPayment);
+    return newPayment;
+  }
+
+  // Checkouts
+  async getCheckout(id: string): Promise<Checkout | undefined> {
+    return this.checkouts.get(id);
+  }
+
+  async getCheckoutByProviderRef(providerRef: string): Promise<Checkout | undefined> {
+    return Array.from(this.checkouts.values()).find(checkout => checkout.providerRef === providerRef);
+  }
+
+  async createCheckout(checkout: InsertCheckout): Promise<Checkout> {
+    const id = randomUUID();
+    const newCheckout: Checkout = {
+      ...checkout,
+      id,
+      providerRef: checkout.providerRef ?? null,
+      status: checkout.status ?? "pending",
+      failureReason: checkout.failureReason ?? null,
+      paymentId: checkout.paymentId ?? null,
+      createdAt: new Date(),
+      completedAt: checkout.completedAt ?? null,
+    };
+    this.checkouts.set(id, newCheckout);
+    return newCheckout;
+  }
+
+  async updateCheckout(id: string, checkout: Partial<InsertCheckout>): Promise<Checkout | undefined> {
+    const existing = this.checkouts.get(id);
+    if (!existing) return undefined;
+    const updated = { ...existing, ...checkout };
+    this.checkouts.set(id, updated);
+    return updated;
+  }
+
+  // Discount Rules
+  async getDiscountRule(id: string): Promise<DiscountRule | undefined> {
+    return this.discountRules.get(id);
+  }
+
+  async getAllDiscountRules(): Promise<DiscountRule[]> {
+    return Array.from(this.discountRules.values());
+  }
+
+  async createDiscountRule(rule: InsertDiscountRule): Promise<DiscountRule> {
+    const id = randomUUID();
+    const newRule: DiscountRule = {
+      ...rule,
+      id,
+      studentId: rule.studentId ?? null,
+      classId: rule.classId ?? null,
+      startMonth: rule.startMonth ?? null,
+      endMonth: rule.endMonth ?? null,
+      isActive: rule.isActive ?? true,
+      createdBy: rule.createdBy ?? null,
+      createdAt: new Date(),
+    };
+    this.discountRules.set(id, newRule);
+    return newRule;
+  }
+
+  async updateDiscountRule(id: string, rule: Partial<InsertDiscountRule>): Promise<DiscountRule | undefined> {
+    const existing = this.discountRules.get(id);
+    if (!existing) return undefined;
+    const updated = { ...existing, ...rule };
+    this.discountRules.set(id, updated);
+    return updated;
+  }
+
+  async deleteDiscountRule(id: string): Promise<boolean> {
+    return this.discountRules.delete(id);
+  }
+
+  // Receipts
+  async getReceiptByPayment(paymentId: string): Promise<Receipt | undefined> {
+    return Array.from(this.receipts.values()).find(receipt => receipt.paymentId === paymentId);
+  }
+
+  async createReceipt(receipt: InsertReceipt): Promise<Receipt> {
+    const id = randomUUID();
+    const newReceipt: Receipt = {
+      ...receipt,
+      id,
+      number: ++this.lastReceiptNumber,
+      issuedAt: receipt.issuedAt ?? new Date(),
+    };
+    this.receipts.set(id, newReceipt);
+    return newReceipt;
+  }
+
   // Homework
   async getHomework(id: string): Promise<Homework | undefined> {
     return this.homework.get(id);
@@ -437,7 +699,15 @@ export class MemStorage implements IStorage {
 
   async createHomework(homework: InsertHomework): Promise<Homework> {
     const id = randomUUID();
-    const newHomework: Homework = { ...homework, id, assignedDate: new Date() };
+    const newHomework: Homework = {
+      ...homework,
+      id,
+      status: homework.status ?? "active",
+      allowLateSubmissions: homework.allowLateSubmissions ?? false,
+      rubric: homework.rubric ?? [],
+      attachments: homework.attachments ?? [],
+      assignedDate: new Date(),
+    };
     this.homework.set(id, newHomework);
     return newHomework;
   }
@@ -451,6 +721,13 @@ export class MemStorage implements IStorage {
   }
 
   async deleteHomework(id: string): Promise<boolean> {
+    const submissionIds = new Set(Array.from(this.homeworkSubmissions.values())
+      .filter(submission => submission.homeworkId === id)
+      .map(submission => submission.id));
+    submissionIds.forEach(submissionId => this.homeworkSubmissions.delete(submissionId));
+    Array.from(this.uploads.values())
+      .filter(upload => upload.homeworkId === id || (upload.submissionId && submissionIds.has(upload.submissionId)))
+      .forEach(upload => this.uploads.delete(upload.id));
     return this.homework.delete(id);
   }
 
@@ -469,7 +746,20 @@ export class MemStorage implements IStorage {
 
   async createHomeworkSubmission(submission: InsertHomeworkSubmission): Promise<HomeworkSubmission> {
     const id = randomUUID();
-    const newSubmission: HomeworkSubmission = { ...submission, id, submittedAt: new Date() };
+    const newSubmission: HomeworkSubmission = {
+      ...submission,
+      id,
+      submissionText: submission.submissionText ?? null,
+      attachments: submission.attachments ?? [],
+      isLate: submission.isLate ?? false,
+      grade: submission.grade ?? null,
+      rubricScores: submission.rubricScores ?? [],
+      feedback: submission.feedback ?? null,
+      status: submission.status ?? "submitted",
+      gradedBy: submission.gradedBy ?? null,
+      gradedAt: submission.gradedAt ?? null,
+      submittedAt: new Date(),
+    };
     this.homeworkSubmissions.set(id, newSubmission);
     return newSubmission;
   }
@@ -482,6 +772,37 @@ export class MemStorage implements IStorage {
     return updated;
   }
 
+  // Uploads
+  async getUpload(id: string): Promise<Upload | undefined> {
+    return this.uploads.get(id);
+  }
+
+  async createUpload(upload: InsertUpload): Promise<Upload> {
+    const id = randomUUID();
+    const newUpload: Upload = {
+      ...upload,
+      id,
+      uploadedBy: upload.uploadedBy ?? null,
+      homeworkId: upload.homeworkId ?? null,
+      submissionId: upload.submissionId ?? null,
+      createdAt: new Date(),
+    };
+    this.uploads.set(id, newUpload);
+    return newUpload;
+  }
+
+  async updateUpload(id: string, upload: Partial<InsertUpload>): Promise<Upload | undefined> {
+    const existing = this.uploads.get(id);
+    if (!existing) return undefined;
+    const updated = { ...existing, ...upload };
+    this.uploads.set(id, updated);
+    return updated;
+  }
+
+  async deleteUpload(id: string): Promise<boolean> {
+    return this.uploads.delete(id);
+  }
+
   // Announcements
   async getAnnouncement(id: string): Promise<Announcement | undefined> {
     return this.announcements.get(id);
@@ -537,23 +858,31 @@ export class MemStorage implements IStorage {
     return updated;
   }
 
+  // Mirrors the foreign keys: classes, homework and announcements must be handed over
+  // first (see the admin delete route); references that only record who did something
+  // are cleared, and the user's notifications and checkouts go with them
   async deleteUser(id: string): Promise<boolean> {
+    const clear = <T extends { id: string }>(map: Map<string, T>, field: keyof T) =>
+      Array.from(map.values())
+        .filter(item => item[field] === id)
+        .forEach(item => map.set(item.id, { ...item, [field]: null }));
+    (["parentId", "tutorId", "userId"] as const).forEach(field => clear(this.students, field));
+    clear(this.sessionExceptions, "createdBy");
+    clear(this.payments, "receivedBy");
+    clear(this.discountRules, "createdBy");
+    clear(this.homeworkSubmissions, "gradedBy");
+    clear(this.uploads, "uploadedBy");
+    clear(this.systemLogs, "adminId");
+    clear(this.systemSettings, "updatedBy");
+    Array.from(this.notifications.values())
+      .filter(notification => notification.userId === id)
+      .forEach(notification => this.notifications.delete(notification.id));
+    Array.from(this.checkouts.values())
+      .filter(checkout => checkout.createdBy === id)
+      .forEach(checkout => this.checkouts.delete(checkout.id));
     return this.users.delete(id);
   }
 
-  async createUser(user: InsertUser): Promise<User> {
-    const id = randomUUID();
-    const newUser: User = { 
-      ...user, 
-      id, 
-      isActive: true, 
-      lastLogin: null,
-      createdAt: new Date() 
-    };
-    this.users.set(id, newUser);
-    return newUser;
-  }
-
   // System Logs
   async getSystemLog(id: string): Promise<SystemLog | undefined> {
     return this.systemLogs.get(id);
@@ -575,11 +904,52 @@ export class MemStorage implements IStorage {
 
   async createSystemLog(log: InsertSystemLog): Promise<SystemLog> {
     const id = randomUUID();
-    const newLog: SystemLog = { ...log, id, createdAt: new Date() };
+    const newLog: SystemLog = {
+      ...log,
+      id,
+      adminId: log.adminId ?? null,
+      ipAddress: log.ipAddress ?? null,
+      createdAt: new Date(),
+    };
     this.systemLogs.set(id, newLog);
     return newLog;
   }
 
+  // Notifications
+  async getNotification(id: string): Promise<Notification | undefined> {
+    return this.notifications.get(id);
+  }
+
+  async getNotificationsByUser(userId: string): Promise<Notification[]> {
+    return Array.from(this.notifications.values())
+      .filter(notification => notification.userId === userId)
+      .sort((a, b) => b.createdAt!.getTime() - a.createdAt!.getTime());
+  }
+
+  async createNotification(notification: InsertNotification): Promise<Notification> {
+    const id = randomUUID();
+    const newNotification: Notification = { ...notification, id, readAt: null, createdAt: new Date() };
+    this.notifications.set(id, newNotification);
+    return newNotification;
+  }
+
+  async markNotificationRead(id: string): Promise<Notification | undefined> {
+    const notification = this.notifications.get(id);
+    if (!notification) return undefined;
+    if (notification.readAt) return notification;
+    const updated = { ...notification, readAt: new Date() };
+    this.notifications.set(id, updated);
+    return updated;
+  }
+
+  async markAllNotificationsRead(userId: string): Promise<number> {
+    const unread = Array.from(this.notifications.values())
+      .filter(notification => notification.userId === userId && !notification.readAt);
+    const readAt = new Date();
+    unread.forEach(notification => this.notifications.set(notification.id, { ...notification, readAt }));
+    return unread.length;
+  }
+
   // System Settings
   async getSystemSetting(id: string): Promise<SystemSetting | undefined> {
     return this.systemSettings.get(id);
@@ -626,12 +996,11 @@ export class MemStorage implements IStorage {
     totalClasses: number;
     totalRevenue: number;
     monthlyRevenue: number;
-    avgAttendance: number;
   }> {
     const users = Array.from(this.users.values());
     const students = Array.from(this.students.values());
     const classes = Array.from(this.classes.values());
-    const fees = Array.from(this.fees.values());
+    const payments = Array.from(this.payments.values());
     
     const totalUsers = users.length;
     const activeUsers = users.filter(user => user.isActive).length;
@@ -640,20 +1009,12 @@ export class MemStorage implements IStorage {
     const totalParents = users.filter(user => user.role === 'parent').length;
     const totalClasses = classes.length;
     
-    const totalRevenue = fees
-      .filter(fee => fee.status === 'paid')
-      .reduce((sum, fee) => sum + parseFloat(fee.amount), 0);
-    
-    const currentMonth = new Date().toISOString().slice(0, 7);
-    const monthlyRevenue = fees
-      .filter(fee => fee.status === 'paid' && fee.month === currentMonth)
-      .reduce((sum, fee) => sum + parseFloat(fee.amount), 0);
-    
-    // Calculate average attendance
-    const attendance = Array.from(this.attendance.values());
-    const totalAttendanceRecords = attendance.length;
-    const presentRecords = attendance.filter(att => att.status === 'present' || att.status === 'late').length;
-    const avgAttendance = totalAttendanceRecords > 0 ? (presentRecords / totalAttendanceRecords * 100) : 0;
+    // Revenue is what the ledger received, net of refunds, summed in cents like the financial report
+    const sum = (ledger: Payment[]) =>
+      ledger.reduce((total, payment) => total + Math.round(parseFloat(payment.amount) * 100), 0) / 100;
+    const totalRevenue = sum(payments);
+    const monthStart = startOfMonth(new Date());
+    const monthlyRevenue = sum(payments.filter(payment => payment.paidAt >= monthStart));
     
     return {
       totalUsers,
@@ -663,10 +1024,10 @@ export class MemStorage implements IStorage {
       totalParents,
       totalClasses,
       totalRevenue,
-      monthlyRevenue,
-      avgAttendance: parseFloat(avgAttendance.toFixed(1))
+      monthlyRevenue
     };
   }
 }
 
-export const storage = new MemStorage();
+// Postgres when DATABASE_URL is set, otherwise an in-memory store that resets on restart
+export const storage: IStorage = db ? new DatabaseStorage(db) : new MemStorage();
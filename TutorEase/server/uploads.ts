@@ -0,0 +1,186 @@
+import { createHmac, randomUUID, timingSafeEqual } from "crypto";
+import path from "path";
+import type { Request, Response } from "express";
+import multer from "multer";
+import { format } from "date-fns";
+import { type Attachment, type Upload, type User } from "@shared/schema";
+import { storage } from "./storage";
+import { HttpError } from "./errors";
+import { getFileStore } from "./file-store";
+import { canAccessClass, canAccessStudent, type DataScope } from "./scope";
+
+// Upload limits, both optional system settings:
+//   uploads.max_size_mb     largest file accepted, in megabytes (default 10)
+//   uploads.allowed_types   comma-separated MIME types; "image/*" allows a whole family
+export const UPLOAD_MAX_SIZE_SETTING = "uploads.max_size_mb";
+export const UPLOAD_ALLOWED_TYPES_SETTING = "uploads.allowed_types";
+
+const DEFAULT_MAX_SIZE_MB = 10;
+const DEFAULT_ALLOWED_TYPES = [
+  "application/pdf",
+  "image/*",
+  "text/plain",
+  "application/msword",
+  "application/vnd.openxmlformats-officedocument.wordprocessingml.document",
+  "application/vnd.ms-powerpoint",
+  "application/vnd.openxmlformats-officedocument.presentationml.presentation",
+  "application/vnd.ms-excel",
+  "application/vnd.openxmlformats-officedocument.spreadsheetml.sheet",
+];
+
+// Signed download links stop working after this long
+const DOWNLOAD_URL_TTL_SECONDS = 15 * 60;
+const signingSecret = process.env.UPLOAD_SIGNING_SECRET || process.env.SESSION_SECRET || "edumanage-upload-secret";
+
+export interface UploadLimits {
+  maxBytes: number;
+  allowedTypes: string[];
+}
+
+export async function getUploadLimits(): Promise<UploadLimits> {
+  const [maxSize, allowedTypes] = await Promise.all([
+    storage.getSystemSettingByKey(UPLOAD_MAX_SIZE_SETTING),
+    storage.getSystemSettingByKey(UPLOAD_ALLOWED_TYPES_SETTING),
+  ]);
+  const megabytes = maxSize ? Number(maxSize.value) : NaN;
+  const types = allowedTypes?.value.split(",").map(type => type.trim().toLowerCase()).filter(Boolean) ?? [];
+  return {
+    maxBytes: Math.round((megabytes > 0 ? megabytes : DEFAULT_MAX_SIZE_MB) * 1024 * 1024),
+    allowedTypes: types.length > 0 ? types : DEFAULT_ALLOWED_TYPES,
+  };
+}
+
+const typeAllowed = (contentType: string, allowedTypes: string[]) =>
+  allowedTypes.some(type => type.endsWith("/*") ? contentType.startsWith(type.slice(0, -1)) : contentType === type);
+
+// Reads the "file" field of a multipart request into memory, stopping at the size limit
+function readMultipartFile(req: Request, res: Response, limits: UploadLimits): Promise<Express.Multer.File> {
+  const parse = multer({ storage: multer.memoryStorage(), limits: { fileSize: limits.maxBytes, files: 1 } }).single("file");
+  return new Promise((resolve, reject) => {
+    parse(req, res, (error: unknown) => {
+      if (error instanceof multer.MulterError) {
+        return reject(error.code === "LIMIT_FILE_SIZE"
+          ? new HttpError(413, `Files can be at most ${Math.round(limits.maxBytes / 1024 / 1024 * 10) / 10} MB`)
+          : new HttpError(400, error.message));
+      }
+      if (error) return reject(error);
+      if (!req.file) return reject(new HttpError(400, "Choose a file to upload"));
+      resolve(req.file);
+    });
+  });
+}
+
+// Stores the file sent in a multipart request. It isn't attached to anything until
+// homework or a submission that lists it is saved.
+export async function receiveUpload(req: Request, res: Response, user: User): Promise<Upload> {
+  const limits = await getUploadLimits();
+  const file = await readMultipartFile(req, res, limits);
+  if (!typeAllowed(file.mimetype.toLowerCase(), limits.allowedTypes)) {
+    throw new HttpError(415, `Files of type ${file.mimetype} can't be uploaded`);
+  }
+
+  const extension = path.extname(file.originalname).toLowerCase();
+  const storageKey = `${format(new Date(), "yyyy/MM")}/${randomUUID()}${/^\.[a-z0-9]{1,10}$/.test(extension) ? extension : ""}`;
+  await getFileStore().put(storageKey, file.buffer, file.mimetype);
+  return storage.createUpload({
+    storageKey,
+    name: file.originalname,
+    contentType: file.mimetype,
+    size: file.size,
+    uploadedBy: user.id,
+  });
+}
+
+// Whoever uploaded a file can always get it back; otherwise access follows the
+// homework or submission it is attached to
+export async function canAccessUpload(scope: DataScope, upload: Upload): Promise<boolean> {
+  if (upload.uploadedBy === scope.user.id) return true;
+  if (upload.homeworkId) {
+    const homework = await storage.getHomework(upload.homeworkId);
+    return !!homework && canAccessClass(scope, homework.classId);
+  }
+  if (upload.submissionId) {
+    const submission = await storage.getHomeworkSubmission(upload.submissionId);
+    const homework = submission && await storage.getHomework(submission.homeworkId);
+    if (!submission || !homework) return false;
+    return scope.user.role === "tutor"
+      ? canAccessClass(scope, homework.classId)
+      : canAccessStudent(scope, submission.studentId);
+  }
+  return false;
+}
+
+const signature = (uploadId: string, expires: number) =>
+  createHmac("sha256", signingSecret).update(`${uploadId}.${expires}`).digest("hex");
+
+// A link that downloads the file without a session until it expires. Only hand these
+// out after checking canAccessUpload().
+export function signedDownloadUrl(upload: Upload): { url: string; expiresAt: Date } {
+  const expires = Math.floor(Date.now() / 1000) + DOWNLOAD_URL_TTL_SECONDS;
+  return {
+    url: `/api/uploads/${upload.id}/download?expires=${expires}&signature=${signature(upload.id, expires)}`,
+    expiresAt: new Date(expires * 1000),
+  };
+}
+
+export function verifyDownloadSignature(uploadId: string, expires: unknown, given: unknown): void {
+  const expiresAt = Number(expires);
+  const expected = Buffer.from(Number.isInteger(expiresAt) ? signature(uploadId, expiresAt) : "");
+  const actual = Buffer.from(typeof given === "string" ? given : "");
+  if (!(expiresAt > Date.now() / 1000) || actual.length !== expected.length || !timingSafeEqual(actual, expected)) {
+    throw new HttpError(403, "This download link is invalid or has expired");
+  }
+}
+
+export function readUpload(upload: Upload): Promise<Buffer> {
+  return getFileStore().get(upload.storageKey);
+}
+
+export type UploadOwner = { homeworkId: string } | { submissionId: string };
+
+const belongsTo = (upload: Upload, owner: UploadOwner) =>
+  "homeworkId" in owner ? upload.homeworkId === owner.homeworkId : upload.submissionId === owner.submissionId;
+
+// Checks the uploads among the attachments before they are saved: each must be one the
+// user uploaded and hasn't attached anywhere else, or already belong to `owner` when
+// editing. Upload attachments take their name from the file.
+export async function resolveAttachments(attachments: Attachment[], user: User, owner?: UploadOwner): Promise<Attachment[]> {
+  return Promise.all(attachments.map(async attachment => {
+    if (!attachment.uploadId) return attachment;
+    const upload = await storage.getUpload(attachment.uploadId);
+    const usable = upload && (owner && belongsTo(upload, owner)
+      || upload.uploadedBy === user.id && !upload.homeworkId && !upload.submissionId);
+    if (!usable) {
+      throw new HttpError(400, `Attachment "${attachment.name}" is not an upload you can use`);
+    }
+    return { name: upload.name, uploadId: upload.id };
+  }));
+}
+
+// Links the uploads among the attachments to the homework or submission they were saved with
+export async function linkUploads(attachments: Attachment[], owner: UploadOwner): Promise<void> {
+  for (const attachment of attachments) {
+    if (attachment.uploadId) await storage.updateUpload(attachment.uploadId, owner);
+  }
+}
+
+// The uploads among the attachments that still exist
+export async function uploadsIn(attachments: Attachment[]): Promise<Upload[]> {
+  const found = await Promise.all(attachments
+    .filter(attachment => attachment.uploadId)
+    .map(attachment => storage.getUpload(attachment.uploadId!)));
+  return found.filter((upload): upload is Upload => upload !== undefined);
+}
+
+// Deletes uploads and their stored files. A file the store can't delete is only logged,
+// so it doesn't fail whatever removed the attachment.
+export async function discardUploads(uploads: Upload[]): Promise<void> {
+  for (const upload of uploads) {
+    await storage.deleteUpload(upload.id);
+    try {
+      await getFileStore().delete(upload.storageKey);
+    } catch (error) {
+      console.error(`Failed to delete stored file ${upload.storageKey}:`, error);
+    }
+  }
+}
@@ -1,8 +1,10 @@
 import { sql } from "drizzle-orm";
-import { pgTable, text, varchar, integer, decimal, timestamp, boolean, json } from "drizzle-orm/pg-core";
+import { pgTable, text, varchar, integer, serial, decimal, timestamp, boolean, json, uniqueIndex } from "drizzle-orm/pg-core";
 import { createInsertSchema } from "drizzle-zod";
 import { z } from "zod";
 
+export const userRoles = ["admin", "tutor", "student", "parent"] as const;
+
 export const users = pgTable("users", {
   id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
   email: text("email").notNull().unique(),
@@ -22,8 +24,9 @@ export const students = pgTable("students", {
   rollNumber: text("roll_number").notNull().unique(),
   grade: text("grade").notNull(),
   subjects: json("subjects").$type<string[]>().notNull().default([]),
-  parentId: varchar("parent_id").references(() => users.id),
-  tutorId: varchar("tutor_id").references(() => users.id),
+  parentId: varchar("parent_id").references(() => users.id, { onDelete: "set null" }),
+  tutorId: varchar("tutor_id").references(() => users.id, { onDelete: "set null" }),
+  userId: varchar("user_id").references(() => users.id, { onDelete: "set null" }).unique(), // login account for the student role
   avatar: text("avatar"),
   createdAt: timestamp("created_at").defaultNow(),
 });
@@ -34,57 +37,170 @@ export const classes = pgTable("classes", {
   subject: text("subject").notNull(),
   grade: text("grade").notNull(),
   tutorId: varchar("tutor_id").references(() => users.id).notNull(),
-  schedule: json("schedule").$type<{day: string, time: string}[]>().notNull(),
+  schedule: json("schedule").$type<{day: string, time: string, duration?: number, room?: string}[]>().notNull(),
   studentIds: json("student_ids").$type<string[]>().notNull().default([]),
   feeAmount: decimal("fee_amount", { precision: 10, scale: 2 }).notNull(),
+  absenceAlerts: boolean("absence_alerts").notNull().default(true), // notify parents of absences and late arrivals
+  createdAt: timestamp("created_at").defaultNow(),
+});
+
+export const enrollments = pgTable("enrollments", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  classId: varchar("class_id").references(() => classes.id, { onDelete: "cascade" }).notNull(),
+  studentId: varchar("student_id").references(() => students.id, { onDelete: "cascade" }).notNull(),
+  startDate: timestamp("start_date").notNull().defaultNow(),
+  endDate: timestamp("end_date"), // null while the enrollment is open
+  status: text("status").notNull().default('active'), // 'active', 'withdrawn', 'transferred'
+  createdAt: timestamp("created_at").defaultNow(),
+});
+
+// One-off changes to a single occurrence of a class's weekly schedule
+export const sessionExceptions = pgTable("session_exceptions", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  classId: varchar("class_id").references(() => classes.id, { onDelete: "cascade" }).notNull(),
+  sessionDate: timestamp("session_date").notNull(), // scheduled start of the affected occurrence
+  type: text("type").notNull(), // 'cancelled', 'rescheduled'
+  startsAt: timestamp("starts_at"), // new start time for rescheduled sessions
+  duration: integer("duration"), // minutes; null keeps the slot's duration
+  room: text("room"), // null keeps the slot's room
+  reason: text("reason"),
+  createdBy: varchar("created_by").references(() => users.id, { onDelete: "set null" }),
   createdAt: timestamp("created_at").defaultNow(),
 });
 
 export const attendance = pgTable("attendance", {
   id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
-  classId: varchar("class_id").references(() => classes.id).notNull(),
-  studentId: varchar("student_id").references(() => students.id).notNull(),
-  date: timestamp("date").notNull(),
+  classId: varchar("class_id").references(() => classes.id, { onDelete: "cascade" }).notNull(),
+  studentId: varchar("student_id").references(() => students.id, { onDelete: "cascade" }).notNull(),
+  date: timestamp("date").notNull(), // start of the day the register was taken
   status: text("status").notNull(), // 'present', 'absent', 'late'
   notes: text("notes"),
   createdAt: timestamp("created_at").defaultNow(),
-});
+}, (table) => [
+  uniqueIndex("attendance_class_student_date_idx").on(table.classId, table.studentId, table.date),
+]);
 
+// Fees hold the ledger, so a student or class can't be deleted while it has any
 export const fees = pgTable("fees", {
   id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
   studentId: varchar("student_id").references(() => students.id).notNull(),
   classId: varchar("class_id").references(() => classes.id).notNull(),
   amount: decimal("amount", { precision: 10, scale: 2 }).notNull(),
+  lateFee: decimal("late_fee", { precision: 10, scale: 2 }), // added once the grace period lapses; null until then
+  discount: decimal("discount", { precision: 10, scale: 2 }), // already taken off amount; null when none applied
+  discountReason: text("discount_reason"), // names of the discount rules applied
   dueDate: timestamp("due_date").notNull(),
   paidDate: timestamp("paid_date"),
-  status: text("status").notNull().default('pending'), // 'pending', 'paid', 'overdue'
+  status: text("status").notNull().default('pending'), // 'pending', 'partially_paid', 'paid', 'overdue'
   month: text("month").notNull(), // e.g., "2024-11"
   createdAt: timestamp("created_at").defaultNow(),
+}, (table) => [
+  // One fee per student per class per month, however many billing runs overlap
+  uniqueIndex("fees_class_student_month_idx").on(table.classId, table.studentId, table.month),
+]);
+
+// Money received against a fee; refunds are negative entries. A fee's balance and
+// paid status are derived from this ledger (see server/payments.ts).
+export const payments = pgTable("payments", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  feeId: varchar("fee_id").references(() => fees.id, { onDelete: "cascade" }).notNull(),
+  amount: decimal("amount", { precision: 10, scale: 2 }).notNull(),
+  method: text("method").notNull(), // 'cash', 'card', 'bank_transfer', 'cheque', 'online', 'other'
+  reference: text("reference"), // cheque number, transaction id, etc.
+  notes: text("notes"),
+  receivedBy: varchar("received_by").references(() => users.id, { onDelete: "set null" }),
+  paidAt: timestamp("paid_at").notNull().defaultNow(),
+  createdAt: timestamp("created_at").defaultNow(),
+});
+
+// An online payment attempt with a payment provider (see server/gateway.ts). The
+// provider's webhook settles it, recording the payment against the fee on success.
+export const checkouts = pgTable("checkouts", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  feeId: varchar("fee_id").references(() => fees.id, { onDelete: "cascade" }).notNull(),
+  amount: decimal("amount", { precision: 10, scale: 2 }).notNull(),
+  provider: text("provider").notNull(), // e.g. 'mock'
+  providerRef: text("provider_ref").unique(), // the provider's id, set once the checkout is created there
+  status: text("status").notNull().default('pending'), // 'pending', 'succeeded', 'failed'
+  failureReason: text("failure_reason"),
+  paymentId: varchar("payment_id").references(() => payments.id, { onDelete: "set null" }),
+  createdBy: varchar("created_by").references(() => users.id, { onDelete: "cascade" }).notNull(),
+  createdAt: timestamp("created_at").defaultNow(),
+  completedAt: timestamp("completed_at"),
+});
+
+// Discounts applied by the billing run (see server/discounts.ts). A rule targets one
+// student, every student in one class, or siblings (students sharing a parentId, from
+// the second child on), optionally limited to a class and a range of months.
+export const discountRules = pgTable("discount_rules", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  name: text("name").notNull(), // shown on the fee as the reason, e.g. "Sibling concession"
+  type: text("type").notNull(), // 'percentage', 'flat'
+  value: decimal("value", { precision: 10, scale: 2 }).notNull(),
+  scope: text("scope").notNull(), // 'student', 'class', 'sibling'
+  studentId: varchar("student_id").references(() => students.id, { onDelete: "cascade" }),
+  classId: varchar("class_id").references(() => classes.id, { onDelete: "cascade" }),
+  startMonth: text("start_month"), // e.g. "2024-11"; open-ended when null
+  endMonth: text("end_month"),
+  isActive: boolean("is_active").notNull().default(true),
+  createdBy: varchar("created_by").references(() => users.id, { onDelete: "set null" }),
+  createdAt: timestamp("created_at").defaultNow(),
+});
+
+// Issued once per payment with a sequential number. The snapshot holds everything
+// printed on the receipt so it can be regenerated identically later.
+export const receipts = pgTable("receipts", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  number: serial("number").notNull().unique(),
+  paymentId: varchar("payment_id").references(() => payments.id, { onDelete: "cascade" }).notNull().unique(),
+  snapshot: json("snapshot").$type<ReceiptSnapshot>().notNull(),
+  issuedAt: timestamp("issued_at").notNull().defaultNow(),
 });
 
 export const homework = pgTable("homework", {
   id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
   title: text("title").notNull(),
   description: text("description").notNull(),
-  classId: varchar("class_id").references(() => classes.id).notNull(),
+  classId: varchar("class_id").references(() => classes.id, { onDelete: "cascade" }).notNull(),
   tutorId: varchar("tutor_id").references(() => users.id).notNull(),
   dueDate: timestamp("due_date").notNull(),
   assignedDate: timestamp("assigned_date").defaultNow(),
   status: text("status").notNull().default('active'), // 'active', 'completed', 'archived'
-  totalStudents: integer("total_students").notNull().default(0),
-  submittedCount: integer("submitted_count").notNull().default(0),
+  allowLateSubmissions: boolean("allow_late_submissions").notNull().default(false),
+  rubric: json("rubric").$type<RubricCriterion[]>().notNull().default([]), // empty when graded as a single score
+  attachments: json("attachments").$type<Attachment[]>().notNull().default([]), // handouts
 });
 
 export const homeworkSubmissions = pgTable("homework_submissions", {
   id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
-  homeworkId: varchar("homework_id").references(() => homework.id).notNull(),
-  studentId: varchar("student_id").references(() => students.id).notNull(),
+  homeworkId: varchar("homework_id").references(() => homework.id, { onDelete: "cascade" }).notNull(),
+  studentId: varchar("student_id").references(() => students.id, { onDelete: "cascade" }).notNull(),
   submissionText: text("submission_text"),
-  fileUrl: text("file_url"),
+  attachments: json("attachments").$type<Attachment[]>().notNull().default([]),
   submittedAt: timestamp("submitted_at").defaultNow(),
+  isLate: boolean("is_late").notNull().default(false), // submitted after the due date
   grade: integer("grade"), // percentage
+  rubricScores: json("rubric_scores").$type<RubricScore[]>().notNull().default([]),
   feedback: text("feedback"),
   status: text("status").notNull().default('submitted'), // 'submitted', 'graded'
+  gradedBy: varchar("graded_by").references(() => users.id, { onDelete: "set null" }),
+  gradedAt: timestamp("graded_at"),
+}, (table) => [
+  uniqueIndex("homework_submissions_homework_student_idx").on(table.homeworkId, table.studentId),
+]);
+
+// Uploaded files. The bytes live in the file store (see server/file-store.ts); a file
+// is linked to the homework or submission it was attached to once that is saved.
+export const uploads = pgTable("uploads", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  storageKey: text("storage_key").notNull().unique(),
+  name: text("name").notNull(), // original file name
+  contentType: text("content_type").notNull(),
+  size: integer("size").notNull(), // bytes
+  uploadedBy: varchar("uploaded_by").references(() => users.id, { onDelete: "set null" }),
+  homeworkId: varchar("homework_id").references(() => homework.id, { onDelete: "cascade" }),
+  submissionId: varchar("submission_id").references(() => homeworkSubmissions.id, { onDelete: "cascade" }),
+  createdAt: timestamp("created_at").defaultNow(),
 });
 
 export const announcements = pgTable("announcements", {
@@ -100,7 +216,7 @@ export const announcements = pgTable("announcements", {
 
 export const systemLogs = pgTable("system_logs", {
   id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
-  adminId: varchar("admin_id").references(() => users.id).notNull(),
+  adminId: varchar("admin_id").references(() => users.id, { onDelete: "set null" }), // null for actions taken by background jobs
   action: text("action").notNull(), // 'user_created', 'user_deleted', 'fee_updated', etc.
   targetType: text("target_type").notNull(), // 'user', 'student', 'class', 'fee', etc.
   targetId: varchar("target_id").notNull(),
@@ -109,18 +225,30 @@ export const systemLogs = pgTable("system_logs", {
   createdAt: timestamp("created_at").defaultNow(),
 });
 
+export const notifications = pgTable("notifications", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  userId: varchar("user_id").references(() => users.id, { onDelete: "cascade" }).notNull(),
+  type: text("type").notNull(), // 'absence', 'absence_escalation', 'enrollment', 'fee_payment', 'homework_submission', 'announcement'
+  title: text("title").notNull(),
+  message: text("message").notNull(),
+  readAt: timestamp("read_at"),
+  createdAt: timestamp("created_at").defaultNow(),
+});
+
 export const systemSettings = pgTable("system_settings", {
   id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
   key: text("key").notNull().unique(),
   value: text("value").notNull(),
   description: text("description"),
   category: text("category").notNull().default('general'),
-  updatedBy: varchar("updated_by").references(() => users.id),
+  updatedBy: varchar("updated_by").references(() => users.id, { onDelete: "set null" }),
   updatedAt: timestamp("updated_at").defaultNow(),
 });
 
 // Insert Schemas
-export const insertUserSchema = createInsertSchema(users).omit({
+export const insertUserSchema = createInsertSchema(users, {
+  role: z.enum(userRoles),
+}).omit({
   id: true,
   createdAt: true,
 });
@@ -130,12 +258,47 @@ export const insertStudentSchema = createInsertSchema(students).omit({
   createdAt: true,
 });
 
-export const insertClassSchema = createInsertSchema(classes).omit({
+export const scheduleSlotSchema = z.object({
+  day: z.enum(["Monday", "Tuesday", "Wednesday", "Thursday", "Friday", "Saturday", "Sunday"]),
+  time: z.string()
+    .min(1, "Time is required")
+    .regex(/^(([01]?\d|2[0-3]):[0-5]\d|(0?[1-9]|1[0-2]):[0-5]\d\s*[AaPp][Mm])$/, "Use a time like 2:00 PM or 14:00"),
+  duration: z.coerce.number().int().min(15).max(480).default(60), // minutes
+  room: z.string().optional(),
+});
+
+export const insertClassSchema = createInsertSchema(classes, {
+  schedule: z.array(scheduleSlotSchema),
+  studentIds: z.array(z.string()).default([]),
+}).omit({
+  id: true,
+  createdAt: true,
+});
+
+export const insertEnrollmentSchema = createInsertSchema(enrollments).omit({
+  id: true,
+  createdAt: true,
+});
+
+export const insertSessionExceptionSchema = createInsertSchema(sessionExceptions, {
+  sessionDate: z.coerce.date(),
+  type: z.enum(["cancelled", "rescheduled"]),
+  startsAt: z.coerce.date().nullish(),
+  duration: z.coerce.number().int().min(15).max(480).nullish(),
+}).omit({
   id: true,
   createdAt: true,
+}).refine(exception => exception.type !== "rescheduled" || exception.startsAt, {
+  message: "A new start time is required when rescheduling",
+  path: ["startsAt"],
 });
 
-export const insertAttendanceSchema = createInsertSchema(attendance).omit({
+export const attendanceStatuses = ["present", "absent", "late"] as const;
+
+export const insertAttendanceSchema = createInsertSchema(attendance, {
+  date: z.coerce.date(),
+  status: z.enum(attendanceStatuses),
+}).omit({
   id: true,
   createdAt: true,
 });
@@ -145,49 +308,391 @@ export const insertFeeSchema = createInsertSchema(fees).omit({
   createdAt: true,
 });
 
-export const insertHomeworkSchema = createInsertSchema(homework).omit({
+export const paymentMethods = ["cash", "card", "bank_transfer", "cheque", "online", "other"] as const;
+
+export const insertPaymentSchema = createInsertSchema(payments, {
+  method: z.enum(paymentMethods),
+  paidAt: z.coerce.date().optional(),
+}).omit({
+  id: true,
+  createdAt: true,
+});
+
+export const insertCheckoutSchema = createInsertSchema(checkouts).omit({
+  id: true,
+  createdAt: true,
+});
+
+export const discountTypes = ["percentage", "flat"] as const;
+export const discountScopes = ["student", "class", "sibling"] as const;
+
+const monthSchema = z.string().regex(/^\d{4}-(0[1-9]|1[0-2])$/, "Month must look like YYYY-MM");
+
+export const insertDiscountRuleSchema = createInsertSchema(discountRules, {
+  name: z.string().trim().min(1),
+  type: z.enum(discountTypes),
+  value: z.coerce.number().positive().transform(value => value.toFixed(2)),
+  scope: z.enum(discountScopes),
+  startMonth: monthSchema.nullish(),
+  endMonth: monthSchema.nullish(),
+}).omit({
+  id: true,
+  createdAt: true,
+});
+
+export const insertReceiptSchema = createInsertSchema(receipts, {
+  snapshot: z.custom<ReceiptSnapshot>(),
+  issuedAt: z.coerce.date().optional(),
+}).omit({
+  id: true,
+  number: true,
+});
+
+// Only web links are stored or opened; javascript: and data: URLs would run in the
+// session of whoever clicks them
+export function isWebLink(url: string): boolean {
+  try {
+    return ["http:", "https:"].includes(new URL(url).protocol);
+  } catch {
+    return false;
+  }
+}
+
+export const attachmentSchema = z.object({
+  name: z.string().trim().min(1, "Name is required"),
+  uploadId: z.string().optional(),
+  url: z.string().url("Enter a full link, starting with https://")
+    .refine(isWebLink, "Enter a full link, starting with https://")
+    .optional(),
+}).refine(attachment => !attachment.uploadId !== !attachment.url, {
+  message: "An attachment is either an uploaded file or a link",
+});
+
+export const rubricCriterionSchema = z.object({
+  name: z.string().trim().min(1, "Name is required"),
+  weight: z.coerce.number().int().min(1, "Weight must be at least 1").max(100),
+});
+
+// Active homework takes submissions; completed homework is closed; archived homework
+// is also hidden from students
+export const homeworkStatuses = ["active", "completed", "archived"] as const;
+
+// Dates arrive as ISO strings over JSON
+export const insertHomeworkSchema = createInsertSchema(homework, {
+  dueDate: z.coerce.date(),
+  status: z.enum(homeworkStatuses).optional(),
+  attachments: z.array(attachmentSchema).max(10).optional(),
+  rubric: z.array(rubricCriterionSchema).max(10)
+    .refine(rubric => new Set(rubric.map(criterion => criterion.name)).size === rubric.length, {
+      message: "Criteria need different names",
+    })
+    .optional(),
+}).omit({
   id: true,
   assignedDate: true,
 });
 
-export const insertHomeworkSubmissionSchema = createInsertSchema(homeworkSubmissions).omit({
+export const homeworkStatusSchema = z.object({
+  status: z.enum(homeworkStatuses),
+});
+
+export const insertHomeworkSubmissionSchema = createInsertSchema(homeworkSubmissions, {
+  attachments: z.array(attachmentSchema).max(10).default([]),
+  rubricScores: z.array(z.custom<RubricScore>()).optional(),
+}).omit({
   id: true,
   submittedAt: true,
 });
 
+// What a student sends when handing in homework; the rest is filled in by the server
+export const homeworkSubmissionInputSchema = insertHomeworkSubmissionSchema.pick({
+  submissionText: true,
+  attachments: true,
+}).refine(submission => submission.submissionText?.trim() || submission.attachments.length > 0, {
+  message: "Write an answer or attach a file",
+  path: ["submissionText"],
+});
+
+// A grade is either a single percentage or, for homework with a rubric, a score per criterion
+export const gradeSubmissionSchema = z.object({
+  grade: z.coerce.number().int().min(0).max(100).nullish(),
+  rubricScores: z.array(z.object({
+    criterion: z.string(),
+    score: z.coerce.number().int().min(0).max(100),
+  })).default([]),
+  feedback: z.string().trim().max(5000).nullish(),
+});
+
+export const insertUploadSchema = createInsertSchema(uploads).omit({
+  id: true,
+  createdAt: true,
+});
+
 export const insertAnnouncementSchema = createInsertSchema(announcements).omit({
   id: true,
   createdAt: true,
 });
 
-export const insertSystemLogSchema = createInsertSchema(systemLogs).omit({
+export const insertSystemLogSchema = createInsertSchema(systemLogs, {
+  details: z.record(z.any()).default({}),
+}).omit({
   id: true,
   createdAt: true,
 });
 
+export const insertNotificationSchema = createInsertSchema(notifications).omit({
+  id: true,
+  readAt: true,
+  createdAt: true,
+});
+
 export const insertSystemSettingSchema = createInsertSchema(systemSettings).omit({
   id: true,
   updatedAt: true,
 });
 
 // Types
+export type UserRole = typeof userRoles[number];
 export type User = typeof users.$inferSelect;
 export type InsertUser = z.infer<typeof insertUserSchema>;
 export type Student = typeof students.$inferSelect;
 export type InsertStudent = z.infer<typeof insertStudentSchema>;
 export type Class = typeof classes.$inferSelect;
 export type InsertClass = z.infer<typeof insertClassSchema>;
+export type ScheduleSlot = z.infer<typeof scheduleSlotSchema>;
+export type Enrollment = typeof enrollments.$inferSelect;
+export type InsertEnrollment = z.infer<typeof insertEnrollmentSchema>;
+export type SessionException = typeof sessionExceptions.$inferSelect;
+export type InsertSessionException = z.infer<typeof insertSessionExceptionSchema>;
 export type Attendance = typeof attendance.$inferSelect;
 export type InsertAttendance = z.infer<typeof insertAttendanceSchema>;
 export type Fee = typeof fees.$inferSelect;
 export type InsertFee = z.infer<typeof insertFeeSchema>;
+export type Payment = typeof payments.$inferSelect;
+export type InsertPayment = z.infer<typeof insertPaymentSchema>;
+export type Checkout = typeof checkouts.$inferSelect;
+export type InsertCheckout = z.infer<typeof insertCheckoutSchema>;
+export type DiscountRule = typeof discountRules.$inferSelect;
+export type InsertDiscountRule = z.infer<typeof insertDiscountRuleSchema>;
+export type Receipt = typeof receipts.$inferSelect;
+export type InsertReceipt = z.infer<typeof insertReceiptSchema>;
 export type Homework = typeof homework.$inferSelect;
 export type InsertHomework = z.infer<typeof insertHomeworkSchema>;
+export type HomeworkStatus = typeof homeworkStatuses[number];
 export type HomeworkSubmission = typeof homeworkSubmissions.$inferSelect;
 export type InsertHomeworkSubmission = z.infer<typeof insertHomeworkSubmissionSchema>;
+export type HomeworkSubmissionInput = z.infer<typeof homeworkSubmissionInputSchema>;
+export type GradeSubmission = z.infer<typeof gradeSubmissionSchema>;
+export type Upload = typeof uploads.$inferSelect;
+export type InsertUpload = z.infer<typeof insertUploadSchema>;
 export type Announcement = typeof announcements.$inferSelect;
 export type InsertAnnouncement = z.infer<typeof insertAnnouncementSchema>;
 export type SystemLog = typeof systemLogs.$inferSelect;
 export type InsertSystemLog = z.infer<typeof insertSystemLogSchema>;
+export type Notification = typeof notifications.$inferSelect;
+export type InsertNotification = z.infer<typeof insertNotificationSchema>;
 export type SystemSetting = typeof systemSettings.$inferSelect;
 export type InsertSystemSetting = z.infer<typeof insertSystemSettingSchema>;
+
+// A dated occurrence of a class, expanded from its weekly schedule (see server/sessions.ts)
+export interface ClassSession {
+  id: string; // `${classId}:${scheduled start ISO}`, stable across reschedules
+  classId: string;
+  className: string;
+  subject: string;
+  tutorId: string;
+  scheduledStart: Date;
+  start: Date;
+  end: Date;
+  duration: number;
+  room: string | null;
+  status: "scheduled" | "cancelled" | "rescheduled";
+  exceptionId: string | null;
+  reason: string | null;
+}
+
+// A clash between a proposed class schedule and an existing class (see server/conflicts.ts)
+export interface ScheduleConflict {
+  kind: "tutor" | "student";
+  slotIndex: number; // index into the proposed schedule
+  classId: string;
+  className: string;
+  day: string;
+  time: string;
+  studentId?: string;
+  studentName?: string;
+}
+
+// Attendance rates are percentages of records marked present or late; null when there are no records
+export interface AttendanceTally {
+  present: number;
+  late: number;
+  absent: number;
+  total: number;
+  rate: number | null;
+}
+
+export interface AttendanceAnalytics {
+  from: Date;
+  to: Date;
+  threshold: number;
+  overall: AttendanceTally;
+  byStudent: (AttendanceTally & { studentId: string; name: string })[];
+  byClass: (AttendanceTally & { classId: string; name: string })[];
+  byTutor: (AttendanceTally & { tutorId: string; name: string })[];
+  weeklyTrend: (AttendanceTally & { weekStart: Date })[];
+  chronicallyAbsent: (AttendanceTally & { studentId: string; name: string })[];
+}
+
+// A fee with its ledger totals; amountDue includes any late fee
+export type FeeWithBalance = Fee & {
+  amountDue: string;
+  paid: string;
+  balance: string;
+};
+
+// Letterhead printed on invoices and receipts (see server/invoices.ts)
+export interface InstituteDetails {
+  name: string;
+  address: string | null;
+  phone: string | null;
+  email: string | null;
+}
+
+export interface ReceiptSnapshot {
+  institute: InstituteDetails;
+  studentName: string;
+  className: string | null;
+  month: string;
+  amount: string;
+  method: string;
+  reference: string | null;
+  paidAt: string; // ISO date
+  balanceAfter: string;
+}
+
+// A file on homework or a submission: either an upload or a link to somewhere else
+export interface Attachment {
+  name: string;
+  uploadId?: string;
+  url?: string;
+}
+
+// Criterion weights are relative; they needn't add up to 100
+export interface RubricCriterion {
+  name: string;
+  weight: number;
+}
+
+export interface RubricScore {
+  criterion: string; // RubricCriterion.name
+  score: number; // percentage
+}
+
+// Averages over graded submissions; null when nothing has been graded
+export interface HomeworkGradeStats {
+  gradedCount: number;
+  averageGrade: number | null;
+}
+
+// Derived from enrollments and submissions rather than stored (see server/homework.ts)
+export interface SubmissionCounts {
+  totalStudents: number;
+  submittedCount: number;
+  lateCount: number;
+  gradedCount: number;
+}
+
+export type HomeworkWithCounts = Homework & SubmissionCounts;
+
+export interface HomeworkBreakdown extends SubmissionCounts {
+  homeworkId: string;
+  students: {
+    studentId: string;
+    name: string;
+    status: "not_submitted" | "submitted" | "graded";
+    isLate: boolean;
+    submissionId: string | null;
+    submittedAt: Date | null;
+    grade: number | null;
+  }[];
+}
+
+// Where a student stands on a piece of homework (see server/homework.ts)
+export type StudentHomeworkState = "due" | "overdue" | "submitted" | "graded";
+
+export type StudentHomework = Homework & {
+  className: string;
+  state: StudentHomeworkState;
+  submission: HomeworkSubmission | null;
+};
+
+// One student's fee for one class in a billing run (see server/billing.ts)
+export interface BillingLine {
+  studentId: string;
+  classId: string;
+  amount: string;
+  dueDate: Date; // later than the run's due date for students who joined or were billed after it
+  enrolledDays: number;
+  daysInMonth: number;
+  prorated: boolean;
+  discount: string | null; // already taken off amount
+  discountReason: string | null;
+  feeId: string | null; // null in a dry run
+}
+
+export interface BillingRunResult {
+  month: string;
+  dueDate: Date; // the month's due day
+  dryRun: boolean;
+  created: BillingLine[];
+  skipped: { studentId: string; classId: string; reason: "already_billed" | "no_fee_amount" }[];
+  total: string;
+}
+
+// A fee the overdue check moves to overdue and/or charges a late fee (see server/overdue.ts)
+export interface OverdueChange {
+  feeId: string;
+  studentId: string;
+  month: string;
+  daysPastDue: number;
+  markOverdue: boolean;
+  lateFee: string | null;
+}
+
+export interface OverdueRunResult {
+  dryRun: boolean;
+  checkedAt: Date;
+  changes: OverdueChange[];
+  markedOverdue: number;
+  lateFeesApplied: number;
+}
+
+// GET /api/admin/reports/financial. Revenue comes from the payments ledger, net of
+// refunds; pending and overdue amounts are outstanding balances.
+export interface FinancialReport {
+  totalRevenue: number;
+  monthlyRevenue: number;
+  pendingAmount: number;
+  overdueAmount: number;
+  refundedAmount: number;
+  discountAmount: number;
+  totalFees: number;
+  paidFees: number;
+  partiallyPaidFees: number;
+  pendingFees: number;
+  overdueFees: number;
+  discountedFees: number;
+}
+
+// Pushed over the realtime socket (see server/realtime.ts) whenever a record changes
+export type RealtimeEntity =
+  | "students" | "classes" | "enrollments" | "sessions" | "attendance" | "fees" | "homework"
+  | "submissions" | "announcements" | "notifications" | "users" | "systemLogs" | "settings" | "discountRules";
+
+export interface ChangeEvent {
+  type: "change";
+  entity: RealtimeEntity;
+  action: "created" | "updated" | "deleted";
+  id?: string; // omitted for bulk changes such as a saved register
+}